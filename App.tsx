@@ -1,109 +1,935 @@
 
-import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { 
-  LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, AreaChart, Area
+  LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, AreaChart, Area, Legend
 } from 'recharts';
-import { SurfaceParameters, AIAnalysisResult, ModelType } from './types';
-import { generateSurfaceProfile, generateSurfaceProfile3D, calculateScattering, calculateEnergyConcentration } from './utils/physics';
-import { analyzeSurfaceModel } from './services/geminiService';
+import { SurfaceParameters, GeneratedSurface, AIAnalysisResult, ModelType, MeasuredData, SurfaceProcessingOptions, PSDModel, MaterialData, ScatteringOptions, PolarizationState, StokesVector, SourceSpectrum, SourceSpectrumType, SpectralSweepResult, SpectralSweepSettings, MeasuredBRDF, BRDFFitResult, FitParameter, ABgModel, ScatteringQuality, ScatteringRequest, Scenario, ScenarioComparisonMode, ScatteringData, CoatingLayer, InterfaceCorrelation, UndoHistory, AnalysisProviderId, AnalysisProviderSettings, RenderBRDFTable, ToolMarkProfile, PolarizedScatteringData, HemisphericalBRDF, EnergyConcentration, AppearanceMetrics, AppearanceRequest } from './types';
+import { resolveActiveModel, toCosineWeighted } from './utils/physics';
+import { incidentStokes } from './utils/polarization';
+import { downloadFile, printDocument } from './utils/download';
+import { generateRandomSurface, surfaceCrossSection, measureSurfaceStatistics } from './utils/synthesis';
+import { TOOL_MARK_PROFILES, addToolMarks, calculateDiffractionOrders, toolMarkSpacing } from './utils/machining';
+import { azimuthalSlice, crossPlaneSlice } from './utils/hemisphere';
+import { parseMeasurementFile } from './utils/surfaceImport';
+import { processProfile, processSurface, resampleHeightMap } from './utils/roughness';
+import { DEFAULT_PSD_SETTINGS, abcParameters, bandLimitedSlope } from './utils/psd';
+import { BUILTIN_MATERIALS, MANUAL_MATERIAL_ID, findMaterial, interpolateNK, parseMaterialCSV } from './utils/materials';
+import { COATING_PRESETS, EMPTY_COATING, filmStackAt, resolveCoating, stackReflectance, stackReflectanceCurves } from './utils/thinFilm';
+import { FIT_PARAMETERS_BY_MODEL, FIT_PARAMETER_LABELS, fitBRDF, parseMeasuredBRDF } from './utils/fitting';
+import { APPEARANCE_WAVELENGTH } from './utils/appearance';
+import { ScatterSetup, TABULATED_INCIDENCE, createExchangeFile, encodeMERL, fitABg, formatABg, formatTabBSDF, importedInPlaneSlice, parseBSDFFile, tabulateBSDF, tabulateMERL } from './utils/bsdfFormats';
+import { DEFAULT_SOURCE_SPECTRUM, DEFAULT_SWEEP_SETTINGS, calculateBandAverage, parseSpectrumCSV } from './utils/spectral';
+import { ANALYSIS_PROVIDERS, DEFAULT_ANALYSIS_SETTINGS, analysisService, findAnalysisProvider } from './services/analysisService';
+import { scatteringPool } from './services/scatteringPool';
+import { renderTableService } from './services/renderTableService';
+import { SCENARIO_COLORS, compareToBaseline, createScenario, createScenarioSetFile, parseScenarioSetFile, scatteringRequestFor } from './utils/scenarios';
+import { SIMULATION_STEP } from './workers/scatteringTask';
+import { DEFAULT_PARAMETERS } from './utils/parameters';
+import { DEFAULT_PROCESSING, createProjectFile, decodeParametersFromHash, encodeParametersToHash, parseProjectFile } from './utils/project';
+import { commitHistory, createHistory, redoHistory, undoHistory } from './utils/history';
+import { buildAnalysisInput, classifyRegime } from './utils/analysis';
+import { createSimulationReport } from './utils/report';
 import Surface3D from './components/Surface3D';
+import HemispherePlot, { HemisphereProjection } from './components/HemispherePlot';
+import SpectralHeatmap from './components/SpectralHeatmap';
+import BRDFChart, { BRDFChartSeries } from './components/BRDFChart';
+
+/** Shown when a project, scenario file or link loaded with some fields replaced by defaults. */
+const invalidFieldsMessage = (warnings: string[]) =>
+  warnings.length ? `部分字段无效，已改用默认值或忽略: ${warnings.join('; ')}` : null;
 
 const App: React.FC = () => {
-  const SIMULATION_STEP = 0.001;
-
-  const [params, setParams] = useState<SurfaceParameters>({
-    material: 'Aluminum Alloy',
-    ra: 0.8,
-    wavelength: 0.5,
-    incidentAngle: 0,
-    modelType: 'Auto',
-    reflectivity: 0.9,
-    slopeFactor: 1.0
+  const POLARIZATION_STEP = 0.1;
+  const KIRCHHOFF_STEP = 0.25;
+
+  // Parameters live in an undo history; a link's fragment (#v=…&p=…) overrides the defaults.
+  const [initialSession] = useState(() => {
+    try {
+      const warnings: string[] = [];
+      const params = decodeParametersFromHash(window.location.hash, warnings) ?? DEFAULT_PARAMETERS;
+      return { params, error: invalidFieldsMessage(warnings) };
+    } catch (err) {
+      return { params: DEFAULT_PARAMETERS, error: err instanceof Error ? err.message : String(err) };
+    }
   });
+  const [linkError, setLinkError] = useState<string | null>(initialSession.error);
+  const [reportError, setReportError] = useState<string | null>(null);
+  const [renderTable, setRenderTable] = useState<RenderBRDFTable | null>(null);
+  const [renderTableError, setRenderTableError] = useState<string | null>(null);
+  const surfaceCapture = useRef<(() => string) | null>(null);
+  const [history, setHistory] = useState<UndoHistory<SurfaceParameters>>(() => createHistory(initialSession.params));
+  const params = history.present;
+  const setParams = useCallback((update: SurfaceParameters | ((prev: SurfaceParameters) => SurfaceParameters)) => {
+    setHistory(h => commitHistory(h, typeof update === 'function' ? update(h.present) : update, Date.now()));
+  }, []);
+
+  const setIncidentAngle = useCallback((angle: number) => setParams(prev => ({ ...prev, incidentAngle: angle })), [setParams]);
 
   const raMinUm = 0.000001; 
   const raMaxUm = 3.2;
   const raLogMin = Math.log10(raMinUm);
   const raLogMax = Math.log10(raMaxUm);
   const wlMinUm = 0.01;
-  const wlMaxUm = 2.0;
+  const wlMaxUm = 12.0;
+  const wlLogMin = Math.log10(wlMinUm);
+  const wlLogMax = Math.log10(wlMaxUm);
 
-  const [profile, setProfile] = useState<{ x: number; y: number }[]>([]);
-  const [profile3D, setProfile3D] = useState<number[][]>([]);
-  const [fullScattering, setFullScattering] = useState<{ angle: number; intensity: number }[]>([]);
+  const SURFACE_GRID = 128;
+
+  const [surface, setSurface] = useState<GeneratedSurface | null>(null);
+  // Adaptive in-plane curve from the worker pool: a coarse preview first, then full precision.
+  const [scattering, setScattering] = useState<{ angle: number; intensity: number }[]>([]);
+  const [scatteringQuality, setScatteringQuality] = useState<ScatteringQuality | null>(null);
+  const [simulationError, setSimulationError] = useState<string | null>(null);
+  const [exportingBRDF, setExportingBRDF] = useState(false);
+  const [scenarios, setScenarios] = useState<Scenario[]>([]);
+  const [scenarioName, setScenarioName] = useState('');
+  const [baselineId, setBaselineId] = useState('current');
+  const [comparisonMode, setComparisonMode] = useState<ScenarioComparisonMode>('ratio');
+  const [scenarioCurves, setScenarioCurves] = useState<Record<string, ScatteringData[]>>({});
+  const [scenarioError, setScenarioError] = useState<string | null>(null);
+  const requestedScenarioCurves = useRef(new Set<string>());
   const [analysis, setAnalysis] = useState<AIAnalysisResult | null>(null);
   const [loading, setLoading] = useState(false);
+  const [analysisSettings, setAnalysisSettings] = useState<AnalysisProviderSettings>(DEFAULT_ANALYSIS_SETTINGS);
+  const [analysisError, setAnalysisError] = useState<string | null>(null);
+  const [analysisCached, setAnalysisCached] = useState(false);
+  const [measurement, setMeasurement] = useState<MeasuredData | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [measuredBRDF, setMeasuredBRDF] = useState<MeasuredBRDF | null>(null);
+  const [brdfImportError, setBrdfImportError] = useState<string | null>(null);
+  const [bsdfExporting, setBsdfExporting] = useState<string | null>(null);
+  const [bsdfError, setBsdfError] = useState<string | null>(null);
+  const [abgModel, setAbgModel] = useState<ABgModel | null>(null);
+  const [fitModel, setFitModel] = useState<ModelType>('Rayleigh-Rice');
+  const [fitParameters, setFitParameters] = useState<FitParameter[]>(FIT_PARAMETERS_BY_MODEL['Rayleigh-Rice']);
+  const [fitResults, setFitResults] = useState<BRDFFitResult[]>([]);
+  const [fitRunning, setFitRunning] = useState(false);
+  const [processing, setProcessing] = useState<SurfaceProcessingOptions>(DEFAULT_PROCESSING);
+  const [projectError, setProjectError] = useState<string | null>(null);
+
+  const processed = useMemo(() => {
+    if (!measurement) return null;
+    if (measurement.kind === 'profile') {
+      const res = processProfile(measurement, processing);
+      return { ...res, heights: null, ra: res.roughness.ra, profileRoughness: res.roughness, arealRoughness: null };
+    }
+    const res = processSurface(measurement, processing);
+    return { ...res, ra: res.roughness.sa, arealRoughness: res.roughness };
+  }, [measurement, processing]);
+
+  // Measured data overrides the Ra slider: Sa for height maps, Ra for profiles.
+  const effectiveRa = processed ? Math.max(raMinUm, processed.ra) : params.ra;
+
+  const [brdfUnit, setBrdfUnit] = useState<'brdf' | 'cosine' | 'relative'>('brdf');
+  const [showKirchhoffOverlay, setShowKirchhoffOverlay] = useState(false);
+  const [kirchhoffRealizations, setKirchhoffRealizations] = useState(4);
+  const [userMaterials, setUserMaterials] = useState<MaterialData[]>([]);
+  const [sweepSettings, setSweepSettings] = useState<SpectralSweepSettings>(DEFAULT_SWEEP_SETTINGS);
+  const [sourceSpectrum, setSourceSpectrum] = useState<SourceSpectrum>(DEFAULT_SOURCE_SPECTRUM);
+  const [sweep, setSweep] = useState<SpectralSweepResult | null>(null);
+  const [sweepRunning, setSweepRunning] = useState(false);
+  const [spectrumError, setSpectrumError] = useState<string | null>(null);
+  const [materialError, setMaterialError] = useState<string | null>(null);
+
+  const material = useMemo(() => findMaterial(params.material, userMaterials), [params.material, userMaterials]);
+  const refractiveIndex = useMemo(
+    () => (material ? interpolateNK(material, params.wavelength) : undefined),
+    [material, params.wavelength]
+  );
+  const coatingState = useMemo(() => {
+    try {
+      return { coating: resolveCoating(params.coating, userMaterials), error: null };
+    } catch (err) {
+      return { coating: undefined, error: err instanceof Error ? err.message : String(err) };
+    }
+  }, [params.coating, userMaterials]);
+  const resolvedCoating = material ? coatingState.coating : undefined;
+  const film = useMemo(
+    () => (resolvedCoating ? filmStackAt(resolvedCoating, params.wavelength) : undefined),
+    [resolvedCoating, params.wavelength]
+  );
+  const fresnel = useMemo(
+    () => (refractiveIndex ? stackReflectance(refractiveIndex, film, params.wavelength, params.incidentAngle * Math.PI / 180) : null),
+    [refractiveIndex, film, params.wavelength, params.incidentAngle]
+  );
+  // Fresnel (or coated-stack) reflectance at the current incidence and wavelength; the slider only applies to 'manual'.
+  const reflectance = fresnel ? fresnel.R : params.reflectivity;
+
+  const scatterOptions = useMemo<ScatteringOptions>(() => ({
+    psdModel: params.psdModel,
+    correlationLength: params.correlationLength,
+    psdExponent: params.psdExponent,
+    anisotropy: params.anisotropy,
+    refractiveIndex,
+    coating: film,
+    stokes: incidentStokes(params.polarization, params.stokes),
+    seed: params.seed,
+    realizations: kirchhoffRealizations,
+    microfacetGamma: params.microfacetGamma,
+    multipleScattering: params.multipleScattering,
+    machining: params.machining
+  }), [params.psdModel, params.correlationLength, params.psdExponent, params.anisotropy, refractiveIndex, film, params.polarization, params.stokes, params.seed, kirchhoffRealizations, params.microfacetGamma, params.multipleScattering, params.machining]);
+
+  const isMicrofacet = params.modelType.startsWith('Microfacet-');
+  // Facet slope widths of the microfacet models: √2 × the RMS slope of the PSD up to 1/λ.
+  const microfacetAlpha = useMemo(() => {
+    if (!isMicrofacet) return null;
+    const slope = bandLimitedSlope(effectiveRa * 1.25, { ...DEFAULT_PSD_SETTINGS, ...scatterOptions }, 1 / params.wavelength);
+    return { x: Math.SQRT2 * slope.x * params.slopeFactor, y: Math.SQRT2 * slope.y * params.slopeFactor };
+  }, [isMicrofacet, effectiveRa, scatterOptions, params.wavelength, params.slopeFactor]);
+
+  const coatingCurves = useMemo(
+    () => (material && resolvedCoating ? stackReflectanceCurves(material, resolvedCoating, params.wavelength, params.incidentAngle) : null),
+    [material, resolvedCoating, params.wavelength, params.incidentAngle]
+  );
+
+  const updateCoating = (patch: Partial<SurfaceParameters['coating']>) =>
+    setParams(prev => ({ ...prev, coating: { ...prev.coating, ...patch } }));
+  const updateCoatingLayer = (index: number, patch: Partial<CoatingLayer>) =>
+    updateCoating({ layers: params.coating.layers.map((l, i) => (i === index ? { ...l, ...patch } : l)) });
 
   const updateVisualization = useCallback(() => {
-    setProfile(generateSurfaceProfile(params.ra));
-    setProfile3D(generateSurfaceProfile3D(params.ra, 50));
-    const scat = calculateScattering(
-      params.ra, 
-      params.wavelength, 
-      params.incidentAngle, 
-      params.modelType, 
-      SIMULATION_STEP,
-      params.reflectivity,
-      params.slopeFactor
-    );
-    setFullScattering(scat);
-  }, [params.ra, params.wavelength, params.incidentAngle, params.modelType, params.reflectivity, params.slopeFactor]);
+    // One seeded 2D realization drives both views: the profile is its centre-row cross-section.
+    setSurface(generateRandomSurface(params.ra * 1.25, SURFACE_GRID, {
+      seed: params.seed,
+      psdModel: params.psdModel,
+      correlationLength: params.correlationLength,
+      psdExponent: params.psdExponent,
+      anisotropy: params.anisotropy,
+      // Tool marks need a few periods across the grid, finely enough sampled.
+      spacing: params.machining.enabled
+        ? toolMarkSpacing(params.machining, SURFACE_GRID, Math.min(params.correlationLength, params.correlationLength * params.anisotropy) / 4)
+        : undefined
+    }));
+  }, [params.ra, params.seed, params.psdModel, params.correlationLength, params.psdExponent, params.anisotropy, params.machining.enabled, params.machining.period]);
+
+  // The random realization is kept separately so its statistics stay comparable with the targets.
+  const machinedSurface = useMemo(
+    () => (surface && params.machining.enabled ? addToolMarks(surface, params.machining) : surface),
+    [surface, params.machining]
+  );
+  const profile = useMemo(() => (machinedSurface ? surfaceCrossSection(machinedSurface) : []), [machinedSurface]);
+  const profile3D = useMemo(() => (machinedSurface ? machinedSurface.heights : []), [machinedSurface]);
+  const diffractionOrders = useMemo(
+    () => (params.machining.enabled ? calculateDiffractionOrders(params.machining, params.wavelength, params.incidentAngle) : []),
+    [params.machining, params.wavelength, params.incidentAngle]
+  );
+  const surfaceStats = useMemo(
+    () => (surface ? measureSurfaceStatistics(surface.heights, surface.dx, surface.dy) : null),
+    [surface]
+  );
 
   useEffect(() => {
     updateVisualization();
   }, [updateVisualization]);
 
+  const scatteringRequest = useMemo<ScatteringRequest>(() => ({
+    ra: effectiveRa,
+    wavelength: params.wavelength,
+    incidentAngle: params.incidentAngle,
+    modelType: params.modelType,
+    reflectivity: reflectance,
+    slopeFactor: params.slopeFactor,
+    options: scatterOptions
+  }), [effectiveRa, params.wavelength, params.incidentAngle, params.modelType, reflectance, params.slopeFactor, scatterOptions]);
+
+  // A new parameter tuple cancels the stale job through the effect cleanup.
+  useEffect(() => scatteringPool.runProgressive(
+    'brdf',
+    scatteringRequest,
+    (data, quality) => {
+      setScattering(data);
+      setScatteringQuality(quality);
+      setSimulationError(null);
+    },
+    err => setSimulationError(err.message)
+  ), [scatteringRequest]);
+
+  const [polarView, setPolarView] = useState<string>('channels');
+
+  // The derived views run in the pool as well; each shows its last result until the new one arrives.
+  const [polarizedScattering, setPolarizedScattering] = useState<PolarizedScatteringData[]>([]);
+  useEffect(() => scatteringPool.runLatest(
+    'polarized',
+    { kind: 'polarized', request: scatteringRequest, step: POLARIZATION_STEP },
+    setPolarizedScattering,
+    err => setSimulationError(err.message)
+  ), [scatteringRequest]);
+
+  const polarChartData = useMemo(() => polarizedScattering.map(d => ({
+    angle: d.angle,
+    ss: d.ss,
+    sp: d.sp,
+    ps: d.ps,
+    pp: d.pp,
+    ...Object.fromEntries(d.mueller.map((v, i) => [`m${Math.floor(i / 4)}${i % 4}`, v]))
+  })), [polarizedScattering]);
+
+  const [hemiProjection, setHemiProjection] = useState<HemisphereProjection>('polar');
+
+  const [hemisphere, setHemisphere] = useState<HemisphericalBRDF | null>(null);
+  useEffect(() => scatteringPool.runLatest(
+    'hemisphere',
+    { kind: 'hemisphere', request: scatteringRequest, thetaStep: 1, phiStep: 2 },
+    setHemisphere,
+    err => setSimulationError(err.message)
+  ), [scatteringRequest]);
+
+  const hemisphereSlices = useMemo(() => {
+    if (!hemisphere) return [];
+    const inPlane = azimuthalSlice(hemisphere, 0);
+    const crossPlane = crossPlaneSlice(hemisphere);
+    return inPlane.map((d, i) => ({ angle: d.angle, inPlane: d.intensity, crossPlane: crossPlane[i].intensity }));
+  }, [hemisphere]);
+
+  const abc = useMemo(
+    () => abcParameters(effectiveRa * 1.25, params.correlationLength, params.psdExponent),
+    [effectiveRa, params.correlationLength, params.psdExponent]
+  );
+
+  const displayProfile = useMemo(() => {
+    if (!processed) return profile;
+    const stride = Math.max(1, Math.floor(processed.z.length / 400));
+    return processed.z
+      .filter((_, i) => i % stride === 0)
+      .map((y, i) => ({ x: processed.x[i * stride], y }));
+  }, [processed, profile]);
+
+  const displayHeightMap = useMemo(() => {
+    if (!processed) return profile3D;
+    if (processed.heights) return resampleHeightMap(processed.heights, SURFACE_GRID);
+    // A 1D profile is shown extruded along the lay direction.
+    const line = resampleHeightMap([processed.z], SURFACE_GRID)[0];
+    return Array.from({ length: SURFACE_GRID }, () => [...line]);
+  }, [processed, profile3D]);
+
+  // Side length of the displayed patch in micrometers; a profile spans its x range.
+  const surfaceExtent = useMemo(() => {
+    if (measurement?.kind === 'areal') return measurement.dx * (measurement.heights[0].length - 1);
+    if (measurement?.kind === 'profile') return measurement.x[measurement.x.length - 1] - measurement.x[0];
+    return surface ? surface.dx * (surface.heights[0].length - 1) : 1;
+  }, [measurement, surface]);
+
+  const handleMeasurementImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const text = await file.text();
+      setMeasurement(parseMeasurementFile(text, file.name));
+      setImportError(null);
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleMaterialImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseMaterialCSV(await file.text(), file.name.replace(/\.[^.]+$/, ''));
+      setUserMaterials(prev => [...prev.filter(m => m.id !== imported.id), imported]);
+      setParams(prev => ({ ...prev, material: imported.id }));
+      setMaterialError(null);
+    } catch (err) {
+      setMaterialError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  // Grounded on the finished curve; the preview pass is too coarse to quote.
   const handleAIAnalysis = async () => {
     setLoading(true);
+    setAnalysisError(null);
     try {
-      const result = await analyzeSurfaceModel(params);
+      const input = buildAnalysisInput(
+        { ...params, ra: effectiveRa },
+        material ? material.name : 'Manual',
+        gValue,
+        activeModel,
+        reflectance,
+        await currentEnergyStats(),
+        scatteringQuality === 'adaptive' ? scattering : []
+      );
+      const { result, cached } = await analysisService.analyze(input, analysisSettings);
       setAnalysis(result);
+      setAnalysisCached(cached);
     } catch (err) {
-      console.error(err);
+      setAnalysisError(err instanceof Error ? err.message : String(err));
     } finally {
       setLoading(false);
     }
   };
 
+  const selectAnalysisProvider = (id: AnalysisProviderId) =>
+    setAnalysisSettings(prev => ({ ...prev, provider: id, model: findAnalysisProvider(id).defaultModel }));
+
   const gValue = useMemo(() => {
-    const sigma = params.ra * 1.25;
+    const sigma = effectiveRa * 1.25;
     return Math.pow((4 * Math.PI * sigma * Math.cos(params.incidentAngle * Math.PI / 180)) / Math.max(0.0001, params.wavelength), 2);
-  }, [params.ra, params.wavelength, params.incidentAngle]);
+  }, [effectiveRa, params.wavelength, params.incidentAngle]);
+  const computedRegime = classifyRegime(gValue);
+  const activeModel = resolveActiveModel(params.modelType, gValue);
+
+  const [energyStats, setEnergyStats] = useState<EnergyConcentration | null>(null);
+  useEffect(() => scatteringPool.runLatest(
+    'energy',
+    { kind: 'energy', request: scatteringRequest },
+    setEnergyStats,
+    err => setSimulationError(err.message)
+  ), [scatteringRequest]);
+  // Statistics of the current parameters for exports, reports and analyses: cached once computed.
+  const currentEnergyStats = async () => {
+    const energy = await scatteringPool.runTask('energy-export', { kind: 'energy', request: scatteringRequest });
+    if (!energy) throw new Error('能量统计已取消');
+    return energy;
+  };
+
+  // Scenario parameters never change after pinning, so each curve is requested once. A scenario
+  // whose materials are missing is skipped on its own and retried when the materials change.
+  useEffect(() => {
+    for (const scenario of scenarios) {
+      if (requestedScenarioCurves.current.has(scenario.id)) continue;
+      let request: ScatteringRequest;
+      try {
+        request = scatteringRequestFor(scenario.params, userMaterials);
+      } catch (err) {
+        setScenarioError(`${scenario.name}: ${err instanceof Error ? err.message : String(err)}`);
+        continue;
+      }
+      requestedScenarioCurves.current.add(scenario.id);
+      scatteringPool.run(`scenario:${scenario.id}`, request, 'adaptive').then(data => {
+        if (data) setScenarioCurves(prev => ({ ...prev, [scenario.id]: data }));
+      }, err => setScenarioError(`${scenario.name}: ${err instanceof Error ? err.message : String(err)}`));
+    }
+  }, [scenarios, userMaterials]);
+
+  const pinScenario = () => {
+    const name = scenarioName.trim() || `Ra ${(effectiveRa * 1000).toPrecision(3)} nm · λ ${params.wavelength.toFixed(3)} µm · ${params.incidentAngle}°`;
+    const color = SCENARIO_COLORS[scenarios.length % SCENARIO_COLORS.length];
+    setScenarios(prev => [...prev, createScenario(name, { ...params, ra: effectiveRa }, userMaterials, color)]);
+    setScenarioName('');
+  };
+
+  const removeScenario = (id: string) => {
+    scatteringPool.cancel(`scenario:${id}`);
+    requestedScenarioCurves.current.delete(id);
+    setScenarios(prev => prev.filter(s => s.id !== id));
+    setScenarioCurves(prev => {
+      const { [id]: _removed, ...rest } = prev;
+      return rest;
+    });
+    if (baselineId === id) setBaselineId('current');
+  };
 
-  const energyStats = useMemo(() => {
-    return calculateEnergyConcentration(fullScattering, SIMULATION_STEP);
-  }, [fullScattering]);
+  const updateScenario = (id: string, patch: Partial<Scenario>) =>
+    setScenarios(prev => prev.map(s => (s.id === id ? { ...s, ...patch } : s)));
 
-  const chartData = useMemo(() => {
-    const sampleFactor = Math.max(1, Math.floor(fullScattering.length / 600));
-    return fullScattering.filter((_, i) => i % sampleFactor === 0);
-  }, [fullScattering]);
+  const exportScenarioSet = () => {
+    const file = createScenarioSetFile(scenarios, baselineId, userMaterials);
+    downloadFile(JSON.stringify(file, null, 2), `AluRough_Scenarios_${scenarios.length}.json`, 'application/json');
+  };
+
+  const handleScenarioImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const warnings: string[] = [];
+      const set = parseScenarioSetFile(await file.text(), warnings);
+      const knownIds = new Set(userMaterials.map(m => m.id));
+      const newMaterials = set.materials.filter(m => !knownIds.has(m.id));
+      if (newMaterials.length) setUserMaterials(prev => [...prev, ...newMaterials]);
+      const existing = new Set(scenarios.map(s => s.id));
+      setScenarios(prev => [...prev, ...set.scenarios.filter(s => !existing.has(s.id))]);
+      setBaselineId(set.baseline);
+      setScenarioError(invalidFieldsMessage(warnings));
+    } catch (err) {
+      setScenarioError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  // Keep the address bar in step with the parameters so that a reload or a copied link restores them.
+  useEffect(() => {
+    const timer = setTimeout(() => window.history.replaceState(null, '', `#${encodeParametersToHash(params)}`), 300);
+    return () => clearTimeout(timer);
+  }, [params]);
+
+  useEffect(() => {
+    const onHashChange = () => {
+      try {
+        const warnings: string[] = [];
+        const linked = decodeParametersFromHash(window.location.hash, warnings);
+        if (linked) setParams(linked);
+        setLinkError(invalidFieldsMessage(warnings));
+      } catch (err) {
+        setLinkError(err instanceof Error ? err.message : String(err));
+      }
+    };
+    window.addEventListener('hashchange', onHashChange);
+    return () => window.removeEventListener('hashchange', onHashChange);
+  }, [setParams]);
+
+  // Ctrl/⌘+Z undoes, Ctrl/⌘+Shift+Z or Ctrl+Y redoes; text fields keep their own undo.
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'TEXTAREA' || (target.tagName === 'INPUT' && (target as HTMLInputElement).type !== 'range' && (target as HTMLInputElement).type !== 'checkbox'))) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) setHistory(undoHistory);
+      else if ((key === 'z' && e.shiftKey) || key === 'y') setHistory(redoHistory);
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  // A link naming a user material that has not been imported falls back to the default one.
+  useEffect(() => {
+    if (params.material !== MANUAL_MATERIAL_ID && !findMaterial(params.material, userMaterials)) {
+      setLinkError(`材料 "${params.material}" 未导入，已改用默认材料`);
+      setParams(prev => ({ ...prev, material: DEFAULT_PARAMETERS.material }));
+    }
+  }, [params.material, userMaterials, setParams]);
+
+  const saveProject = () => {
+    const project = createProjectFile({
+      params,
+      materials: userMaterials,
+      measurement,
+      processing,
+      analysis,
+      scenarios,
+      baseline: baselineId,
+    });
+    downloadFile(JSON.stringify(project, null, 2), `AluRough_Project_${project.savedAt.slice(0, 10)}.json`, 'application/json');
+  };
+
+  const handleProjectOpen = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const warnings: string[] = [];
+      const project = parseProjectFile(await file.text(), warnings);
+      const projectIds = new Set(project.materials.map(m => m.id));
+      setUserMaterials(prev => [...prev.filter(m => !projectIds.has(m.id)), ...project.materials]);
+      setParams(project.params);
+      setMeasurement(project.measurement);
+      setProcessing(project.processing);
+      setAnalysis(project.analysis);
+      setAnalysisCached(false);
+      setAnalysisError(null);
+      for (const scenario of scenarios) scatteringPool.cancel(`scenario:${scenario.id}`);
+      requestedScenarioCurves.current.clear();
+      setScenarioCurves({});
+      setScenarios(project.scenarios);
+      setBaselineId(project.baseline);
+      setProjectError(invalidFieldsMessage(warnings));
+    } catch (err) {
+      setProjectError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  // One report per call; the 3D snapshot is taken now, from the current camera.
+  const buildReport = (energy: EnergyConcentration) => {
+    const project = createProjectFile({
+      params,
+      materials: userMaterials,
+      measurement,
+      processing,
+      analysis,
+      scenarios,
+      baseline: baselineId,
+    });
+    let surfaceSnapshot: string | null = null;
+    try {
+      surfaceSnapshot = surfaceCapture.current?.() ?? null;
+    } catch {
+      surfaceSnapshot = null;
+    }
+    return createSimulationReport({
+      params,
+      effectiveRa,
+      materialName: material ? material.name : 'Manual',
+      measurementName: measurement ? measurement.name : null,
+      activeModel,
+      phaseFactor: gValue,
+      reflectance,
+      energy,
+      curve: scattering,
+      profile: displayProfile,
+      surfaceSnapshot,
+      analysis,
+      appVersion: process.env.APP_VERSION ?? 'dev',
+      generatedAt: project.savedAt,
+      link: `${window.location.origin}${window.location.pathname}#${encodeParametersToHash(params)}`,
+      project,
+    });
+  };
 
-  const exportBRDF = () => {
+  const exportReport = async (format: 'html' | 'pdf') => {
+    if (scatteringQuality !== 'adaptive') {
+      setReportError('BRDF 仍在计算，请稍候再生成报告');
+      return;
+    }
+    try {
+      const html = buildReport(await currentEnergyStats());
+      if (format === 'html') downloadFile(html, `AluRough_Report_${new Date().toISOString().slice(0, 10)}.html`, 'text/html;charset=utf-8');
+      else printDocument(html);
+      setReportError(null);
+    } catch (err) {
+      setReportError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const copyLink = () => {
+    window.history.replaceState(null, '', `#${encodeParametersToHash(params)}`);
+    navigator.clipboard.writeText(window.location.href).catch(err => setLinkError(err instanceof Error ? err.message : String(err)));
+  };
+
+  const comparison = useMemo(() => {
+    const series = [
+      { id: 'current', name: '当前参数', color: '#10b981', curve: scattering },
+      ...scenarios.map(s => ({ id: s.id, name: s.name, color: s.color, curve: scenarioCurves[s.id] ?? [] })),
+    ];
+    const baseline = series.find(s => s.id === baselineId);
+    if (!baseline || !baseline.curve.length) return { series: [], data: [] };
+    const compared = series.filter(s => s.id !== baselineId && s.curve.length > 0);
+    const rows = new Map<number, Record<string, number>>();
+    for (const s of compared) {
+      for (const d of compareToBaseline(s.curve, baseline.curve, comparisonMode)) {
+        const row = rows.get(d.angle) ?? { angle: d.angle };
+        row[s.id] = d.intensity;
+        rows.set(d.angle, row);
+      }
+    }
+    return { series: compared, data: [...rows.values()].sort((a, b) => a.angle - b.angle) };
+  }, [scattering, scenarios, scenarioCurves, baselineId, comparisonMode]);
+
+  const appearanceRequest = useMemo<AppearanceRequest>(() => ({
+    ra: effectiveRa,
+    modelType: params.modelType,
+    slopeFactor: params.slopeFactor,
+    options: scatterOptions,
+    material,
+    reflectivity: params.reflectivity,
+    coating: resolvedCoating
+  }), [effectiveRa, params.modelType, params.slopeFactor, scatterOptions, material, params.reflectivity, resolvedCoating]);
+  const [appearance, setAppearance] = useState<AppearanceMetrics | null>(null);
+  useEffect(() => scatteringPool.runLatest(
+    'appearance',
+    { kind: 'appearance', request: appearanceRequest },
+    setAppearance,
+    err => setSimulationError(err.message)
+  ), [appearanceRequest]);
+
+  // Numerical Kirchhoff ensemble over the generated surface, overlaid on the analytic curve.
+  const [kirchhoffOverlay, setKirchhoffOverlay] = useState<ScatteringData[] | null>(null);
+  useEffect(() => {
+    if (!showKirchhoffOverlay) {
+      setKirchhoffOverlay(null);
+      return;
+    }
+    return scatteringPool.runLatest(
+      'kirchhoff',
+      { kind: 'sampled', request: { ...scatteringRequest, modelType: 'Kirchhoff-Numerical' }, step: KIRCHHOFF_STEP },
+      setKirchhoffOverlay,
+      err => setSimulationError(err.message)
+    );
+  }, [showKirchhoffOverlay, scatteringRequest]);
+
+  // Displayed curve: absolute BRDF (sr⁻¹), BRDF·cosθs, or the shape relative to its peak.
+  const toDisplayUnit = useCallback((data: { angle: number; intensity: number }[]) => {
+    if (brdfUnit === 'cosine') return toCosineWeighted(data);
+    if (brdfUnit === 'relative') {
+      const max = data.reduce((m, d) => Math.max(m, d.intensity), 0) || 1;
+      return data.map(d => ({ angle: d.angle, intensity: d.intensity / max }));
+    }
+    return data;
+  }, [brdfUnit]);
+
+  // Curves for the main chart, each with the incidence its specular-relative axes refer to.
+  const brdfSeries = useMemo<BRDFChartSeries[]>(() => {
+    const series: BRDFChartSeries[] = [
+      { key: 'intensity', name: '解析模型', color: '#10b981', curve: toDisplayUnit(scattering), thetaInc: params.incidentAngle, strokeWidth: 3 },
+    ];
+    // Pinned scenarios keep their own adaptive angles and incidence.
+    for (const sc of scenarios) {
+      if (!sc.visible || !scenarioCurves[sc.id]) continue;
+      series.push({ key: `scenario_${sc.id}`, name: sc.name, color: sc.color, curve: toDisplayUnit(scenarioCurves[sc.id]), thetaInc: sc.params.incidentAngle });
+    }
+    if (kirchhoffOverlay) {
+      series.push({ key: 'kirchhoff', name: '数值 Kirchhoff', color: '#f59e0b', curve: toDisplayUnit(kirchhoffOverlay), thetaInc: params.incidentAngle, strokeWidth: 2, dash: '4 3' });
+    }
+    if (measuredBRDF) {
+      const measured = measuredBRDF.angles.map((angle, i) => ({ angle, intensity: measuredBRDF.intensity[i] }));
+      series.push({ key: 'measured', name: '实测', color: '#f43f5e', curve: toDisplayUnit(measured), thetaInc: params.incidentAngle, dots: true });
+    }
+    if (fitResults.length) {
+      series.push({ key: 'fitted', name: `拟合 (${fitResults[0].modelType})`, color: '#818cf8', curve: toDisplayUnit(fitResults[0].fitted), thetaInc: params.incidentAngle, strokeWidth: 2, dash: '2 2' });
+    }
+    return series;
+  }, [scattering, params.incidentAngle, kirchhoffOverlay, toDisplayUnit, measuredBRDF, fitResults, scenarios, scenarioCurves]);
+
+  const handleBRDFImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setMeasuredBRDF(parseMeasuredBRDF(await file.text(), file.name));
+      setFitResults([]);
+      setBrdfImportError(null);
+    } catch (err) {
+      setBrdfImportError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  // Fits the selected model, or every analytic model with its default parameters for comparison.
+  const runBRDFFit = (compareAll: boolean) => {
+    if (!measuredBRDF) return;
+    setFitRunning(true);
+    setTimeout(() => {
+      try {
+        const models: ModelType[] = compareAll ? ['Rayleigh-Rice', 'Harvey-Shack', 'Beckmann'] : [fitModel];
+        const initial = { ...params, ra: effectiveRa };
+        const results = models.map(model => fitBRDF(
+          measuredBRDF,
+          model,
+          initial,
+          compareAll ? FIT_PARAMETERS_BY_MODEL[model] : fitParameters,
+          scatterOptions
+        ));
+        setFitResults(results.sort((a, b) => a.rmsLog - b.rmsLog));
+        setBrdfImportError(null);
+      } catch (err) {
+        setBrdfImportError(err instanceof Error ? err.message : String(err));
+      } finally {
+        setFitRunning(false);
+      }
+    }, 0);
+  };
+
+  const applyFit = (result: BRDFFitResult) => {
+    const values = Object.fromEntries(result.parameters.map(p => [p.name, p.value]));
+    setMeasurement(null);
+    setParams(prev => ({
+      ...prev,
+      ...values,
+      modelType: result.modelType,
+      // The fit uses the manual reflectivity path, so its value only applies there.
+      material: 'reflectivity' in values ? MANUAL_MATERIAL_ID : prev.material
+    }));
+  };
+
+  const runSpectralSweep = async () => {
+    setSweepRunning(true);
+    try {
+      const result = await scatteringPool.runTask('sweep', {
+        kind: 'sweep',
+        request: appearanceRequest,
+        incidentAngle: params.incidentAngle,
+        settings: sweepSettings
+      });
+      if (result) setSweep(result);
+      setSpectrumError(null);
+    } catch (err) {
+      setSpectrumError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setSweepRunning(false);
+    }
+  };
+
+  const scatterSetup = useMemo<ScatterSetup>(() => ({
+    ra: effectiveRa,
+    wavelength: params.wavelength,
+    modelType: params.modelType,
+    slopeFactor: params.slopeFactor,
+    options: scatterOptions,
+    material,
+    coating: resolvedCoating,
+    reflectivity: params.reflectivity
+  }), [effectiveRa, params.wavelength, params.modelType, params.slopeFactor, scatterOptions, material, resolvedCoating, params.reflectivity]);
+
+  // The 3D view keeps the previous table until the new one arrives.
+  useEffect(() => renderTableService.run(
+    scatterSetup,
+    table => {
+      setRenderTable(table);
+      setRenderTableError(null);
+    },
+    err => setRenderTableError(err.message)
+  ), [scatterSetup]);
+
+  // Ray-tracer exchange formats; the tabulated ones sample many incidence angles and take a moment.
+  const exportBSDF = (format: 'abg' | 'tabbsdf' | 'merl' | 'json') => {
+    setBsdfExporting(format);
+    setBsdfError(null);
+    setTimeout(() => {
+      try {
+        const baseName = `BRDF_Ra${effectiveRa.toFixed(2)}_Wl${params.wavelength.toFixed(2)}`;
+        if (format === 'abg') {
+          const model = fitABg(scatterSetup, params.incidentAngle);
+          setAbgModel(model);
+          downloadFile(formatABg(model, baseName), `${baseName}.abg`, 'text/plain;charset=utf-8;');
+        } else if (format === 'tabbsdf') {
+          const comments = [`AluRough ${params.modelType} model, Ra ${effectiveRa.toFixed(6)} um, ${material ? material.name : 'Manual'}`];
+          downloadFile(formatTabBSDF(tabulateBSDF(scatterSetup), comments), `${baseName}.bsdf`, 'text/plain;charset=utf-8;');
+        } else if (format === 'merl') {
+          downloadFile(encodeMERL(tabulateMERL(scatterSetup)), `${baseName}.binary`, 'application/octet-stream');
+        } else {
+          const file = createExchangeFile(params, scatterSetup, params.incidentAngle);
+          downloadFile(JSON.stringify(file), `${baseName}.json`, 'application/json');
+        }
+      } catch (err) {
+        setBsdfError(err instanceof Error ? err.message : String(err));
+      } finally {
+        setBsdfExporting(null);
+      }
+    }, 0);
+  };
+
+  // Any exchange file comes back as an in-plane slice at the current incidence, usable like a measurement.
+  const handleBSDFImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = await parseBSDFFile(file);
+      const slice = importedInPlaneSlice(imported, params.incidentAngle).filter(d => d.intensity > 0);
+      if (slice.length < 3) throw new Error('Imported BSDF has no data at this incidence angle');
+      setMeasuredBRDF({ name: file.name, angles: slice.map(d => d.angle), intensity: slice.map(d => d.intensity) });
+      setFitResults([]);
+      if (imported.kind === 'abg') setAbgModel(imported.model);
+      setBsdfError(null);
+    } catch (err) {
+      setBsdfError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const bandAverage = useMemo(() => (sweep ? calculateBandAverage(sweep, sourceSpectrum) : null), [sweep, sourceSpectrum]);
+
+  const spectralChartData = useMemo(() => sweep ? sweep.wavelengths.map((wavelength, i) => ({
+    wavelength: Number(wavelength.toPrecision(4)),
+    tis: sweep.budgets[i].tis,
+    specularFraction: sweep.budgets[i].hemispherical > 0 ? sweep.budgets[i].specular / sweep.budgets[i].hemispherical : 0,
+    hemispherical: sweep.budgets[i].hemispherical
+  })) : [], [sweep]);
+
+  const handleSpectrumImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const custom = parseSpectrumCSV(await file.text(), file.name.replace(/\.[^.]+$/, ''));
+      setSourceSpectrum(prev => ({ ...prev, type: 'custom', custom }));
+      setSpectrumError(null);
+    } catch (err) {
+      setSpectrumError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const exportSpectralSweep = () => {
+    if (!sweep || !bandAverage) return;
+    const header = [
+      "# AluRough Spectral Sweep Export",
+      `# Material: ${material ? material.name : 'Manual'}`,
+      `# Ra: ${effectiveRa.toFixed(6)} um`,
+      `# Incident Angle: ${params.incidentAngle} deg`,
+      `# Model: ${params.modelType}`,
+      `# Source: ${sourceSpectrum.type === 'custom' ? sourceSpectrum.custom?.name : sourceSpectrum.type}${sourceSpectrum.type === 'blackbody' ? ` (${sourceSpectrum.temperature} K)` : ''}`,
+      `# Band Hemispherical Reflectance: ${bandAverage.hemispherical.toExponential(6)}`,
+      `# Band TIS: ${bandAverage.tis.toExponential(6)}`,
+      `# Band Specular Fraction: ${bandAverage.specularFraction.toExponential(6)}`,
+      "# Rows: wavelength (um), TIS, specular reflectance, hemispherical reflectance, then BRDF (1/sr) per angle",
+      ["Wavelength(um)", "TIS", "Specular", "Hemispherical", ...sweep.angles.map(a => `${a}deg`)].join(",")
+    ].join("\n");
+
+    const rows = sweep.wavelengths.map((wavelength, i) => {
+      const b = sweep.budgets[i];
+      const brdf = Array.from(sweep.values.subarray(i * sweep.angles.length, (i + 1) * sweep.angles.length));
+      return [wavelength.toFixed(5), ...[b.tis, b.specular, b.hemispherical, ...brdf].map(v => v.toExponential(6))].join(",");
+    });
+    rows.push(["BandAverage", ...[bandAverage.tis, bandAverage.specular, bandAverage.hemispherical, ...bandAverage.brdf.map(d => d.intensity)].map(v => v.toExponential(6))].join(","));
+    downloadFile(header + "\n" + rows.join("\n"), `BRDF_Spectral_Ra${effectiveRa.toFixed(2)}_${sweepSettings.minWavelength}-${sweepSettings.maxWavelength}um.csv`);
+  };
+
+  const exportBRDF = async () => {
+    let energy: EnergyConcentration;
+    try {
+      energy = await currentEnergyStats();
+    } catch (err) {
+      setSimulationError(err instanceof Error ? err.message : String(err));
+      return;
+    }
     const header = [
       "# AluRough BRDF Data Export",
-      `# Material: ${params.material}`,
-      `# Ra: ${params.ra.toFixed(6)} um`,
+      `# Material: ${material ? material.name : 'Manual'}`,
+      `# Ra: ${effectiveRa.toFixed(6)} um`,
+      ...(measurement ? [`# Measured Surface: ${measurement.name}`] : []),
       `# Wavelength: ${params.wavelength.toFixed(3)} um`,
       `# Model: ${params.modelType}`,
-      `# Reflectivity: ${params.reflectivity}`,
+      `# Reflectivity: ${reflectance.toFixed(6)}`,
+      ...(refractiveIndex ? [`# Refractive Index: n = ${refractiveIndex.n.toFixed(4)}, k = ${refractiveIndex.k.toFixed(4)}`] : []),
       `# Slope Factor: ${params.slopeFactor}`,
+      `# PSD Model: ${params.psdModel} (l = ${params.correlationLength} um, C = ${params.psdExponent}, ly/lx = ${params.anisotropy})`,
+      `# Surface Seed: ${params.seed}`,
+      ...(params.machining.enabled ? [`# Tool Marks: ${params.machining.profile} (period ${params.machining.period} um, depth ${params.machining.depth} um, lay ${params.machining.layAngle} deg, ${diffractionOrders.length} orders)`] : []),
+      `# Polarization: ${params.polarization} (Stokes ${scatterOptions.stokes?.map(v => v.toFixed(3)).join(', ')})`,
       `# Phase Factor (g): ${gValue.toExponential(4)}`,
       `# Resolution: ${SIMULATION_STEP} deg`,
-      "Angle(deg),RelativeIntensity"
+      `# Specular Reflectance: ${energy.budget.specular.toExponential(6)}`,
+      `# Hemispherical Reflectance: ${energy.budget.hemispherical.toExponential(6)}`,
+      `# TIS: ${energy.budget.tis.toExponential(6)}`,
+      "Angle(deg),BRDF(1/sr),BRDFcos(1/sr)"
     ].join("\n");
 
-    const rows = fullScattering.map(d => `${d.angle.toFixed(3)},${d.intensity.toFixed(8)}`);
-    const csvContent = header + "\n" + rows.join("\n");
-    
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement("a");
-    link.setAttribute("href", url);
-    link.setAttribute("download", `BRDF_Ra${params.ra.toFixed(2)}_Wl${params.wavelength.toFixed(2)}.csv`);
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+    // Exports keep the full uniform resolution, computed on demand in the pool.
+    setExportingBRDF(true);
+    try {
+      const data = await scatteringPool.run('export', scatteringRequest, 'uniform');
+      if (!data) return;
+      const rows = data.map(d =>
+        `${d.angle.toFixed(3)},${d.intensity.toExponential(8)},${(d.intensity * Math.cos(d.angle * Math.PI / 180)).toExponential(8)}`
+      );
+      downloadFile(header + "\n" + rows.join("\n"), `BRDF_Ra${effectiveRa.toFixed(2)}_Wl${params.wavelength.toFixed(2)}.csv`);
+    } catch (err) {
+      setSimulationError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setExportingBRDF(false);
+    }
+  };
+
+  const exportPolarizedBRDF = async () => {
+    const muellerCols = Array.from({ length: 16 }, (_, i) => `M${Math.floor(i / 4)}${i % 4}`);
+    const header = [
+      "# AluRough Polarization-Resolved BRDF Export",
+      `# Material: ${material ? material.name : 'Manual'}`,
+      `# Ra: ${effectiveRa.toFixed(6)} um`,
+      `# Wavelength: ${params.wavelength.toFixed(3)} um`,
+      `# Incident Angle: ${params.incidentAngle} deg`,
+      `# Model: ${params.modelType}`,
+      "# Channels: first letter = incident, second = scattered polarization",
+      "# Units: BRDF in 1/sr",
+      `# Resolution: ${POLARIZATION_STEP} deg`,
+      ["Angle(deg)", "ss", "sp", "ps", "pp", ...muellerCols].join(",")
+    ].join("\n");
+
+    let data: PolarizedScatteringData[] | null;
+    try {
+      data = await scatteringPool.runTask('export', { kind: 'polarized', request: scatteringRequest, step: POLARIZATION_STEP });
+    } catch (err) {
+      setSimulationError(err instanceof Error ? err.message : String(err));
+      return;
+    }
+    if (!data) return;
+    const rows = data.map(d =>
+      [d.angle.toFixed(3), d.ss, d.sp, d.ps, d.pp, ...d.mueller].map(v => typeof v === 'number' ? v.toExponential(6) : v).join(",")
+    );
+    downloadFile(header + "\n" + rows.join("\n"), `BRDF_Polarized_Ra${effectiveRa.toFixed(2)}_Wl${params.wavelength.toFixed(2)}.csv`);
   };
 
   const handleRaInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -127,6 +953,53 @@ const App: React.FC = () => {
               <p className="text-[10px] uppercase tracking-[0.2em] text-slate-500 font-bold">BRDF 动力学仿真平台</p>
             </div>
           </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setHistory(undoHistory)}
+              disabled={!history.past.length}
+              title="撤销 (Ctrl+Z)"
+              className="px-3 py-2 bg-slate-950/80 border border-white/5 rounded-full text-[10px] font-black text-slate-400 hover:text-slate-200 disabled:opacity-30 transition-all"
+            >
+              ↶ 撤销
+            </button>
+            <button
+              onClick={() => setHistory(redoHistory)}
+              disabled={!history.future.length}
+              title="重做 (Ctrl+Shift+Z)"
+              className="px-3 py-2 bg-slate-950/80 border border-white/5 rounded-full text-[10px] font-black text-slate-400 hover:text-slate-200 disabled:opacity-30 transition-all"
+            >
+              ↷ 重做
+            </button>
+            <button
+              onClick={copyLink}
+              title="复制可复现当前参数的链接"
+              className="px-3 py-2 bg-slate-950/80 border border-white/5 rounded-full text-[10px] font-black text-slate-400 hover:text-slate-200 transition-all"
+            >
+              复制链接
+            </button>
+            <button
+              onClick={saveProject}
+              className="px-3 py-2 bg-emerald-500/10 hover:bg-emerald-500/20 text-emerald-400 border border-emerald-500/20 rounded-full text-[10px] font-black transition-all"
+            >
+              保存项目
+            </button>
+            <label className="px-3 py-2 bg-emerald-500/10 hover:bg-emerald-500/20 text-emerald-400 border border-emerald-500/20 rounded-full text-[10px] font-black transition-all cursor-pointer">
+              打开项目
+              <input type="file" accept=".json" onChange={handleProjectOpen} className="hidden" />
+            </label>
+            <button
+              onClick={() => exportReport('html')}
+              className="px-3 py-2 bg-indigo-500/10 hover:bg-indigo-500/20 text-indigo-400 border border-indigo-500/20 rounded-full text-[10px] font-black transition-all"
+            >
+              报告 HTML
+            </button>
+            <button
+              onClick={() => exportReport('pdf')}
+              className="px-3 py-2 bg-indigo-500/10 hover:bg-indigo-500/20 text-indigo-400 border border-indigo-500/20 rounded-full text-[10px] font-black transition-all"
+            >
+              报告 PDF
+            </button>
+          </div>
           <button 
             onClick={handleAIAnalysis}
             disabled={loading}
@@ -136,6 +1009,9 @@ const App: React.FC = () => {
             <span className="group-hover:translate-x-1 transition-transform">→</span>
           </button>
         </div>
+        {(projectError || linkError || reportError) && (
+          <p className="max-w-7xl mx-auto mt-2 text-[9px] text-rose-400">{projectError ?? linkError ?? reportError}</p>
+        )}
       </header>
 
       <main className="flex-1 max-w-7xl mx-auto w-full p-6 grid grid-cols-1 lg:grid-cols-12 gap-8">
@@ -156,35 +1032,188 @@ const App: React.FC = () => {
                   <option value="Beckmann">Beckmann (粗糙面)</option>
                   <option value="Rayleigh-Rice">Rayleigh-Rice (光滑面)</option>
                   <option value="Harvey-Shack">Harvey-Shack (广义)</option>
+                  <option value="Kirchhoff-Numerical">数值 Kirchhoff (蒙特卡洛)</option>
+                  <option value="Microfacet-Beckmann">微表面 Beckmann (Smith 遮蔽)</option>
+                  <option value="Microfacet-GGX">微表面 GGX / Trowbridge-Reitz</option>
+                  <option value="Microfacet-StudentT">微表面 Student-t</option>
                 </select>
+                {isMicrofacet && (
+                  <div className="mt-4 space-y-3">
+                    {params.modelType === 'Microfacet-StudentT' && (
+                      <div>
+                        <div className="flex justify-between items-center mb-2">
+                          <label className="text-[9px] font-black text-slate-500 uppercase tracking-tighter">尾部参数 γ</label>
+                          <span className="text-xs font-mono text-indigo-400">{params.microfacetGamma.toFixed(2)}</span>
+                        </div>
+                        <input
+                          type="range" min={1.6} max={20} step={0.1}
+                          value={params.microfacetGamma}
+                          onChange={(e) => setParams({...params, microfacetGamma: parseFloat(e.target.value)})}
+                          className="w-full h-1 bg-slate-800 rounded-full appearance-none cursor-pointer accent-indigo-400"
+                        />
+                        <p className="mt-1 text-[8px] text-slate-600 italic">γ = 2 即 GGX，γ → ∞ 趋于 Beckmann</p>
+                      </div>
+                    )}
+                    <label className="flex items-center gap-2 text-[9px] font-black text-slate-400 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={params.multipleScattering}
+                        onChange={(e) => setParams({...params, multipleScattering: e.target.checked})}
+                        className="accent-indigo-400"
+                      />
+                      多次散射能量补偿 (Kulla-Conty)
+                    </label>
+                    {microfacetAlpha && (
+                      <p className="text-[8px] font-mono text-slate-600">
+                        α = {microfacetAlpha.x.toPrecision(3)}{microfacetAlpha.y !== microfacetAlpha.x ? ` × ${microfacetAlpha.y.toPrecision(3)}` : ''} (PSD 斜率，f ≤ 1/λ)
+                      </p>
+                    )}
+                  </div>
+                )}
               </div>
 
               <div>
                 <div className="flex justify-between items-center mb-4">
                   <label className="text-[10px] font-black text-slate-500 uppercase tracking-tighter">表面粗糙度 Ra</label>
                   <div className="flex items-center gap-2 bg-slate-950/50 px-3 py-1.5 rounded-xl border border-white/5 font-mono text-xs text-indigo-400">
-                    {parseFloat((params.ra * 1000).toFixed(3))} nm
+                    {parseFloat((effectiveRa * 1000).toFixed(3))} nm
                   </div>
                 </div>
                 <input 
                   type="range" min={raLogMin} max={raLogMax} step={0.01}
                   value={Math.log10(params.ra)}
-                  onChange={(e) => setParams({...params, ra: Math.pow(10, parseFloat(e.target.value))})}
+                  disabled={!!measurement}
+                  onChange={(e) => setParams({...params, ra: Math.min(raMaxUm, Math.pow(10, parseFloat(e.target.value)))})}
                   className="w-full h-1 bg-slate-800 rounded-full appearance-none cursor-pointer accent-indigo-400"
                 />
               </div>
 
+              <div>
+                <label className="block text-[10px] font-black text-slate-500 mb-4 uppercase tracking-tighter">材料光谱数据库</label>
+                <select 
+                  value={params.material}
+                  onChange={(e) => setParams({...params, material: e.target.value})}
+                  className="w-full bg-slate-950/80 border border-white/5 rounded-2xl p-3 text-xs text-slate-300 focus:outline-none focus:ring-1 focus:ring-indigo-500 transition-all cursor-pointer"
+                >
+                  {[...BUILTIN_MATERIALS, ...userMaterials].map(m => (
+                    <option key={m.id} value={m.id}>{m.source === 'user' ? `导入: ${m.name}` : m.name}</option>
+                  ))}
+                  <option value={MANUAL_MATERIAL_ID}>手动反射率</option>
+                </select>
+                <label className="mt-3 block w-full text-center px-3 py-2 bg-emerald-500/10 hover:bg-emerald-500/20 text-emerald-400 border border-emerald-500/20 rounded-xl text-[9px] font-black uppercase tracking-widest transition-all cursor-pointer">
+                  导入 n,k 表 (CSV)
+                  <input type="file" accept=".csv,.txt" onChange={handleMaterialImport} className="hidden" />
+                </label>
+                {materialError && <p className="mt-2 text-[9px] text-rose-400">{materialError}</p>}
+              </div>
+
+              <div>
+                <div className="flex justify-between items-center mb-4">
+                  <label className="text-[10px] font-black text-slate-500 uppercase tracking-tighter">薄膜膜系</label>
+                  <span className="text-xs font-mono text-cyan-400">{params.coating.layers.length} 层</span>
+                </div>
+                <select
+                  value=""
+                  onChange={(e) => {
+                    const preset = COATING_PRESETS.find(p => p.id === e.target.value);
+                    if (preset) updateCoating(preset.stack);
+                    else if (e.target.value === 'none') updateCoating(EMPTY_COATING);
+                  }}
+                  className="w-full bg-slate-950/80 border border-white/5 rounded-2xl p-2 text-[10px] text-slate-300 cursor-pointer"
+                >
+                  <option value="" disabled>载入预设…</option>
+                  <option value="none">无膜 (裸基底)</option>
+                  {COATING_PRESETS.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                </select>
+                {params.coating.layers.length > 0 && (
+                  <div className="mt-3 space-y-2">
+                    <div className="grid grid-cols-[1fr_3.5rem_3.5rem_1.25rem] gap-1 text-[8px] font-black text-slate-600 uppercase">
+                      <span>材料 (外 → 内)</span><span>厚度 nm</span><span>Ra nm</span><span />
+                    </div>
+                    {params.coating.layers.map((layer, i) => (
+                      <div key={i} className="grid grid-cols-[1fr_3.5rem_3.5rem_1.25rem] gap-1 items-center">
+                        <select
+                          value={layer.material}
+                          onChange={(e) => updateCoatingLayer(i, { material: e.target.value })}
+                          className="min-w-0 bg-slate-950/80 border border-white/5 rounded-lg p-1 text-[9px] text-slate-300 cursor-pointer"
+                        >
+                          {[...BUILTIN_MATERIALS, ...userMaterials].map(m => (
+                            <option key={m.id} value={m.id}>{m.source === 'user' ? `导入: ${m.name}` : m.name}</option>
+                          ))}
+                        </select>
+                        <input
+                          type="number" min={0} step={1}
+                          value={Number((layer.thickness * 1000).toFixed(2))}
+                          onChange={(e) => {
+                            const v = parseFloat(e.target.value);
+                            if (Number.isFinite(v) && v >= 0) updateCoatingLayer(i, { thickness: v / 1000 });
+                          }}
+                          className="w-full bg-slate-950/80 border border-white/5 rounded-lg p-1 text-[9px] font-mono text-slate-300"
+                        />
+                        <input
+                          type="number" min={0} step={0.1}
+                          value={Number((layer.ra * 1000).toFixed(3))}
+                          title="界面粗糙度 Ra；0 表示复制基底粗糙度"
+                          onChange={(e) => {
+                            const v = parseFloat(e.target.value);
+                            if (Number.isFinite(v) && v >= 0) updateCoatingLayer(i, { ra: v / 1000 });
+                          }}
+                          className="w-full bg-slate-950/80 border border-white/5 rounded-lg p-1 text-[9px] font-mono text-slate-300"
+                        />
+                        <button
+                          onClick={() => updateCoating({ layers: params.coating.layers.filter((_, j) => j !== i) })}
+                          className="text-[10px] text-slate-600 hover:text-rose-400"
+                        >
+                          ✕
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                <div className="mt-3 flex gap-2">
+                  <button
+                    onClick={() => updateCoating({ layers: [{ material: 'sio2', thickness: 0.1, ra: 0 }, ...params.coating.layers] })}
+                    className="flex-1 px-3 py-1.5 bg-cyan-500/10 hover:bg-cyan-500/20 text-cyan-300 border border-cyan-500/20 rounded-xl text-[9px] font-black uppercase tracking-widest transition-all"
+                  >
+                    + 添加外层
+                  </button>
+                  <select
+                    value={params.coating.correlation}
+                    onChange={(e) => updateCoating({ correlation: e.target.value as InterfaceCorrelation })}
+                    title="界面粗糙度之间的相关性"
+                    className="bg-slate-950/80 border border-white/5 rounded-xl px-2 text-[9px] text-slate-300 cursor-pointer"
+                  >
+                    <option value="correlated">界面完全相关</option>
+                    <option value="uncorrelated">界面互不相关</option>
+                  </select>
+                </div>
+                <p className="mt-2 text-[8px] text-slate-600 italic">
+                  {material ? '界面 Ra 为 0 时复制基底粗糙度；相关界面的散射振幅相干叠加' : '手动反射率模式下忽略膜系'}
+                </p>
+                {coatingState.error && <p className="mt-2 text-[9px] text-rose-400">{coatingState.error}</p>}
+              </div>
+
               <div>
                 <div className="flex justify-between items-center mb-4">
                   <label className="text-[10px] font-black text-slate-500 uppercase tracking-tighter">材料反射率 (R)</label>
-                  <span className="text-xs font-mono text-emerald-400">{(params.reflectivity * 100).toFixed(0)}%</span>
+                  <span className="text-xs font-mono text-emerald-400">{(reflectance * 100).toFixed(fresnel ? 2 : 0)}%</span>
                 </div>
-                <input 
-                  type="range" min={0} max={1} step={0.01}
-                  value={params.reflectivity}
-                  onChange={(e) => setParams({...params, reflectivity: parseFloat(e.target.value)})}
-                  className="w-full h-1 bg-slate-800 rounded-full appearance-none cursor-pointer accent-emerald-400"
-                />
+                {fresnel && refractiveIndex ? (
+                  <div className="grid grid-cols-2 gap-2 text-[9px] font-mono">
+                    <div className="bg-slate-950/50 px-2 py-1.5 rounded-xl border border-white/5 text-slate-400">n = {refractiveIndex.n.toFixed(3)}</div>
+                    <div className="bg-slate-950/50 px-2 py-1.5 rounded-xl border border-white/5 text-slate-400">k = {refractiveIndex.k.toFixed(3)}</div>
+                    <div className="bg-slate-950/50 px-2 py-1.5 rounded-xl border border-white/5 text-slate-400">Rs = {(fresnel.Rs * 100).toFixed(2)}%</div>
+                    <div className="bg-slate-950/50 px-2 py-1.5 rounded-xl border border-white/5 text-slate-400">Rp = {(fresnel.Rp * 100).toFixed(2)}%</div>
+                    <p className="col-span-2 text-[8px] text-slate-600 italic font-sans">{film ? '膜系' : 'Fresnel'} 反射率 @ λ = {(params.wavelength * 1000).toFixed(0)} nm, θi = {params.incidentAngle}°</p>
+                  </div>
+                ) : (
+                  <input 
+                    type="range" min={0} max={1} step={0.01}
+                    value={params.reflectivity}
+                    onChange={(e) => setParams({...params, reflectivity: parseFloat(e.target.value)})}
+                    className="w-full h-1 bg-slate-800 rounded-full appearance-none cursor-pointer accent-emerald-400"
+                  />
+                )}
               </div>
 
               <div>
@@ -198,24 +1227,293 @@ const App: React.FC = () => {
                   onChange={(e) => setParams({...params, slopeFactor: parseFloat(e.target.value)})}
                   className="w-full h-1 bg-slate-800 rounded-full appearance-none cursor-pointer accent-orange-400"
                 />
-                <p className="mt-2 text-[8px] text-slate-600 italic">调整微表面分布的宽度 (Beckmann m 参数)</p>
+                <p className="mt-2 text-[8px] text-slate-600 italic">调整微表面分布的宽度 (Beckmann m 参数；微表面模型中缩放 PSD 斜率)</p>
+              </div>
+
+              <div>
+                <label className="block text-[10px] font-black text-slate-500 mb-4 uppercase tracking-tighter">表面功率谱密度 (PSD)</label>
+                <select 
+                  value={params.psdModel}
+                  onChange={(e) => setParams({...params, psdModel: e.target.value as PSDModel})}
+                  className="w-full bg-slate-950/80 border border-white/5 rounded-2xl p-3 text-xs text-slate-300 focus:outline-none focus:ring-1 focus:ring-indigo-500 transition-all cursor-pointer"
+                >
+                  <option value="Gaussian">高斯相关</option>
+                  <option value="Exponential">指数相关</option>
+                  <option value="ABC">K 相关 (ABC)</option>
+                  <option value="Fractal">分形 (逆幂律)</option>
+                </select>
+                <div className="flex justify-between items-center mt-4 mb-2">
+                  <label className="text-[10px] font-black text-slate-500 uppercase tracking-tighter">相关长度 ℓ</label>
+                  <span className="text-xs font-mono text-indigo-400">{params.correlationLength.toPrecision(3)} µm</span>
+                </div>
+                <input 
+                  type="range" min={-1} max={3} step={0.01}
+                  value={Math.log10(params.correlationLength)}
+                  onChange={(e) => setParams({...params, correlationLength: Math.pow(10, parseFloat(e.target.value))})}
+                  className="w-full h-1 bg-slate-800 rounded-full appearance-none cursor-pointer accent-indigo-400"
+                />
+                {(params.psdModel === 'ABC' || params.psdModel === 'Fractal') && (
+                  <>
+                    <div className="flex justify-between items-center mt-4 mb-2">
+                      <label className="text-[10px] font-black text-slate-500 uppercase tracking-tighter">谱指数 C</label>
+                      <span className="text-xs font-mono text-indigo-400">{params.psdExponent.toFixed(2)}</span>
+                    </div>
+                    <input 
+                      type="range" min={1.1} max={4} step={0.05}
+                      value={params.psdExponent}
+                      onChange={(e) => setParams({...params, psdExponent: parseFloat(e.target.value)})}
+                      className="w-full h-1 bg-slate-800 rounded-full appearance-none cursor-pointer accent-indigo-400"
+                    />
+                  </>
+                )}
+                {params.psdModel === 'ABC' && (
+                  <p className="mt-2 text-[8px] text-slate-600 font-mono">
+                    A = {abc.A.toExponential(2)} µm⁴ · B = {abc.B.toPrecision(3)} µm · C = {abc.C.toFixed(2)}
+                  </p>
+                )}
+              </div>
+
+              <div>
+                <div className="flex justify-between items-center mb-4">
+                  <label className="text-[10px] font-black text-slate-500 uppercase tracking-tighter">各向异性 ℓy / ℓx</label>
+                  <span className="text-xs font-mono text-indigo-400">{params.anisotropy.toFixed(2)}</span>
+                </div>
+                <input 
+                  type="range" min={-1} max={1} step={0.01}
+                  value={Math.log10(params.anisotropy)}
+                  onChange={(e) => setParams({...params, anisotropy: Math.pow(10, parseFloat(e.target.value))})}
+                  className="w-full h-1 bg-slate-800 rounded-full appearance-none cursor-pointer accent-indigo-400"
+                />
+                <div className="flex items-center gap-2 mt-4">
+                  <label className="text-[10px] font-black text-slate-500 uppercase tracking-tighter">随机种子</label>
+                  <input
+                    type="number" step={1}
+                    value={params.seed}
+                    onChange={(e) => setParams({...params, seed: parseInt(e.target.value, 10) || 0})}
+                    className="flex-1 min-w-0 bg-slate-950/80 border border-white/5 rounded-xl p-1.5 text-[10px] font-mono text-slate-300"
+                  />
+                  <button
+                    onClick={() => setParams({...params, seed: Math.floor(Math.random() * 2 ** 31)})}
+                    className="px-2 py-1.5 bg-indigo-500/10 hover:bg-indigo-500/20 text-indigo-400 border border-indigo-500/20 rounded-xl text-[9px] font-black"
+                  >
+                    🎲
+                  </button>
+                </div>
+                {surfaceStats && (
+                  <p className="mt-2 text-[8px] text-slate-600 font-mono">
+                    实测 Rq = {(surfaceStats.rq * 1000).toPrecision(4)} nm (目标 {(params.ra * 1250).toPrecision(4)}) · ℓx = {surfaceStats.correlationLengthX.toPrecision(3)} µm · ℓy = {surfaceStats.correlationLengthY.toPrecision(3)} µm
+                  </p>
+                )}
+              </div>
+
+              <div>
+                <div className="flex justify-between items-center mb-4">
+                  <label className="text-[10px] font-black text-slate-500 uppercase tracking-tighter">机加工纹理 (刀痕)</label>
+                  <button
+                    onClick={() => setParams({...params, machining: {...params.machining, enabled: !params.machining.enabled}})}
+                    className={`px-2 py-1 rounded-lg text-[9px] font-black border transition-all ${params.machining.enabled ? 'bg-teal-500/20 text-teal-300 border-teal-500/30' : 'bg-slate-800 text-slate-500 border-white/5'}`}
+                  >
+                    {params.machining.enabled ? '开' : '关'}
+                  </button>
+                </div>
+                {params.machining.enabled && (
+                  <>
+                    <select
+                      value={params.machining.profile}
+                      onChange={(e) => setParams({...params, machining: {...params.machining, profile: e.target.value as ToolMarkProfile}})}
+                      className="w-full bg-slate-950/80 border border-white/5 rounded-2xl p-3 text-xs text-slate-300 focus:outline-none focus:ring-1 focus:ring-indigo-500 transition-all cursor-pointer"
+                    >
+                      {TOOL_MARK_PROFILES.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                    </select>
+                    <div className="flex justify-between items-center mt-4 mb-2">
+                      <label className="text-[10px] font-black text-slate-500 uppercase tracking-tighter">进给周期 Λ</label>
+                      <span className="text-xs font-mono text-teal-400">{params.machining.period.toPrecision(3)} µm</span>
+                    </div>
+                    <input
+                      type="range" min={0} max={2.7} step={0.01}
+                      value={Math.log10(params.machining.period)}
+                      onChange={(e) => setParams({...params, machining: {...params.machining, period: Number(Math.pow(10, parseFloat(e.target.value)).toPrecision(3))}})}
+                      className="w-full h-1 bg-slate-800 rounded-full appearance-none cursor-pointer accent-teal-400"
+                    />
+                    <div className="flex justify-between items-center mt-4 mb-2">
+                      <label className="text-[10px] font-black text-slate-500 uppercase tracking-tighter">刀痕深度 (峰谷)</label>
+                      <span className="text-xs font-mono text-teal-400">{(params.machining.depth * 1000).toPrecision(3)} nm</span>
+                    </div>
+                    <input
+                      type="range" min={-3} max={1} step={0.01}
+                      value={Math.log10(params.machining.depth)}
+                      onChange={(e) => setParams({...params, machining: {...params.machining, depth: Number(Math.pow(10, parseFloat(e.target.value)).toPrecision(3))}})}
+                      className="w-full h-1 bg-slate-800 rounded-full appearance-none cursor-pointer accent-teal-400"
+                    />
+                    <div className="flex justify-between items-center mt-4 mb-2">
+                      <label className="text-[10px] font-black text-slate-500 uppercase tracking-tighter">纹理方向 (相对入射面)</label>
+                      <span className="text-xs font-mono text-teal-400">{params.machining.layAngle}°</span>
+                    </div>
+                    <input
+                      type="range" min={0} max={180} step={1}
+                      value={params.machining.layAngle}
+                      onChange={(e) => setParams({...params, machining: {...params.machining, layAngle: parseFloat(e.target.value)}})}
+                      className="w-full h-1 bg-slate-800 rounded-full appearance-none cursor-pointer accent-teal-400"
+                    />
+                    <p className="mt-2 text-[8px] text-slate-600 font-mono">
+                      {diffractionOrders.length} 个传播衍射级 · λ/Λ = {(params.wavelength / params.machining.period).toExponential(2)}
+                    </p>
+                    <div className="mt-2 grid grid-cols-1 gap-1">
+                      {[...diffractionOrders].sort((a, b) => b.efficiency - a.efficiency).slice(0, 5).map(o => (
+                        <div key={o.order} className="flex justify-between bg-slate-950/50 px-3 py-1 rounded-xl border border-white/5 text-[8px] font-mono">
+                          <span className="text-slate-500">m = {o.order > 0 ? '+' : ''}{o.order}</span>
+                          <span className="text-slate-400">θ {(Math.acos(o.direction[2]) * 180 / Math.PI).toFixed(2)}° · φ {(Math.atan2(o.direction[1], o.direction[0]) * 180 / Math.PI).toFixed(1)}°</span>
+                          <span className="text-teal-300">{(o.efficiency * 100).toPrecision(3)}%</span>
+                        </div>
+                      ))}
+                    </div>
+                    <p className="mt-2 text-[8px] text-slate-600 italic">相干反射按光栅方程分配到各衍射级 (标量 Kirchhoff 效率)，随机粗糙度给出漫射背景；0° = 刀痕平行于入射面</p>
+                  </>
+                )}
               </div>
 
               <div>
                 <div className="flex justify-between items-center mb-4">
                   <label className="text-[10px] font-black text-slate-500 uppercase tracking-tighter">波长 λ</label>
-                  <span className="text-xs font-mono text-blue-400">{(params.wavelength * 1000).toFixed(0)} nm</span>
+                  <span className="text-xs font-mono text-blue-400">
+                    {params.wavelength < 2 ? `${(params.wavelength * 1000).toFixed(0)} nm` : `${params.wavelength.toFixed(2)} µm`}
+                  </span>
                 </div>
                 <input 
-                  type="range" min={wlMinUm} max={wlMaxUm} step={0.01}
-                  value={params.wavelength}
-                  onChange={(e) => setParams({...params, wavelength: parseFloat(e.target.value)})}
+                  type="range" min={wlLogMin} max={wlLogMax} step={0.001}
+                  value={Math.log10(params.wavelength)}
+                  onChange={(e) => setParams({...params, wavelength: Number(Math.pow(10, parseFloat(e.target.value)).toFixed(4))})}
                   className="w-full h-1 bg-slate-800 rounded-full appearance-none cursor-pointer accent-blue-400"
                 />
               </div>
 
+              <div>
+                <div className="flex justify-between items-center mb-4">
+                  <label className="text-[10px] font-black text-slate-500 uppercase tracking-tighter">入射角 θi</label>
+                  <span className="text-xs font-mono text-amber-400">{params.incidentAngle.toFixed(1)}°</span>
+                </div>
+                <input
+                  type="range" min={0} max={89} step={0.5}
+                  value={params.incidentAngle}
+                  onChange={(e) => setIncidentAngle(parseFloat(e.target.value))}
+                  className="w-full h-1 bg-slate-800 rounded-full appearance-none cursor-pointer accent-amber-400"
+                />
+              </div>
+
+              <div>
+                <label className="block text-[10px] font-black text-slate-500 mb-4 uppercase tracking-tighter">入射偏振态</label>
+                <select 
+                  value={params.polarization}
+                  onChange={(e) => setParams({...params, polarization: e.target.value as PolarizationState})}
+                  className="w-full bg-slate-950/80 border border-white/5 rounded-2xl p-3 text-xs text-slate-300 focus:outline-none focus:ring-1 focus:ring-indigo-500 transition-all cursor-pointer"
+                >
+                  <option value="unpolarized">非偏振</option>
+                  <option value="s">s 偏振 (TE)</option>
+                  <option value="p">p 偏振 (TM)</option>
+                  <option value="stokes">自定义 Stokes 矢量</option>
+                </select>
+                {params.polarization === 'stokes' && (
+                  <div className="grid grid-cols-4 gap-2 mt-3">
+                    {params.stokes.map((v, i) => (
+                      <input
+                        key={i}
+                        type="number" step={0.1} min={i === 0 ? 0 : -1} max={1}
+                        value={v}
+                        title={`S${i}`}
+                        onChange={(e) => {
+                          const next = [...params.stokes] as StokesVector;
+                          next[i] = parseFloat(e.target.value) || 0;
+                          setParams({...params, stokes: next});
+                        }}
+                        className="w-full bg-slate-950/80 border border-white/5 rounded-xl p-1.5 text-[10px] font-mono text-slate-300"
+                      />
+                    ))}
+                    <p className="col-span-4 text-[8px] text-slate-600 italic">S0 · S1 (s−p) · S2 (±45°) · S3 (圆偏振)，偏振度超过 1 时自动归一</p>
+                  </div>
+                )}
+              </div>
+
+              <div className="pt-6 border-t border-white/5 space-y-4">
+                <h3 className="text-[10px] font-black text-slate-500 uppercase tracking-widest mb-4">实测表面数据</h3>
+                <label className="block w-full text-center px-3 py-2 bg-indigo-500/10 hover:bg-indigo-500/20 text-indigo-400 border border-indigo-500/20 rounded-xl text-[9px] font-black uppercase tracking-widest transition-all cursor-pointer">
+                  导入轮廓 / 形貌文件
+                  <input type="file" accept=".csv,.txt,.asc,.xyz,.sdf" onChange={handleMeasurementImport} className="hidden" />
+                </label>
+                <p className="text-[8px] text-slate-600 italic">支持 CSV x,z 轮廓、ASCII XYZ 网格、ISO 25178 SDF、Zygo XYZ</p>
+                {importError && <p className="text-[9px] text-rose-400">{importError}</p>}
+                {measurement && processed && (
+                  <div className="space-y-3">
+                    <div className="flex justify-between items-center text-[9px] text-slate-400">
+                      <span className="font-mono truncate">{measurement.name}</span>
+                      <button onClick={() => setMeasurement(null)} className="text-rose-400 font-black uppercase">移除</button>
+                    </div>
+                    <label className="flex items-center gap-2 text-[9px] text-slate-500 font-black uppercase">
+                      <input type="checkbox" checked={processing.level} onChange={(e) => setProcessing({ ...processing, level: e.target.checked })} className="accent-indigo-400" />
+                      最小二乘调平
+                    </label>
+                    <div className="flex justify-between items-center gap-2">
+                      <span className="text-[9px] text-slate-500 font-black uppercase">形状去除</span>
+                      <select
+                        value={processing.formOrder}
+                        onChange={(e) => setProcessing({ ...processing, formOrder: parseInt(e.target.value, 10) })}
+                        className="bg-slate-950/80 border border-white/5 rounded-xl p-1.5 text-[10px] text-slate-300"
+                      >
+                        <option value={0}>关闭</option>
+                        <option value={2}>二次多项式</option>
+                        <option value={3}>三次多项式</option>
+                      </select>
+                    </div>
+                    <div className="flex justify-between items-center gap-2">
+                      <span className="text-[9px] text-slate-500 font-black uppercase">高斯滤波 λc (µm)</span>
+                      <input
+                        type="number" min={0} step={10}
+                        value={processing.cutoff}
+                        onChange={(e) => setProcessing({ ...processing, cutoff: Math.max(0, parseFloat(e.target.value) || 0) })}
+                        className="w-20 bg-slate-950/80 border border-white/5 rounded-xl p-1.5 text-[10px] font-mono text-slate-300"
+                      />
+                    </div>
+                    <div className="grid grid-cols-2 gap-2">
+                      {[
+                        ['Ra', processed.profileRoughness.ra], ['Rq', processed.profileRoughness.rq],
+                        ['Rsk', processed.profileRoughness.rsk], ['Rku', processed.profileRoughness.rku],
+                        ['Rz', processed.profileRoughness.rz],
+                        ...(processed.arealRoughness ? [
+                          ['Sa', processed.arealRoughness.sa], ['Sq', processed.arealRoughness.sq],
+                          ['Ssk', processed.arealRoughness.ssk], ['Sku', processed.arealRoughness.sku],
+                          ['Sz', processed.arealRoughness.sz]
+                        ] : [])
+                      ].map(([label, val]) => (
+                        <div key={label as string} className="flex justify-between bg-slate-950/50 px-2 py-1.5 rounded-xl border border-white/5">
+                          <span className="text-[8px] font-black text-slate-600">{label}</span>
+                          <span className="text-[9px] font-mono text-indigo-300">{(val as number).toPrecision(4)}</span>
+                        </div>
+                      ))}
+                    </div>
+                    <p className="text-[8px] text-slate-600 italic">高度参数单位 µm，偏度/峰度无量纲；散射计算使用 {processed.arealRoughness ? 'Sa' : 'Ra'}</p>
+                  </div>
+                )}
+              </div>
+
+              {energyStats && (
               <div className="pt-6 border-t border-white/5 space-y-4">
                 <h3 className="text-[10px] font-black text-slate-500 uppercase tracking-widest mb-4">能量分布统计</h3>
+                <div className="grid grid-cols-2 gap-2">
+                  {[
+                    ['TIS', energyStats.budget.tis],
+                    ['镜面反射率', energyStats.budget.specular],
+                    ['半球反射率', energyStats.budget.hemispherical],
+                    ['Fresnel R', energyStats.budget.fresnel]
+                  ].map(([label, val]) => (
+                    <div key={label as string} className="flex justify-between bg-slate-950/50 px-2 py-1.5 rounded-xl border border-white/5">
+                      <span className="text-[8px] font-black text-slate-600">{label}</span>
+                      <span className="text-[9px] font-mono text-indigo-300">{(val as number).toPrecision(4)}</span>
+                    </div>
+                  ))}
+                </div>
+                {energyStats.budget.clamped && (
+                  <p className="text-[8px] text-amber-400/80 italic">一阶微扰散射超过 Fresnel 反射率，漫反射已按能量守恒截断 (g 过大)</p>
+                )}
+                <p className="text-[8px] text-slate-600 italic">以镜面方向为中心、按立体角加权的能量包围半角</p>
                 <div className="grid grid-cols-1 gap-3">
                   {[
                     { label: '50% 能量', val: energyStats.e50, color: 'text-indigo-400' },
@@ -229,6 +1527,38 @@ const App: React.FC = () => {
                   ))}
                 </div>
               </div>
+              )}
+
+              {appearance && (
+              <div className="pt-6 border-t border-white/5 space-y-4">
+                <h3 className="text-[10px] font-black text-slate-500 uppercase tracking-widest mb-4">外观指标 (光泽 / 雾度 / DOI)</h3>
+                <div className="grid grid-cols-3 gap-2">
+                  {[
+                    ['20° GU', appearance.gloss20],
+                    ['60° GU', appearance.gloss60],
+                    ['85° GU', appearance.gloss85]
+                  ].map(([label, val]) => (
+                    <div key={label as string} className="flex flex-col items-center bg-slate-950/50 px-2 py-2 rounded-xl border border-white/5">
+                      <span className="text-[8px] font-black text-slate-600">{label}</span>
+                      <span className="text-[10px] font-mono font-bold text-emerald-400">{(val as number).toFixed(1)}</span>
+                    </div>
+                  ))}
+                </div>
+                <div className="grid grid-cols-1 gap-2">
+                  {[
+                    ['雾度 ISO 13803 (20°)', appearance.haze, 'HU'],
+                    ['雾度 ASTM E430 (30°)', appearance.hazeE430, 'HU'],
+                    ['DOI ASTM E430', appearance.doi, '']
+                  ].map(([label, val, unit]) => (
+                    <div key={label as string} className="flex justify-between bg-slate-950/50 px-3 py-1.5 rounded-xl border border-white/5">
+                      <span className="text-[8px] font-black text-slate-600">{label}</span>
+                      <span className="text-[9px] font-mono text-indigo-300">{(val as number).toFixed(2)} {unit}</span>
+                    </div>
+                  ))}
+                </div>
+                <p className="text-[8px] text-slate-600 italic">模拟 ISO 2813 / ASTM D523 光泽计几何，相对黑玻璃标准 (n = 1.567)，λ = {(APPEARANCE_WAVELENGTH * 1000).toFixed(0)} nm，非偏振照明</p>
+              </div>
+              )}
             </div>
           </div>
         </aside>
@@ -238,39 +1568,590 @@ const App: React.FC = () => {
             <div className="bg-slate-900/40 p-1 rounded-[3rem] border border-white/5 shadow-2xl relative overflow-hidden h-[450px]">
                <div className="absolute top-6 left-8 z-10 pointer-events-none">
                  <h2 className="text-[10px] font-black uppercase tracking-widest text-slate-400">3D 材质表面可视化</h2>
-                 <p className="text-[8px] text-slate-600 font-bold uppercase tracking-wider">实时渲染交互</p>
+                 <p className="text-[8px] text-slate-600 font-bold uppercase tracking-wider">{activeModel} BRDF 着色 · 拖动光源调整入射角</p>
+                 {renderTableError && <p className="text-[9px] text-rose-400">{renderTableError}</p>}
                </div>
-               <Surface3D heightMap={profile3D} ra={params.ra} reflectivity={params.reflectivity} />
+               <Surface3D
+                 heightMap={displayHeightMap}
+                 extent={surfaceExtent}
+                 brdfTable={renderTable}
+                 incidentAngle={params.incidentAngle}
+                 lobe={scattering}
+                 onIncidentAngleChange={setIncidentAngle}
+                 captureRef={surfaceCapture}
+               />
             </div>
 
             <div className="bg-slate-900/40 p-8 rounded-[3rem] border border-white/5 shadow-2xl relative overflow-hidden h-[450px]">
-               <div className="flex justify-between items-start mb-8">
+               <div className="flex justify-between items-start mb-4">
                  <h2 className="text-[10px] font-black uppercase tracking-widest text-slate-500">
                    BRDF 散射强度分布图
-                   <span className="block text-slate-700 font-mono text-[9px] mt-1">0.001° RES (180,001 POINTS)</span>
+                   <span className="block text-slate-700 font-mono text-[9px] mt-1">
+                     {scatteringQuality === 'preview' ? 'PREVIEW · REFINING…' : `ADAPTIVE ${SIMULATION_STEP}° · ${scattering.length} POINTS`}
+                   </span>
+                   {simulationError && <span className="block text-rose-400 font-mono text-[9px] mt-1 normal-case">{simulationError}</span>}
                  </h2>
+                 <div className="flex items-center gap-2">
+                   <select
+                     value={brdfUnit}
+                     onChange={(e) => setBrdfUnit(e.target.value as 'brdf' | 'cosine' | 'relative')}
+                     className="bg-slate-950/80 border border-white/5 rounded-xl px-2 py-1 text-[10px] text-slate-300 cursor-pointer"
+                   >
+                     <option value="brdf">BRDF (sr⁻¹)</option>
+                     <option value="cosine">BRDF·cosθs (sr⁻¹)</option>
+                     <option value="relative">相对强度</option>
+                   </select>
+                   <label className="flex items-center gap-1.5 text-[9px] font-black text-amber-400 uppercase tracking-widest cursor-pointer">
+                     <input type="checkbox" checked={showKirchhoffOverlay} onChange={(e) => setShowKirchhoffOverlay(e.target.checked)} className="accent-amber-400" />
+                     Kirchhoff
+                   </label>
+                   <input
+                     type="number" min={1} max={32} step={1}
+                     value={kirchhoffRealizations}
+                     title="蒙特卡洛样本数"
+                     onChange={(e) => setKirchhoffRealizations(Math.min(32, Math.max(1, parseInt(e.target.value, 10) || 1)))}
+                     className="w-12 bg-slate-950/80 border border-white/5 rounded-xl p-1 text-[10px] font-mono text-slate-300"
+                   />
                  <button 
                   onClick={exportBRDF}
-                  className="px-3 py-1.5 bg-emerald-500/10 hover:bg-emerald-500/20 text-emerald-400 border border-emerald-500/20 rounded-xl text-[9px] font-black uppercase tracking-widest transition-all flex items-center gap-2"
+                  disabled={exportingBRDF}
+                  title={`均匀 ${SIMULATION_STEP}° 全分辨率网格`}
+                  className="px-3 py-1.5 bg-emerald-500/10 hover:bg-emerald-500/20 text-emerald-400 border border-emerald-500/20 rounded-xl text-[9px] font-black uppercase tracking-widest transition-all flex items-center gap-2 disabled:opacity-40"
                  >
-                   <span>⬇</span> 导出 BRDF 文件
+                   <span>⬇</span> {exportingBRDF ? '生成中…' : '导出 BRDF 文件'}
                  </button>
+                 </div>
+               </div>
+               <div className="h-[330px]">
+                 <BRDFChart
+                   series={brdfSeries}
+                   unitLabel={brdfUnit === 'relative' ? '相对强度' : brdfUnit === 'cosine' ? 'BRDF·cosθs (sr⁻¹)' : 'BRDF (sr⁻¹)'}
+                   relative={brdfUnit === 'relative'}
+                 />
                </div>
-               <div className="h-[310px]">
+            </div>
+          </div>
+
+          <div className="bg-slate-900/40 p-8 rounded-[3rem] border border-white/5 shadow-2xl">
+            <div className="flex justify-between items-start mb-6">
+              <h2 className="text-[10px] font-black uppercase tracking-widest text-slate-500">
+                多场景对比
+                <span className="block text-slate-700 font-mono text-[9px] mt-1">{scenarios.length} PINNED · BASELINE {baselineId === 'current' ? 'CURRENT' : scenarios.find(sc => sc.id === baselineId)?.name ?? '—'}</span>
+              </h2>
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={scenarioName}
+                  placeholder="场景名称 (可选)"
+                  onChange={(e) => setScenarioName(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && pinScenario()}
+                  className="w-40 bg-slate-950/80 border border-white/5 rounded-xl px-2 py-1.5 text-[10px] text-slate-300"
+                />
+                <button
+                  onClick={pinScenario}
+                  className="px-3 py-1.5 bg-indigo-500/10 hover:bg-indigo-500/20 text-indigo-300 border border-indigo-500/20 rounded-xl text-[9px] font-black uppercase tracking-widest transition-all"
+                >
+                  📌 固定当前场景
+                </button>
+                <label className="px-3 py-1.5 bg-emerald-500/10 hover:bg-emerald-500/20 text-emerald-400 border border-emerald-500/20 rounded-xl text-[9px] font-black uppercase tracking-widest transition-all cursor-pointer">
+                  导入
+                  <input type="file" accept=".json" onChange={handleScenarioImport} className="hidden" />
+                </label>
+                <button
+                  onClick={exportScenarioSet}
+                  disabled={scenarios.length === 0}
+                  className="px-3 py-1.5 bg-emerald-500/10 hover:bg-emerald-500/20 text-emerald-400 border border-emerald-500/20 rounded-xl text-[9px] font-black uppercase tracking-widest transition-all disabled:opacity-40"
+                >
+                  ⬇ 导出场景集
+                </button>
+              </div>
+            </div>
+            {scenarioError && <p className="mb-3 text-[9px] text-rose-400">{scenarioError}</p>}
+            <div className="overflow-x-auto">
+              <table className="w-full text-[9px] font-mono">
+                <thead>
+                  <tr className="text-slate-600 text-left">
+                    <th className="py-1 pr-2 font-black">场景</th>
+                    <th className="py-1 pr-2 font-black">基准</th>
+                    <th className="py-1 pr-2 font-black">Ra</th>
+                    <th className="py-1 pr-2 font-black">λ / θi</th>
+                    <th className="py-1 pr-2 font-black">模型</th>
+                    <th className="py-1 pr-2 font-black">g</th>
+                    <th className="py-1 pr-2 font-black">R</th>
+                    <th className="py-1 pr-2 font-black">镜面</th>
+                    <th className="py-1 pr-2 font-black">TIS</th>
+                    <th className="py-1 pr-2 font-black">E50 / E90</th>
+                    <th />
+                  </tr>
+                </thead>
+                <tbody className="text-slate-400">
+                  {[
+                    ...(energyStats ? [{
+                      id: 'current', name: '当前参数', color: '#10b981', visible: true, params: { ...params, ra: effectiveRa },
+                      summary: { activeModel, phaseFactor: gValue, reflectance, energy: energyStats }
+                    } as Scenario] : []),
+                    ...scenarios
+                  ].map(sc => (
+                    <tr key={sc.id} className="border-t border-white/5">
+                      <td className="py-1.5 pr-2">
+                        <span className="flex items-center gap-2">
+                          {sc.id === 'current' ? (
+                            <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: sc.color }} />
+                          ) : (
+                            <input type="checkbox" checked={sc.visible} title="叠加到 BRDF 图" onChange={(e) => updateScenario(sc.id, { visible: e.target.checked })} style={{ accentColor: sc.color }} />
+                          )}
+                          <span className="text-slate-300">{sc.name}</span>
+                        </span>
+                      </td>
+                      <td className="py-1.5 pr-2">
+                        <input type="radio" name="scenario-baseline" checked={baselineId === sc.id} onChange={() => setBaselineId(sc.id)} className="accent-indigo-400" />
+                      </td>
+                      <td className="py-1.5 pr-2">{(sc.params.ra * 1000).toPrecision(3)} nm</td>
+                      <td className="py-1.5 pr-2">{sc.params.wavelength.toFixed(3)} µm / {sc.params.incidentAngle}°</td>
+                      <td className="py-1.5 pr-2">{sc.summary.activeModel}</td>
+                      <td className="py-1.5 pr-2">{sc.summary.phaseFactor.toExponential(2)}</td>
+                      <td className="py-1.5 pr-2">{sc.summary.reflectance.toFixed(4)}</td>
+                      <td className="py-1.5 pr-2">{sc.summary.energy.budget.specular.toExponential(3)}</td>
+                      <td className="py-1.5 pr-2 text-indigo-300">{sc.summary.energy.budget.tis.toExponential(3)}</td>
+                      <td className="py-1.5 pr-2">{sc.summary.energy.e50.toFixed(2)}° / {sc.summary.energy.e90.toFixed(2)}°</td>
+                      <td className="py-1.5 text-right whitespace-nowrap">
+                        {sc.id !== 'current' && (
+                          <>
+                            <button onClick={() => setParams(sc.params)} className="px-2 py-0.5 text-[8px] font-black text-emerald-400 hover:text-emerald-300">载入</button>
+                            <button onClick={() => removeScenario(sc.id)} className="px-2 py-0.5 text-[8px] font-black text-slate-500 hover:text-rose-400">删除</button>
+                          </>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {comparison.series.length > 0 && (
+              <div className="mt-6">
+                <div className="flex justify-between items-center mb-2">
+                  <span className="text-[9px] font-black uppercase tracking-widest text-slate-500">相对基准</span>
+                  <select
+                    value={comparisonMode}
+                    onChange={(e) => setComparisonMode(e.target.value as ScenarioComparisonMode)}
+                    className="bg-slate-950/80 border border-white/5 rounded-xl px-2 py-1 text-[10px] text-slate-300 cursor-pointer"
+                  >
+                    <option value="ratio">比值 BRDF / BRDF₀</option>
+                    <option value="difference">差值 BRDF − BRDF₀ (sr⁻¹)</option>
+                  </select>
+                </div>
+                <div className="h-[240px]">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={comparison.data}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="#ffffff05" vertical={false} />
+                      <XAxis dataKey="angle" type="number" domain={[-90, 90]} ticks={[-90, -60, -30, 0, 30, 60, 90]} tick={{fill: '#475569', fontSize: 10}} stroke="#1e293b" />
+                      <YAxis
+                        scale={comparisonMode === 'ratio' ? 'log' : 'auto'}
+                        domain={['auto', 'auto']}
+                        allowDataOverflow
+                        tick={{fill: '#475569', fontSize: 10}}
+                        stroke="#1e293b"
+                        tickFormatter={(v: number) => v.toPrecision(2)}
+                      />
+                      <Tooltip
+                        contentStyle={{ backgroundColor: '#020617', border: '1px solid #1e293b', borderRadius: '15px', fontSize: '10px', color: '#fff' }}
+                        labelFormatter={(label) => `角度: ${label}°`}
+                        formatter={(v: number) => v.toExponential(3)}
+                      />
+                      {comparison.series.map(series => (
+                        <Line key={series.id} type="linear" dataKey={series.id} name={series.name} stroke={series.color} strokeWidth={1.5} dot={false} isAnimationActive={false} />
+                      ))}
+                      <Legend wrapperStyle={{ fontSize: '10px' }} />
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+              </div>
+            )}
+            <p className="mt-3 text-[8px] text-slate-600 italic">固定的场景保存当时的全部参数 (含实测表面的有效 Ra)；曲线在后台计算，导出文件可重新导入</p>
+          </div>
+
+          <div className="bg-slate-900/40 p-8 rounded-[3rem] border border-white/5 shadow-2xl">
+            <div className="flex justify-between items-start mb-6">
+              <h2 className="text-[10px] font-black uppercase tracking-widest text-slate-500">
+                BRDF 反演拟合
+                <span className="block text-slate-700 font-mono text-[9px] mt-1">
+                  {measuredBRDF ? `${measuredBRDF.name} · ${measuredBRDF.angles.length} POINTS · LOG10 LEAST SQUARES` : 'NO MEASUREMENT'}
+                </span>
+              </h2>
+              <div className="flex gap-2">
+                <label className="px-3 py-1.5 bg-emerald-500/10 hover:bg-emerald-500/20 text-emerald-400 border border-emerald-500/20 rounded-xl text-[9px] font-black uppercase tracking-widest transition-all cursor-pointer">
+                  导入实测 BRDF (CSV)
+                  <input type="file" accept=".csv,.txt" onChange={handleBRDFImport} className="hidden" />
+                </label>
+                {measuredBRDF && (
+                  <button
+                    onClick={() => { setMeasuredBRDF(null); setFitResults([]); }}
+                    className="px-3 py-1.5 text-slate-500 border border-white/5 hover:text-slate-300 rounded-xl text-[9px] font-black uppercase tracking-widest transition-all"
+                  >
+                    清除
+                  </button>
+                )}
+              </div>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              <div className="space-y-3">
+                <select
+                  value={fitModel}
+                  onChange={(e) => {
+                    const model = e.target.value as ModelType;
+                    setFitModel(model);
+                    setFitParameters(FIT_PARAMETERS_BY_MODEL[model]);
+                  }}
+                  className="w-full bg-slate-950/80 border border-white/5 rounded-2xl p-2 text-xs text-slate-300 cursor-pointer"
+                >
+                  {(Object.keys(FIT_PARAMETERS_BY_MODEL) as ModelType[]).map(model => (
+                    <option key={model} value={model}>{model}</option>
+                  ))}
+                </select>
+                <div className="flex flex-wrap gap-2">
+                  {(Object.keys(FIT_PARAMETER_LABELS) as FitParameter[]).map(name => (
+                    <label key={name} className="flex items-center gap-1 text-[9px] text-slate-400 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={fitParameters.includes(name)}
+                        onChange={(e) => setFitParameters(prev => e.target.checked ? [...prev, name] : prev.filter(p => p !== name))}
+                        className="accent-indigo-400"
+                      />
+                      {FIT_PARAMETER_LABELS[name]}
+                    </label>
+                  ))}
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => runBRDFFit(false)}
+                    disabled={!measuredBRDF || fitRunning || fitParameters.length === 0}
+                    className="flex-1 px-3 py-2 bg-indigo-500/10 hover:bg-indigo-500/20 text-indigo-300 border border-indigo-500/20 rounded-xl text-[9px] font-black uppercase tracking-widest transition-all disabled:opacity-40"
+                  >
+                    {fitRunning ? '拟合中…' : '拟合'}
+                  </button>
+                  <button
+                    onClick={() => runBRDFFit(true)}
+                    disabled={!measuredBRDF || fitRunning}
+                    className="flex-1 px-3 py-2 bg-indigo-500/10 hover:bg-indigo-500/20 text-indigo-300 border border-indigo-500/20 rounded-xl text-[9px] font-black uppercase tracking-widest transition-all disabled:opacity-40"
+                  >
+                    比较模型
+                  </button>
+                </div>
+                {brdfImportError && <p className="text-[9px] text-rose-400">{brdfImportError}</p>}
+                <p className="text-[8px] text-slate-600 italic">以当前参数为初值；入射角与波长取自左侧设置，反射率按手动反射率路径拟合</p>
+              </div>
+              <div className="md:col-span-2 space-y-3">
+                {fitResults.map((result, idx) => (
+                  <div key={result.modelType} className={`p-3 rounded-2xl border ${idx === 0 ? 'border-indigo-500/30 bg-indigo-500/5' : 'border-white/5 bg-slate-950/50'}`}>
+                    <div className="flex justify-between items-center mb-2">
+                      <span className="text-[10px] font-black text-slate-300">{result.modelType}{result.converged ? '' : ' (未收敛)'}</span>
+                      <span className="text-[9px] font-mono text-slate-500">
+                        RMS(log) {result.rmsLog.toPrecision(3)} · χ²ᵣ {result.reducedChiSquared.toPrecision(3)} · R² {result.rSquared.toFixed(4)} · {result.iterations} it
+                      </span>
+                      <button
+                        onClick={() => applyFit(result)}
+                        className="px-2 py-1 text-[8px] font-black uppercase text-emerald-400 border border-emerald-500/20 rounded-lg hover:bg-emerald-500/10"
+                      >
+                        应用
+                      </button>
+                    </div>
+                    <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+                      {result.parameters.map(p => (
+                        <div key={p.name} className="flex justify-between bg-slate-950/50 px-2 py-1 rounded-lg border border-white/5">
+                          <span className="text-[8px] font-black text-slate-600">{FIT_PARAMETER_LABELS[p.name]}</span>
+                          <span className="text-[9px] font-mono text-indigo-300">{p.value.toPrecision(4)} ± {p.uncertainty.toPrecision(2)}</span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+                {fitResults.length === 0 && (
+                  <p className="text-[9px] text-slate-600 italic">导入角度,强度 CSV (兼容本应用的 BRDF 导出格式) 后运行拟合</p>
+                )}
+              </div>
+            </div>
+          </div>
+
+          <div className="bg-slate-900/40 p-8 rounded-[3rem] border border-white/5 shadow-2xl">
+            <div className="flex justify-between items-start mb-6">
+              <h2 className="text-[10px] font-black uppercase tracking-widest text-slate-500">
+                BSDF 交换格式
+                <span className="block text-slate-700 font-mono text-[9px] mt-1">ZEMAX / CODE V / LIGHTTOOLS · MERL · JSON</span>
+              </h2>
+              <label className="px-3 py-1.5 bg-emerald-500/10 hover:bg-emerald-500/20 text-emerald-400 border border-emerald-500/20 rounded-xl text-[9px] font-black uppercase tracking-widest transition-all cursor-pointer">
+                导入 BSDF 文件
+                <input type="file" accept=".abg,.dat,.bsdf,.binary,.merl,.json" onChange={handleBSDFImport} className="hidden" />
+              </label>
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              {([
+                ['abg', 'ABg 模型', '当前入射角拟合 A / B / g'],
+                ['tabbsdf', 'TabBSDF', `${TABULATED_INCIDENCE.length} 个入射角 · 1° × 2° 网格`],
+                ['merl', 'MERL 二进制', '各向同性 90 × 90 × 180 · 镜面 ±5° 内为近似'],
+                ['json', 'JSON', '参数 + 面内曲线 + 半球网格']
+              ] as const).map(([format, label, note]) => (
+                <button
+                  key={format}
+                  onClick={() => exportBSDF(format)}
+                  disabled={bsdfExporting !== null}
+                  className="p-3 text-left bg-slate-950/50 hover:bg-indigo-500/10 border border-white/5 hover:border-indigo-500/20 rounded-2xl transition-all disabled:opacity-40"
+                >
+                  <span className="block text-[10px] font-black text-indigo-300">{bsdfExporting === format ? '生成中…' : `⬇ ${label}`}</span>
+                  <span className="block text-[8px] text-slate-600 mt-1">{note}</span>
+                </button>
+              ))}
+            </div>
+            {abgModel && (
+              <div className="mt-4 grid grid-cols-2 md:grid-cols-4 gap-2 text-[9px] font-mono">
+                <div className="bg-slate-950/50 px-2 py-1.5 rounded-xl border border-white/5 text-slate-400">A = {abgModel.A.toExponential(3)}</div>
+                <div className="bg-slate-950/50 px-2 py-1.5 rounded-xl border border-white/5 text-slate-400">B = {abgModel.B.toExponential(3)}</div>
+                <div className="bg-slate-950/50 px-2 py-1.5 rounded-xl border border-white/5 text-slate-400">g = {abgModel.g.toFixed(3)}</div>
+                <div className="bg-slate-950/50 px-2 py-1.5 rounded-xl border border-white/5 text-slate-400">RMS(log) = {abgModel.rmsLog.toPrecision(3)}</div>
+              </div>
+            )}
+            {bsdfError && <p className="mt-3 text-[9px] text-rose-400">{bsdfError}</p>}
+            <p className="mt-3 text-[8px] text-slate-600 italic">导出值为绝对 BRDF (sr⁻¹)；导入的文件按当前入射角取面内切片，作为实测曲线叠加并可用于拟合</p>
+          </div>
+
+          <div className="bg-slate-900/40 p-8 rounded-[3rem] border border-white/5 shadow-2xl">
+            <div className="flex justify-between items-start mb-6">
+              <h2 className="text-[10px] font-black uppercase tracking-widest text-slate-500">
+                偏振分辨 BRDF
+                <span className="block text-slate-700 font-mono text-[9px] mt-1">{POLARIZATION_STEP}° RES · INCIDENT → SCATTERED</span>
+              </h2>
+              <div className="flex gap-2">
+                <select
+                  value={polarView}
+                  onChange={(e) => setPolarView(e.target.value)}
+                  className="bg-slate-950/80 border border-white/5 rounded-xl px-2 py-1.5 text-[10px] text-slate-300 cursor-pointer"
+                >
+                  <option value="channels">ss / sp / ps / pp</option>
+                  {Array.from({ length: 16 }, (_, i) => `m${Math.floor(i / 4)}${i % 4}`).map(key => (
+                    <option key={key} value={key}>Mueller {key.toUpperCase()}</option>
+                  ))}
+                </select>
+                <button 
+                  onClick={exportPolarizedBRDF}
+                  className="px-3 py-1.5 bg-emerald-500/10 hover:bg-emerald-500/20 text-emerald-400 border border-emerald-500/20 rounded-xl text-[9px] font-black uppercase tracking-widest transition-all flex items-center gap-2"
+                >
+                  <span>⬇</span> 导出偏振 / Mueller
+                </button>
+              </div>
+            </div>
+            <div className="h-[260px]">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={polarChartData}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#ffffff05" vertical={false} />
+                  <XAxis dataKey="angle" tick={{fill: '#475569', fontSize: 10}} stroke="#1e293b" />
+                  <YAxis tick={{fill: '#475569', fontSize: 10}} stroke="#1e293b" />
+                  <Tooltip 
+                    contentStyle={{ backgroundColor: '#020617', border: '1px solid #1e293b', borderRadius: '15px', fontSize: '10px', color: '#fff' }}
+                    labelFormatter={(label) => `角度: ${label}°`}
+                  />
+                  <Legend wrapperStyle={{ fontSize: '10px' }} />
+                  {polarView === 'channels' ? (
+                    [['ss', '#10b981'], ['sp', '#f59e0b'], ['ps', '#818cf8'], ['pp', '#f43f5e']].map(([key, color]) => (
+                      <Line key={key} type="monotone" dataKey={key} name={key} stroke={color} strokeWidth={2} dot={false} isAnimationActive={false} />
+                    ))
+                  ) : (
+                    <Line type="monotone" dataKey={polarView} name={polarView.toUpperCase()} stroke="#818cf8" strokeWidth={2} dot={false} isAnimationActive={false} />
+                  )}
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+
+          <div className="bg-slate-900/40 p-8 rounded-[3rem] border border-white/5 shadow-2xl">
+            <div className="flex justify-between items-start mb-6">
+              <h2 className="text-[10px] font-black uppercase tracking-widest text-slate-500">
+                半球 BRDF 分布 (θs, φs)
+                <span className="block text-slate-700 font-mono text-[9px] mt-1">
+                  {activeModel}{hemisphere && ` · ${hemisphere.nTheta}×${hemisphere.nPhi} GRID`} · LOG SCALE
+                </span>
+              </h2>
+              <div className="flex gap-2">
+                {([['polar', '极坐标'], ['hemisphere', '半球投影']] as [HemisphereProjection, string][]).map(([mode, label]) => (
+                  <button
+                    key={mode}
+                    onClick={() => setHemiProjection(mode)}
+                    className={`px-3 py-1.5 rounded-xl text-[9px] font-black uppercase tracking-widest border transition-all ${hemiProjection === mode ? 'bg-indigo-500/20 text-indigo-300 border-indigo-500/30' : 'text-slate-500 border-white/5 hover:text-slate-300'}`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-8 items-center">
+              {hemisphere ? <HemispherePlot grid={hemisphere} projection={hemiProjection} /> : <div />}
+              <div className="lg:col-span-2 h-[260px]">
                 <ResponsiveContainer width="100%" height="100%">
-                  <LineChart data={chartData}>
+                  <LineChart data={hemisphereSlices}>
                     <CartesianGrid strokeDasharray="3 3" stroke="#ffffff05" vertical={false} />
                     <XAxis dataKey="angle" tick={{fill: '#475569', fontSize: 10}} stroke="#1e293b" />
-                    <YAxis tick={{fill: '#475569', fontSize: 10}} stroke="#1e293b" domain={[0, 1]} />
+                    <YAxis tick={{fill: '#475569', fontSize: 10}} stroke="#1e293b" tickFormatter={(v: number) => v.toPrecision(2)} />
                     <Tooltip 
                       contentStyle={{ backgroundColor: '#020617', border: '1px solid #1e293b', borderRadius: '15px', fontSize: '10px', color: '#fff' }}
-                      itemStyle={{ color: '#10b981', fontWeight: 'bold' }}
                       labelFormatter={(label) => `角度: ${label}°`}
                     />
-                    <Line type="monotone" dataKey="intensity" stroke="#10b981" strokeWidth={3} dot={false} animationDuration={400} />
+                    <Legend wrapperStyle={{ fontSize: '10px' }} />
+                    <Line type="monotone" dataKey="inPlane" name="入射面 (φs=0°)" stroke="#10b981" strokeWidth={2} dot={false} isAnimationActive={false} />
+                    <Line type="monotone" dataKey="crossPlane" name="交叉面 (过镜面方向)" stroke="#818cf8" strokeWidth={2} dot={false} isAnimationActive={false} />
                   </LineChart>
                 </ResponsiveContainer>
-               </div>
+              </div>
+            </div>
+          </div>
+
+          {coatingCurves && (
+            <div className="bg-slate-900/40 p-8 rounded-[3rem] border border-white/5 shadow-2xl">
+              <h2 className="text-[10px] font-black uppercase tracking-widest text-slate-500 mb-6">
+                膜系反射率 (传输矩阵)
+                <span className="block text-slate-700 font-mono text-[9px] mt-1">
+                  {params.coating.layers.length} LAYERS · θi = {params.incidentAngle}° / λ = {(params.wavelength * 1000).toFixed(0)} nm · 虚线为裸基底
+                </span>
+              </h2>
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+                {([
+                  ['spectral', 'wavelength', 'λ (nm)', 'nm'],
+                  ['angular', 'angle', 'θi (°)', '°'],
+                ] as const).map(([key, x, label, unit]) => (
+                  <div key={key} className="h-[220px]">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <LineChart data={coatingCurves[key]}>
+                        <CartesianGrid strokeDasharray="3 3" stroke="#ffffff05" vertical={false} />
+                        <XAxis
+                          dataKey={x} type="number" scale={key === 'spectral' ? 'log' : 'linear'} domain={['dataMin', 'dataMax']}
+                          tick={{fill: '#475569', fontSize: 10}} stroke="#1e293b"
+                          label={{ value: label, position: 'insideBottomRight', offset: -2, fill: '#475569', fontSize: 9 }}
+                        />
+                        <YAxis tick={{fill: '#475569', fontSize: 10}} stroke="#1e293b" domain={[0, 1]} />
+                        <Tooltip
+                          contentStyle={{ backgroundColor: '#020617', border: '1px solid #1e293b', borderRadius: '15px', fontSize: '10px', color: '#fff' }}
+                          labelFormatter={(v) => `${v} ${unit}`}
+                          formatter={(v: number) => `${(v * 100).toFixed(2)}%`}
+                        />
+                        <Legend wrapperStyle={{ fontSize: '10px' }} />
+                        <Line type="monotone" dataKey="Rs" name="Rs" stroke="#38bdf8" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+                        <Line type="monotone" dataKey="Rp" name="Rp" stroke="#f472b6" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+                        <Line type="monotone" dataKey="R" name="R (非偏振)" stroke="#10b981" strokeWidth={2} dot={false} isAnimationActive={false} />
+                        <Line type="monotone" dataKey="bare" name="裸基底 R" stroke="#64748b" strokeWidth={1.5} strokeDasharray="5 3" dot={false} isAnimationActive={false} />
+                      </LineChart>
+                    </ResponsiveContainer>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="bg-slate-900/40 p-8 rounded-[3rem] border border-white/5 shadow-2xl">
+            <div className="flex justify-between items-start mb-6">
+              <h2 className="text-[10px] font-black uppercase tracking-widest text-slate-500">
+                光谱扫描 (角度 × 波长)
+                <span className="block text-slate-700 font-mono text-[9px] mt-1">
+                  {sweep ? `${sweep.wavelengths.length} λ × ${sweep.angles.length} ANGLES · LOG SCALE` : 'NOT RUN'}
+                </span>
+              </h2>
+              <div className="flex gap-2">
+                <button
+                  onClick={runSpectralSweep}
+                  disabled={sweepRunning}
+                  className="px-3 py-1.5 bg-indigo-500/10 hover:bg-indigo-500/20 text-indigo-300 border border-indigo-500/20 rounded-xl text-[9px] font-black uppercase tracking-widest transition-all disabled:opacity-40"
+                >
+                  {sweepRunning ? '计算中…' : '运行扫描'}
+                </button>
+                <button
+                  onClick={exportSpectralSweep}
+                  disabled={!sweep}
+                  className="px-3 py-1.5 bg-emerald-500/10 hover:bg-emerald-500/20 text-emerald-400 border border-emerald-500/20 rounded-xl text-[9px] font-black uppercase tracking-widest transition-all flex items-center gap-2 disabled:opacity-40"
+                >
+                  <span>⬇</span> 导出光谱数据
+                </button>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-6">
+              {([
+                ['λ min (µm)', 'minWavelength', 0.01],
+                ['λ max (µm)', 'maxWavelength', 0.01],
+                ['波长采样数', 'samples', 1],
+                ['角度步长 (°)', 'angleStep', 0.1]
+              ] as [string, keyof SpectralSweepSettings, number][]).map(([label, key, step]) => (
+                <label key={key} className="text-[8px] font-black text-slate-600 uppercase">
+                  {label}
+                  <input
+                    type="number" step={step} min={step}
+                    value={sweepSettings[key]}
+                    onChange={(e) => {
+                      const v = parseFloat(e.target.value);
+                      if (Number.isFinite(v) && v > 0) setSweepSettings(prev => ({ ...prev, [key]: key === 'samples' ? Math.min(200, Math.round(v)) : v }));
+                    }}
+                    className="mt-1 w-full bg-slate-950/80 border border-white/5 rounded-xl p-2 text-[10px] font-mono text-slate-300"
+                  />
+                </label>
+              ))}
+            </div>
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 items-center">
+              <SpectralHeatmap sweep={sweep} />
+              <div className="h-[260px]">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={spectralChartData}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#ffffff05" vertical={false} />
+                    <XAxis dataKey="wavelength" type="number" scale="log" domain={['dataMin', 'dataMax']} tick={{fill: '#475569', fontSize: 10}} stroke="#1e293b" />
+                    <YAxis tick={{fill: '#475569', fontSize: 10}} stroke="#1e293b" domain={[0, 1]} />
+                    <Tooltip 
+                      contentStyle={{ backgroundColor: '#020617', border: '1px solid #1e293b', borderRadius: '15px', fontSize: '10px', color: '#fff' }}
+                      labelFormatter={(label) => `λ: ${label} µm`}
+                    />
+                    <Legend wrapperStyle={{ fontSize: '10px' }} />
+                    <Line type="monotone" dataKey="tis" name="TIS" stroke="#f59e0b" strokeWidth={2} dot={false} isAnimationActive={false} />
+                    <Line type="monotone" dataKey="specularFraction" name="镜面分数" stroke="#10b981" strokeWidth={2} dot={false} isAnimationActive={false} />
+                    <Line type="monotone" dataKey="hemispherical" name="半球反射率" stroke="#818cf8" strokeWidth={2} dot={false} isAnimationActive={false} />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+            <div className="mt-6 pt-6 border-t border-white/5 grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div className="space-y-3">
+                <label className="block text-[10px] font-black text-slate-500 uppercase tracking-tighter">光源光谱加权</label>
+                <div className="flex gap-2">
+                  <select
+                    value={sourceSpectrum.type}
+                    onChange={(e) => setSourceSpectrum(prev => ({ ...prev, type: e.target.value as SourceSpectrumType }))}
+                    className="flex-1 bg-slate-950/80 border border-white/5 rounded-2xl p-2 text-xs text-slate-300 cursor-pointer"
+                  >
+                    <option value="blackbody">黑体辐射</option>
+                    <option value="D65">CIE D65</option>
+                    <option value="flat">平坦光谱</option>
+                    <option value="custom" disabled={!sourceSpectrum.custom}>导入: {sourceSpectrum.custom?.name ?? '—'}</option>
+                  </select>
+                  {sourceSpectrum.type === 'blackbody' && (
+                    <input
+                      type="number" min={100} step={100}
+                      value={sourceSpectrum.temperature}
+                      title="黑体温度 (K)"
+                      onChange={(e) => setSourceSpectrum(prev => ({ ...prev, temperature: Math.max(100, parseFloat(e.target.value) || 100) }))}
+                      className="w-20 bg-slate-950/80 border border-white/5 rounded-2xl p-2 text-[10px] font-mono text-slate-300"
+                    />
+                  )}
+                </div>
+                <label className="block w-full text-center px-3 py-2 bg-emerald-500/10 hover:bg-emerald-500/20 text-emerald-400 border border-emerald-500/20 rounded-xl text-[9px] font-black uppercase tracking-widest transition-all cursor-pointer">
+                  导入光源光谱 (CSV)
+                  <input type="file" accept=".csv,.txt" onChange={handleSpectrumImport} className="hidden" />
+                </label>
+                {spectrumError && <p className="text-[9px] text-rose-400">{spectrumError}</p>}
+              </div>
+              <div className="grid grid-cols-2 gap-2 content-start">
+                {[
+                  ['波段半球反射率', bandAverage?.hemispherical],
+                  ['波段镜面反射率', bandAverage?.specular],
+                  ['波段 TIS', bandAverage?.tis],
+                  ['波段镜面分数', bandAverage?.specularFraction]
+                ].map(([label, val]) => (
+                  <div key={label as string} className="flex justify-between bg-slate-950/50 px-2 py-1.5 rounded-xl border border-white/5">
+                    <span className="text-[8px] font-black text-slate-600">{label}</span>
+                    <span className="text-[9px] font-mono text-indigo-300">{val === undefined ? '—' : (val as number).toPrecision(4)}</span>
+                  </div>
+                ))}
+              </div>
             </div>
           </div>
 
@@ -279,7 +2160,7 @@ const App: React.FC = () => {
                <h2 className="text-[10px] font-black uppercase tracking-widest text-slate-500 mb-6">轮廓截面动态反馈</h2>
                <div className="h-[180px]">
                 <ResponsiveContainer width="100%" height="100%">
-                  <AreaChart data={profile}>
+                  <AreaChart data={displayProfile}>
                     <defs>
                       <linearGradient id="surfGrad" x1="0" y1="0" x2="0" y2="1">
                         <stop offset="0%" stopColor="#818cf8" stopOpacity={0.4}/>
@@ -290,7 +2171,9 @@ const App: React.FC = () => {
                   </AreaChart>
                 </ResponsiveContainer>
                </div>
-               <p className="mt-4 text-[8px] text-slate-600 font-bold uppercase tracking-widest text-center">横截面随机过程仿真</p>
+               <p className="mt-4 text-[8px] text-slate-600 font-bold uppercase tracking-widest text-center">
+                 {measurement ? `实测轮廓: ${measurement.name}` : `三维表面中心截面 · SEED ${params.seed}`}
+               </p>
             </div>
 
             <div className="lg:col-span-2 bg-slate-900/40 p-10 rounded-[3rem] border border-white/5 shadow-2xl h-[300px] overflow-y-auto custom-scrollbar">
@@ -298,6 +2181,46 @@ const App: React.FC = () => {
                  <span className="p-2 bg-indigo-500/10 rounded-lg text-indigo-400 text-sm">⚛</span> 
                  AI 物理模型与材质分析
                </h2>
+               <div className="flex flex-wrap items-center gap-2 mb-4">
+                 <select
+                   value={analysisSettings.provider}
+                   onChange={(e) => selectAnalysisProvider(e.target.value as AnalysisProviderId)}
+                   className="bg-slate-950/80 border border-white/5 rounded-xl px-2 py-1 text-[10px] text-slate-300 cursor-pointer"
+                 >
+                   {ANALYSIS_PROVIDERS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+                 </select>
+                 {analysisSettings.provider === 'openai-compatible' && (
+                   <>
+                     <input
+                       value={analysisSettings.endpoint}
+                       onChange={(e) => setAnalysisSettings(prev => ({ ...prev, endpoint: e.target.value }))}
+                       placeholder="http://localhost:11434/v1"
+                       className="flex-1 min-w-[160px] bg-slate-950/80 border border-white/5 rounded-xl px-2 py-1 text-[10px] font-mono text-slate-300"
+                     />
+                     <input
+                       type="password"
+                       value={analysisSettings.apiKey}
+                       onChange={(e) => setAnalysisSettings(prev => ({ ...prev, apiKey: e.target.value }))}
+                       placeholder="API Key (可选)"
+                       className="w-28 bg-slate-950/80 border border-white/5 rounded-xl px-2 py-1 text-[10px] font-mono text-slate-300"
+                     />
+                   </>
+                 )}
+                 {analysisSettings.provider !== 'rules' && (
+                   <input
+                     value={analysisSettings.model}
+                     onChange={(e) => setAnalysisSettings(prev => ({ ...prev, model: e.target.value }))}
+                     placeholder="模型"
+                     className="w-36 bg-slate-950/80 border border-white/5 rounded-xl px-2 py-1 text-[10px] font-mono text-slate-300"
+                   />
+                 )}
+               </div>
+               {analysisError && (
+                 <div className="mb-4 px-3 py-2 bg-rose-500/10 border border-rose-500/20 rounded-xl">
+                   <p className="text-[9px] font-black text-rose-400 uppercase tracking-widest mb-1">分析失败</p>
+                   <p className="text-[9px] text-rose-400 break-words">{analysisError}</p>
+                 </div>
+               )}
                {analysis ? (
                  <div className="space-y-6 animate-in fade-in slide-in-from-bottom-2 duration-500">
                    <div>
@@ -310,12 +2233,20 @@ const App: React.FC = () => {
                      <div className="px-3 py-1.5 bg-slate-950/50 border border-indigo-500/20 rounded-xl text-[9px] font-black text-indigo-400 uppercase tracking-tighter shadow-sm">
                        g-parameter: {gValue.toExponential(3)}
                      </div>
-                     <div className="px-3 py-1.5 bg-slate-950/50 border border-emerald-500/20 rounded-xl text-[9px] font-black text-emerald-400 uppercase tracking-tighter shadow-sm">
-                       Regime: {analysis.physicalRegime}
+                     <div
+                       title={`由 g 计算的区间: ${computedRegime}`}
+                       className={`px-3 py-1.5 bg-slate-950/50 border rounded-xl text-[9px] font-black uppercase tracking-tighter shadow-sm ${analysis.physicalRegime === computedRegime ? 'border-emerald-500/20 text-emerald-400' : 'border-rose-500/30 text-rose-400'}`}
+                     >
+                       Regime: {analysis.physicalRegime}{analysis.physicalRegime === computedRegime ? ' ✓' : ` ≠ 计算值 ${computedRegime}`}
                      </div>
                      <div className="px-3 py-1.5 bg-slate-950/50 border border-orange-500/20 rounded-xl text-[9px] font-black text-orange-400 uppercase tracking-tighter shadow-sm">
-                       Refl: {(params.reflectivity*100).toFixed(0)}%
+                       Refl: {(reflectance*100).toFixed(1)}%
                      </div>
+                     {analysisCached && (
+                       <div className="px-3 py-1.5 bg-slate-950/50 border border-slate-500/20 rounded-xl text-[9px] font-black text-slate-400 uppercase tracking-tighter shadow-sm">
+                         Cached
+                       </div>
+                     )}
                    </div>
                  </div>
                ) : (
@@ -334,7 +2265,7 @@ const App: React.FC = () => {
       <footer className="p-8 text-center border-t border-white/5 mt-12 bg-slate-900/20 backdrop-blur-xl">
         <div className="flex flex-wrap justify-center gap-x-12 gap-y-4 text-[9px] font-black text-slate-700 uppercase tracking-widest opacity-60">
           <span>Simulation Precision: 0.001° Arc-Step</span>
-          <span>Mesh Density: 2,500 vertices</span>
+          <span>Mesh Density: 16,384 vertices</span>
           <span>Material: Aluminum Matrix Calibration</span>
         </div>
       </footer>
@@ -0,0 +1,252 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { CartesianGrid, Legend, Line, LineChart, ReferenceArea, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { ScatteringData } from '../types';
+import { AxisPoint, BRDFAxisMode, HARVEY_MIN, panDomain, toAxisPoints, valueAt, zoomDomain } from '../utils/chartAxes';
+
+export interface BRDFChartSeries {
+  key: string;
+  name: string;
+  color: string;
+  curve: ScatteringData[]; // In display units, angles in degrees
+  thetaInc: number; // Incidence of this curve, for the specular-relative axes
+  strokeWidth?: number;
+  dash?: string;
+  dots?: boolean; // Measured points: markers only
+}
+
+interface BRDFChartProps {
+  series: BRDFChartSeries[];
+  unitLabel: string;
+  relative: boolean; // Values normalised to 1
+}
+
+const AXIS_LABELS: Record<BRDFAxisMode, string> = {
+  angle: 'θs (°)',
+  specular: 'θs − θi (°)',
+  harvey: '|β − β₀|',
+};
+
+const BACKWARD_SUFFIX = '__backward';
+
+const powersOfTen = (min: number, max: number) => {
+  const ticks: number[] = [];
+  for (let e = Math.ceil(Math.log10(min)); e <= Math.floor(Math.log10(max)); e++) ticks.push(Math.pow(10, e));
+  return ticks;
+};
+
+const formatValue = (v: number) => (v !== 0 && (Math.abs(v) < 1e-2 || Math.abs(v) >= 1e4) ? v.toExponential(1) : Number(v.toPrecision(2)).toString());
+
+/**
+ * In-plane BRDF chart with linear or logarithmic values against θs, the angle from specular,
+ * or |β − β₀| in Harvey (direction-cosine) space on a log axis, where the two sides of the
+ * specular direction are drawn as separate branches so shift invariance can be checked
+ * directly. Drag to zoom, scroll to zoom about the cursor, arrows to pan; the readout
+ * interpolates every curve at the cursor.
+ */
+const BRDFChart: React.FC<BRDFChartProps> = ({ series, unitLabel, relative }) => {
+  const [axisMode, setAxisMode] = useState<BRDFAxisMode>('angle');
+  const [logY, setLogY] = useState(true);
+  const [decades, setDecades] = useState(8);
+  const [xDomain, setXDomain] = useState<[number, number] | null>(null);
+  const [selection, setSelection] = useState<{ start: number; end: number } | null>(null);
+  const [cursor, setCursor] = useState<number | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const logX = axisMode === 'harvey';
+
+  const branches = useMemo(() => series.flatMap(s => {
+    const { forward, backward } = toAxisPoints(s.curve, s.thetaInc, axisMode);
+    const result: { key: string; name: string; source: BRDFChartSeries; points: AxisPoint[]; dash?: string }[] = [
+      { key: s.key, name: axisMode === 'harvey' ? `${s.name} (β > β₀)` : s.name, source: s, points: forward, dash: s.dash },
+    ];
+    if (backward.length) {
+      result.push({ key: `${s.key}${BACKWARD_SUFFIX}`, name: `${s.name} (β < β₀)`, source: s, points: backward, dash: s.dash ?? '5 3' });
+    }
+    return result;
+  }), [series, axisMode]);
+
+  const fullDomain = useMemo<[number, number]>(() => {
+    if (axisMode === 'angle') return [-90, 90];
+    if (axisMode === 'harvey') return [HARVEY_MIN, 2];
+    const xs = branches.flatMap(b => b.points.map(p => p.x));
+    return xs.length ? [Math.floor(Math.min(...xs) / 10) * 10, Math.ceil(Math.max(...xs) / 10) * 10] : [-90, 90];
+  }, [axisMode, branches]);
+  const domain = xDomain ?? fullDomain;
+
+  const data = useMemo(() => {
+    const rows = new Map<number, Record<string, number>>();
+    for (const branch of branches) {
+      for (const p of branch.points) {
+        if (logY && !(p.y > 0)) continue;
+        const row = rows.get(p.x) ?? { x: p.x };
+        row[branch.key] = p.y;
+        rows.set(p.x, row);
+      }
+    }
+    return [...rows.values()].sort((a, b) => a.x - b.x);
+  }, [branches, logY]);
+
+  const yDomain = useMemo<[number, number] | ['auto', 'auto']>(() => {
+    let max = 0;
+    for (const branch of branches) {
+      for (const p of branch.points) if (p.x >= domain[0] && p.x <= domain[1]) max = Math.max(max, p.y);
+    }
+    if (logY) return max > 0 ? [max * Math.pow(10, -decades), max * 2] : [1e-12, 1];
+    return relative ? [0, 1] : ['auto', 'auto'];
+  }, [branches, domain, logY, decades, relative]);
+
+  useEffect(() => {
+    setXDomain(null);
+    setSelection(null);
+  }, [axisMode]);
+
+  // Wheel zoom needs a non-passive listener to keep the page from scrolling.
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const onWheel = (e: WheelEvent) => {
+      if (cursor === null) return;
+      e.preventDefault();
+      setXDomain(prev => zoomDomain(prev ?? fullDomain, cursor, e.deltaY > 0 ? 1.25 : 0.8, logX));
+    };
+    el.addEventListener('wheel', onWheel, { passive: false });
+    return () => el.removeEventListener('wheel', onWheel);
+  }, [cursor, fullDomain, logX]);
+
+  const readout = cursor === null ? [] : branches
+    .map(b => ({ name: b.name, color: b.source.color, value: valueAt(b.points, cursor) }))
+    .filter(r => r.value !== undefined);
+
+  const cursorAngles = () => {
+    if (cursor === null) return '';
+    if (axisMode === 'harvey') return `|β − β₀| = ${cursor.toExponential(3)}`;
+    return axisMode === 'angle' ? `θs = ${cursor.toFixed(3)}°` : `θs − θi = ${cursor.toFixed(3)}°`;
+  };
+
+  const button = 'px-2 py-0.5 bg-slate-950/80 border border-white/5 rounded-lg text-[9px] font-mono text-slate-400 hover:text-slate-200';
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="flex flex-wrap items-center gap-2 mb-2">
+        <select
+          value={axisMode}
+          onChange={(e) => setAxisMode(e.target.value as BRDFAxisMode)}
+          className="bg-slate-950/80 border border-white/5 rounded-xl px-2 py-1 text-[10px] text-slate-300 cursor-pointer"
+        >
+          <option value="angle">θs</option>
+          <option value="specular">θs − θi</option>
+          <option value="harvey">log |β − β₀| (Harvey)</option>
+        </select>
+        <label className="flex items-center gap-1 text-[9px] font-black text-slate-400 cursor-pointer">
+          <input type="checkbox" checked={logY} onChange={(e) => setLogY(e.target.checked)} className="accent-emerald-400" />
+          LOG Y
+        </label>
+        {logY && (
+          <select
+            value={decades}
+            onChange={(e) => setDecades(Number(e.target.value))}
+            className="bg-slate-950/80 border border-white/5 rounded-xl px-2 py-1 text-[10px] text-slate-300 cursor-pointer"
+          >
+            {[3, 4, 6, 8, 10, 12].map(d => <option key={d} value={d}>{d} 个数量级</option>)}
+          </select>
+        )}
+        <div className="flex items-center gap-1 ml-auto">
+          <button className={button} onClick={() => setXDomain(panDomain(domain, -0.25, logX))}>◀</button>
+          <button className={button} onClick={() => setXDomain(zoomDomain(domain, logX ? Math.sqrt(domain[0] * domain[1]) : (domain[0] + domain[1]) / 2, 0.5, logX))}>＋</button>
+          <button className={button} onClick={() => setXDomain(zoomDomain(domain, logX ? Math.sqrt(domain[0] * domain[1]) : (domain[0] + domain[1]) / 2, 2, logX))}>－</button>
+          <button className={button} onClick={() => setXDomain(panDomain(domain, 0.25, logX))}>▶</button>
+          <button className={button} onClick={() => setXDomain(null)} disabled={!xDomain}>复位</button>
+        </div>
+      </div>
+      <div ref={containerRef} className="flex-1 min-h-0 select-none" onDoubleClick={() => setXDomain(null)}>
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart
+            data={data}
+            onMouseDown={(state) => state.activeLabel !== undefined && setSelection({ start: Number(state.activeLabel), end: Number(state.activeLabel) })}
+            onMouseMove={(state) => {
+              if (state.activeLabel === undefined) return;
+              const x = Number(state.activeLabel);
+              setCursor(x);
+              if (selection) setSelection({ ...selection, end: x });
+            }}
+            onMouseUp={() => {
+              if (selection && selection.start !== selection.end) {
+                setXDomain([Math.min(selection.start, selection.end), Math.max(selection.start, selection.end)]);
+              }
+              setSelection(null);
+            }}
+            onMouseLeave={() => {
+              setCursor(null);
+              setSelection(null);
+            }}
+          >
+            <CartesianGrid strokeDasharray="3 3" stroke="#ffffff05" vertical={false} />
+            <XAxis
+              dataKey="x"
+              type="number"
+              scale={logX ? 'log' : 'linear'}
+              domain={domain}
+              allowDataOverflow
+              ticks={logX ? powersOfTen(domain[0], domain[1]) : undefined}
+              tickFormatter={(v: number) => (logX ? v.toExponential(0) : String(Number(v.toFixed(3))))}
+              tick={{fill: '#475569', fontSize: 10}}
+              stroke="#1e293b"
+            />
+            <YAxis
+              scale={logY ? 'log' : 'linear'}
+              domain={yDomain}
+              allowDataOverflow
+              ticks={logY && typeof yDomain[0] === 'number' ? powersOfTen(yDomain[0], yDomain[1] as number) : undefined}
+              tickFormatter={formatValue}
+              tick={{fill: '#475569', fontSize: 10}}
+              stroke="#1e293b"
+              width={52}
+            />
+            <Tooltip
+              contentStyle={{ backgroundColor: '#020617', border: '1px solid #1e293b', borderRadius: '15px', fontSize: '10px', color: '#fff' }}
+              labelFormatter={(label) => `${AXIS_LABELS[axisMode]}: ${label}`}
+              formatter={(v: number) => v.toExponential(4)}
+            />
+            {branches.map(b => (
+              <Line
+                key={b.key}
+                type="linear"
+                dataKey={b.key}
+                name={b.name}
+                stroke={b.source.color}
+                strokeWidth={b.source.dots ? 0 : b.source.strokeWidth ?? 1.5}
+                strokeDasharray={b.dash}
+                dot={b.source.dots ? { r: 1.5, fill: b.source.color } : false}
+                connectNulls={!b.source.dots}
+                isAnimationActive={false}
+              />
+            ))}
+            {(branches.length > 1) && <Legend wrapperStyle={{ fontSize: '9px' }} />}
+            {selection && (
+              <ReferenceArea
+                x1={selection.start}
+                x2={selection.end}
+                shape={(props: { x: number; y: number; width: number; height: number }) => (
+                  <rect x={props.x} y={props.y} width={props.width} height={props.height} fill="#6366f1" fillOpacity={0.15} />
+                )}
+              />
+            )}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+      <div className="mt-1 min-h-[14px] flex flex-wrap gap-x-3 text-[9px] font-mono text-slate-500">
+        {cursor === null ? (
+          <span>{AXIS_LABELS[axisMode]} · {unitLabel} · 拖动缩放，滚轮缩放，双击复位</span>
+        ) : (
+          <>
+            <span className="text-slate-400">{cursorAngles()}</span>
+            {readout.map(r => (
+              <span key={r.name} style={{ color: r.color }}>{r.name}: {r.value!.toExponential(4)}</span>
+            ))}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BRDFChart;
@@ -0,0 +1,91 @@
+import React, { useEffect, useRef } from 'react';
+import { HemisphericalBRDF } from '../types';
+import { falseColor, sampleHemisphere } from '../utils/hemisphere';
+
+export type HemisphereProjection = 'polar' | 'hemisphere';
+
+interface HemispherePlotProps {
+  grid: HemisphericalBRDF | null;
+  projection: HemisphereProjection;
+  decades?: number;
+}
+
+/**
+ * False-colour plot of a hemispherical BRDF on a log scale.
+ * 'polar' maps radius linearly to θs; 'hemisphere' is the orthographic
+ * projection of the hemisphere onto the sample plane (radius = sin θs).
+ */
+const HemispherePlot: React.FC<HemispherePlotProps> = ({ grid, projection, decades = 6 }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !grid) return;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const size = canvas.width;
+    const radius = size / 2 - 14;
+    const cx = size / 2;
+    const cy = size / 2;
+
+    let max = 0;
+    for (let k = 0; k < grid.values.length; k++) max = Math.max(max, grid.values[k]);
+    const logMax = Math.log10(max || 1);
+
+    const image = ctx.createImageData(size, size);
+    for (let py = 0; py < size; py++) {
+      for (let px = 0; px < size; px++) {
+        const x = (px - cx) / radius;
+        const y = (cy - py) / radius;
+        const r = Math.hypot(x, y);
+        if (r > 1) continue;
+        const thetaDeg = projection === 'polar' ? r * 90 : (Math.asin(r) * 180) / Math.PI;
+        const phiDeg = (Math.atan2(y, x) * 180) / Math.PI;
+        const v = sampleHemisphere(grid, thetaDeg, phiDeg);
+        const t = v > 0 ? 1 + (Math.log10(v) - logMax) / decades : 0;
+        const [red, green, blue] = falseColor(t);
+        const idx = (py * size + px) * 4;
+        image.data[idx] = red;
+        image.data[idx + 1] = green;
+        image.data[idx + 2] = blue;
+        image.data[idx + 3] = 255;
+      }
+    }
+    ctx.clearRect(0, 0, size, size);
+    ctx.putImageData(image, 0, 0);
+
+    ctx.strokeStyle = 'rgba(255,255,255,0.25)';
+    ctx.fillStyle = 'rgba(255,255,255,0.5)';
+    ctx.font = '9px monospace';
+    ctx.lineWidth = 1;
+    for (const ring of [30, 60, 90]) {
+      const rr = projection === 'polar' ? ring / 90 : Math.sin((ring * Math.PI) / 180);
+      ctx.beginPath();
+      ctx.arc(cx, cy, rr * radius, 0, 2 * Math.PI);
+      ctx.stroke();
+      ctx.fillText(`${ring}°`, cx + rr * radius * 0.71 + 2, cy - rr * radius * 0.71 - 2);
+    }
+    ctx.beginPath();
+    ctx.moveTo(cx - radius, cy);
+    ctx.lineTo(cx + radius, cy);
+    ctx.moveTo(cx, cy - radius);
+    ctx.lineTo(cx, cy + radius);
+    ctx.stroke();
+    ctx.fillText('φ=0°', cx + radius - 24, cy - 4);
+    ctx.fillText('90°', cx + 3, cy - radius + 10);
+  }, [grid, projection, decades]);
+
+  return (
+    <div className="flex flex-col items-center gap-2">
+      <canvas ref={canvasRef} width={260} height={260} className="max-w-full" />
+      <div className="flex items-center gap-2 text-[8px] font-mono text-slate-500">
+        <span>-{decades} dec</span>
+        <div className="w-32 h-1.5 rounded-full bg-gradient-to-r from-[#440154] via-[#21918c] to-[#fde725]" />
+        <span>max</span>
+      </div>
+    </div>
+  );
+};
+
+export default HemispherePlot;
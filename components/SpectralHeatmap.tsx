@@ -0,0 +1,85 @@
+import React, { useEffect, useRef } from 'react';
+import { SpectralSweepResult } from '../types';
+import { falseColor } from '../utils/hemisphere';
+
+interface SpectralHeatmapProps {
+  sweep: SpectralSweepResult | null;
+  decades?: number;
+}
+
+const WIDTH = 520;
+const HEIGHT = 240;
+const MARGIN = { left: 44, right: 8, top: 8, bottom: 22 };
+
+/**
+ * False-colour map of the in-plane BRDF against scatter angle (x) and wavelength (y, log-spaced
+ * rows, shortest wavelength at the bottom) on a log scale.
+ */
+const SpectralHeatmap: React.FC<SpectralHeatmapProps> = ({ sweep, decades = 6 }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.clearRect(0, 0, WIDTH, HEIGHT);
+    if (!sweep) return;
+
+    const { wavelengths, angles, values } = sweep;
+    const plotW = WIDTH - MARGIN.left - MARGIN.right;
+    const plotH = HEIGHT - MARGIN.top - MARGIN.bottom;
+
+    let max = 0;
+    for (let k = 0; k < values.length; k++) max = Math.max(max, values[k]);
+    const logMax = Math.log10(max || 1);
+
+    const image = ctx.createImageData(plotW, plotH);
+    for (let py = 0; py < plotH; py++) {
+      const row = Math.min(wavelengths.length - 1, Math.floor(((plotH - 1 - py) / plotH) * wavelengths.length));
+      for (let px = 0; px < plotW; px++) {
+        const col = Math.min(angles.length - 1, Math.floor((px / plotW) * angles.length));
+        const v = values[row * angles.length + col];
+        const t = v > 0 ? 1 + (Math.log10(v) - logMax) / decades : 0;
+        const [red, green, blue] = falseColor(t);
+        const idx = (py * plotW + px) * 4;
+        image.data[idx] = red;
+        image.data[idx + 1] = green;
+        image.data[idx + 2] = blue;
+        image.data[idx + 3] = 255;
+      }
+    }
+    ctx.putImageData(image, MARGIN.left, MARGIN.top);
+
+    ctx.fillStyle = 'rgba(255,255,255,0.5)';
+    ctx.strokeStyle = 'rgba(255,255,255,0.25)';
+    ctx.font = '9px monospace';
+    for (const angle of [-90, -45, 0, 45, 90]) {
+      const x = MARGIN.left + ((angle + 90) / 180) * plotW;
+      ctx.beginPath();
+      ctx.moveTo(x, MARGIN.top + plotH);
+      ctx.lineTo(x, MARGIN.top + plotH + 4);
+      ctx.stroke();
+      ctx.fillText(`${angle}°`, x - 10, HEIGHT - 6);
+    }
+    const ticks = [0, Math.floor((wavelengths.length - 1) / 2), wavelengths.length - 1];
+    for (const i of ticks) {
+      const y = MARGIN.top + plotH - ((i + 0.5) / wavelengths.length) * plotH;
+      const lambda = wavelengths[i];
+      ctx.fillText(lambda < 1 ? `${(lambda * 1000).toFixed(0)}nm` : `${lambda.toFixed(2)}µm`, 2, y + 3);
+    }
+  }, [sweep, decades]);
+
+  return (
+    <div className="flex flex-col items-center gap-2">
+      <canvas ref={canvasRef} width={WIDTH} height={HEIGHT} className="max-w-full" />
+      <div className="flex items-center gap-2 text-[8px] font-mono text-slate-500">
+        <span>-{decades} dec</span>
+        <div className="w-32 h-1.5 rounded-full bg-gradient-to-r from-[#440154] via-[#21918c] to-[#fde725]" />
+        <span>max (sr⁻¹)</span>
+      </div>
+    </div>
+  );
+};
+
+export default SpectralHeatmap;
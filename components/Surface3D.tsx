@@ -1,19 +1,213 @@
 
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import * as THREE from 'three';
 import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls';
+import { RenderBRDFTable, ScatteringData } from '../types';
+import { falseColor } from '../utils/hemisphere';
+
+export type SurfaceLighting = 'studio' | 'point' | 'sphere';
 
 interface Surface3DProps {
-  heightMap: number[][];
-  ra: number;
-  reflectivity: number;
+  heightMap: number[][]; // Heights in micrometers, rows along z
+  extent: number; // Side length of the patch in micrometers
+  brdfTable: RenderBRDFTable | null; // Null while the table is computed
+  incidentAngle: number; // Degrees; the plane of incidence is the x–y plane of the scene
+  lobe: ScatteringData[]; // In-plane BRDF (sr⁻¹), positive angles on the specular side
+  onIncidentAngleChange?: (angle: number) => void; // Called when the beam is dragged
+  captureRef?: React.MutableRefObject<(() => string) | null>; // Set to a function returning a PNG data URL of the view
+}
+
+/** Length of the beam and specular arrows, and the lobe radius at the BRDF peak, in scene units. */
+const BEAM_LENGTH = 32;
+const LOBE_RADIUS = 24;
+/** The lobe radius is logarithmic over this many decades below the peak. */
+const LOBE_DECADES = 4;
+/** Most vertices on the lobe outline; adaptive curves are thinned to this. */
+const LOBE_POINTS = 361;
+const MAX_INCIDENCE = 89;
+/** Side length of the patch in scene units. */
+const SCENE_SIZE = 50;
+/** Peak-to-valley height of the exaggerated relief, in scene units. */
+const EXAGGERATED_RELIEF = 6;
+/** Range of log₁₀ BRDF stored in the table texture. */
+const LOG_FLOOR = -12;
+const LOG_CEIL = 8;
+/** Uniform array size for the albedo per incidence. */
+const ALBEDO_MAX = 64;
+
+const LIGHTING_LABELS: Record<SurfaceLighting, string> = {
+  studio: 'HDR 影棚',
+  point: '点光源',
+  sphere: '积分球',
+};
+
+const VERTEX_SHADER = `
+attribute vec3 heightColor;
+varying vec3 vWorldPosition;
+varying vec3 vNormal;
+varying vec3 vColor;
+
+void main() {
+  vec4 world = modelMatrix * vec4(position, 1.0);
+  vWorldPosition = world.xyz;
+  vNormal = normalize(mat3(modelMatrix) * normal);
+  vColor = heightColor;
+  gl_Position = projectionMatrix * viewMatrix * world;
+}
+`;
+
+// Radiance from directional sources (irradiance E, so a white Lambertian reads 1 under E = π)
+// and a uniform dome (radiance L, which by reciprocity returns L·albedo(θv)). The BRDF is read
+// from the table by (φs, θs, θi) in the local frame of the mesh normal.
+const FRAGMENT_SHADER = `
+precision highp sampler3D;
+uniform sampler3D brdfTable;
+uniform vec3 tableSize;
+uniform vec3 tableStep;
+uniform float albedo[${ALBEDO_MAX}];
+uniform vec3 lightDirection[3];
+uniform float lightIrradiance[3];
+uniform float domeRadiance;
+uniform float exposure;
+uniform float useHeightColor;
+varying vec3 vWorldPosition;
+varying vec3 vNormal;
+varying vec3 vColor;
+
+float brdf(vec3 n, vec3 l, vec3 v) {
+  float cosI = dot(n, l);
+  float cosS = dot(n, v);
+  if (cosI <= 0.0 || cosS <= 0.0) return 0.0;
+  vec3 li = l - n * cosI;
+  vec3 vs = v - n * cosS;
+  float phi = 0.0;
+  if (length(li) > 1e-4 && length(vs) > 1e-4) phi = acos(clamp(dot(-normalize(li), normalize(vs)), -1.0, 1.0));
+  float thetaI = min(acos(cosI), tableStep.z * (tableSize.z - 1.0));
+  vec3 uvw = (vec3(phi, acos(cosS), thetaI) / tableStep + 0.5) / tableSize;
+  return pow(10.0, texture(brdfTable, uvw).r);
+}
+
+float albedoAt(float theta) {
+  float x = min(theta / tableStep.z, tableSize.z - 1.0);
+  int k = int(floor(x));
+  int k1 = min(k + 1, int(tableSize.z) - 1);
+  return mix(albedo[k], albedo[k1], x - float(k));
+}
+
+void main() {
+  vec3 n = normalize(vNormal);
+  if (!gl_FrontFacing) n = -n;
+  vec3 v = normalize(cameraPosition - vWorldPosition);
+  float radiance = 0.0;
+  if (dot(n, v) > 0.0) {
+    for (int k = 0; k < 3; k++) {
+      vec3 l = lightDirection[k];
+      radiance += lightIrradiance[k] * brdf(n, l, v) * max(dot(n, l), 0.0);
+    }
+    radiance += domeRadiance * albedoAt(acos(dot(n, v)));
+  }
+  vec3 base = mix(vec3(1.0), vColor, useHeightColor);
+  vec3 color = base * (1.0 - exp(-radiance * exposure));
+  gl_FragColor = vec4(pow(color, vec3(1.0 / 2.2)), 1.0);
 }
+`;
 
-const Surface3D: React.FC<Surface3DProps> = ({ heightMap, ra, reflectivity }) => {
+/** Direction towards a source at polar angle θ and azimuth φ (degrees); φ = 180° is the beam side. */
+const sourceDirection = (theta: number, phi: number) => {
+  const t = theta * Math.PI / 180;
+  const p = phi * Math.PI / 180;
+  return new THREE.Vector3(Math.sin(t) * Math.cos(p), Math.cos(t), Math.sin(t) * Math.sin(p));
+};
+
+/**
+ * Sources of each preset; the key light (or the point source) follows the incident beam.
+ * The studio preset spans two decades of irradiance plus a dim sky dome.
+ */
+const lightingFor = (lighting: SurfaceLighting, incidentAngle: number) => {
+  const beam = sourceDirection(incidentAngle, 180);
+  if (lighting === 'point') return { directions: [beam, beam, beam], irradiance: [Math.PI, 0, 0], dome: 0 };
+  if (lighting === 'sphere') return { directions: [beam, beam, beam], irradiance: [0, 0, 0], dome: 1 };
+  return {
+    directions: [beam, sourceDirection(50, 90), sourceDirection(70, 20)],
+    irradiance: [Math.PI, 0.1 * Math.PI, 0.4 * Math.PI],
+    dome: 0.03,
+  };
+};
+
+/** log₁₀ BRDF as a half-float 3D texture: x = φs, y = θs, z = θi. Without a table, a Lambertian placeholder. */
+const createTableTexture = (table: RenderBRDFTable | null) => {
+  const source = table?.values ?? new Float32Array([1 / Math.PI]);
+  const data = new Uint16Array(source.length);
+  for (let i = 0; i < source.length; i++) {
+    const log = source[i] > 0 ? Math.log10(source[i]) : LOG_FLOOR;
+    data[i] = THREE.DataUtils.toHalfFloat(Math.min(LOG_CEIL, Math.max(LOG_FLOOR, log)));
+  }
+  const texture = new THREE.Data3DTexture(data, table?.nPhi ?? 1, table?.nTheta ?? 1, table?.nIncidence ?? 1);
+  texture.format = THREE.RedFormat;
+  texture.type = THREE.HalfFloatType;
+  texture.minFilter = THREE.LinearFilter;
+  texture.magFilter = THREE.LinearFilter;
+  texture.unpackAlignment = 1;
+  texture.needsUpdate = true;
+  return texture;
+};
+
+const formatLength = (um: number) => {
+  const a = Math.abs(um);
+  if (a >= 1000) return `${(um / 1000).toPrecision(3)} mm`;
+  if (a >= 1) return `${um.toPrecision(3)} µm`;
+  if (a >= 1e-3) return `${(um * 1000).toPrecision(3)} nm`;
+  return `${(um * 1e6).toPrecision(3)} pm`;
+};
+
+const VIRIDIS_GRADIENT = `linear-gradient(to top, ${[0, 0.25, 0.5, 0.75, 1].map(t => `rgb(${falseColor(t).join(',')})`).join(', ')})`;
+
+/** Unit vector at angle θ (degrees) from the surface normal in the plane of incidence, +x on the specular side. */
+const inPlaneDirection = (deg: number) => {
+  const rad = deg * Math.PI / 180;
+  return new THREE.Vector3(Math.sin(rad), Math.cos(rad), 0);
+};
+
+/**
+ * Height mesh of the surface shaded with the simulated BRDF, with the incident beam, its
+ * specular direction and the in-plane BRDF lobe as a polar fan over the sample. Heights are
+ * drawn to scale or exaggerated to a fixed relief, optionally coloured by height. The beam
+ * can be dragged by its source handle to change the incidence; the new angle is reported
+ * when the drag ends.
+ */
+const Surface3D: React.FC<Surface3DProps> = ({ heightMap, extent, brdfTable, incidentAngle, lobe, onIncidentAngleChange, captureRef }) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const rendererRef = useRef<THREE.WebGLRenderer | null>(null);
   const meshRef = useRef<THREE.Mesh | null>(null);
   const sceneRef = useRef<THREE.Scene | null>(null);
+  const overlayRef = useRef<{ setBeam: (deg: number) => void; setLobe: (curve: ScatteringData[]) => void } | null>(null);
+  const onChangeRef = useRef(onIncidentAngleChange);
+  onChangeRef.current = onIncidentAngleChange;
+  const [dragAngle, setDragAngle] = useState<number | null>(null);
+  const [lighting, setLighting] = useState<SurfaceLighting>('studio');
+  const [trueScale, setTrueScale] = useState(false);
+  const [heightColors, setHeightColors] = useState(false);
+  const [exposureEV, setExposureEV] = useState(0);
+  const lightingRef = useRef(lighting);
+  lightingRef.current = lighting;
+  const materialRef = useRef<THREE.ShaderMaterial | null>(null);
+
+  // Scene units per micrometer: laterally the patch spans SCENE_SIZE; heights to scale or exaggerated.
+  const relief = useMemo(() => {
+    let min = Infinity;
+    let max = -Infinity;
+    let sum = 0;
+    for (const row of heightMap) for (const h of row) {
+      min = Math.min(min, h);
+      max = Math.max(max, h);
+      sum += h;
+    }
+    const count = heightMap.length * (heightMap[0]?.length ?? 0);
+    return count ? { min, max, mean: sum / count } : { min: 0, max: 0, mean: 0 };
+  }, [heightMap]);
+  const lateralScale = SCENE_SIZE / Math.max(1e-9, extent);
+  const pv = relief.max - relief.min;
+  const heightScale = trueScale || pv <= 0 ? lateralScale : Math.max(lateralScale, EXAGGERATED_RELIEF / pv);
 
   useEffect(() => {
     if (!containerRef.current) return;
@@ -38,29 +232,129 @@ const Surface3D: React.FC<Surface3DProps> = ({ heightMap, ra, reflectivity }) =>
     controls.enableDamping = true;
     controls.dampingFactor = 0.05;
 
-    const ambientLight = new THREE.AmbientLight(0x404040, 2);
-    scene.add(ambientLight);
-
-    const directionalLight = new THREE.DirectionalLight(0xffffff, 2.5);
-    directionalLight.position.set(15, 30, 15);
-    scene.add(directionalLight);
-
     const size = heightMap.length || 50;
-    const geometry = new THREE.PlaneGeometry(50, 50, size - 1, size - 1);
+    const geometry = new THREE.PlaneGeometry(SCENE_SIZE, SCENE_SIZE, size - 1, size - 1);
     geometry.rotateX(-Math.PI / 2);
 
-    const material = new THREE.MeshStandardMaterial({
-      color: new THREE.Color().setScalar(0.2 + reflectivity * 0.7),
-      metalness: 0.9,
-      roughness: Math.min(0.9, ra * 1.5),
-      flatShading: false,
+    const material = new THREE.ShaderMaterial({
+      vertexShader: VERTEX_SHADER,
+      fragmentShader: FRAGMENT_SHADER,
       side: THREE.DoubleSide,
+      uniforms: {
+        brdfTable: { value: createTableTexture(null) },
+        tableSize: { value: new THREE.Vector3(1, 1, 1) },
+        tableStep: { value: new THREE.Vector3(1, 1, 1) },
+        albedo: { value: new Array(ALBEDO_MAX).fill(1) },
+        lightDirection: { value: [new THREE.Vector3(0, 1, 0), new THREE.Vector3(0, 1, 0), new THREE.Vector3(0, 1, 0)] },
+        lightIrradiance: { value: [0, 0, 0] },
+        domeRadiance: { value: 0 },
+        exposure: { value: 1 },
+        useHeightColor: { value: 0 },
+      },
     });
+    materialRef.current = material;
 
     const mesh = new THREE.Mesh(geometry, material);
     scene.add(mesh);
     meshRef.current = mesh;
 
+    // Beam from its source to the origin, the specular ray, and a handle at the source.
+    const beam = new THREE.ArrowHelper(new THREE.Vector3(0, -1, 0), new THREE.Vector3(0, BEAM_LENGTH, 0), BEAM_LENGTH, 0xf59e0b, 3, 1.5);
+    const specular = new THREE.ArrowHelper(new THREE.Vector3(0, 1, 0), new THREE.Vector3(), BEAM_LENGTH, 0x10b981, 3, 1.5);
+    const handle = new THREE.Mesh(
+      new THREE.SphereGeometry(1.6, 16, 12),
+      new THREE.MeshBasicMaterial({ color: 0xfbbf24 })
+    );
+    const lobeFill = new THREE.Mesh(
+      new THREE.BufferGeometry(),
+      new THREE.MeshBasicMaterial({ color: 0x6366f1, transparent: true, opacity: 0.25, side: THREE.DoubleSide, depthWrite: false })
+    );
+    const lobeOutline = new THREE.Line(new THREE.BufferGeometry(), new THREE.LineBasicMaterial({ color: 0x818cf8 }));
+    // Exaggerated heights can bury the origin, so the overlay is drawn over the mesh.
+    for (const object of [beam, specular, handle, lobeFill, lobeOutline]) {
+      object.traverse((child: THREE.Object3D) => {
+        child.renderOrder = 1;
+        const mat = (child as THREE.Mesh).material as THREE.Material | undefined;
+        if (mat) mat.depthTest = false;
+      });
+    }
+    scene.add(beam, specular, handle, lobeFill, lobeOutline);
+
+    const setBeam = (deg: number) => {
+      const source = inPlaneDirection(deg).multiply(new THREE.Vector3(-1, 1, 1)).multiplyScalar(BEAM_LENGTH);
+      beam.position.copy(source);
+      beam.setDirection(source.clone().negate().normalize());
+      specular.setDirection(inPlaneDirection(deg));
+      handle.position.copy(source);
+      const sources = lightingFor(lightingRef.current, deg);
+      material.uniforms.lightDirection.value = sources.directions;
+      material.uniforms.lightIrradiance.value = sources.irradiance;
+      material.uniforms.domeRadiance.value = sources.dome;
+    };
+
+    // Polar fan in the plane of incidence: one triangle per pair of neighbouring samples.
+    const setLobe = (curve: ScatteringData[]) => {
+      const stride = Math.max(1, Math.ceil(curve.length / LOBE_POINTS));
+      const samples = curve.filter((_, i) => i % stride === 0);
+      const peak = samples.reduce((m, d) => Math.max(m, d.intensity), 0);
+      const points = samples.map(d => {
+        const r = peak > 0 && d.intensity > 0 ? Math.max(0, 1 + Math.log10(d.intensity / peak) / LOBE_DECADES) : 0;
+        return inPlaneDirection(d.angle).multiplyScalar(LOBE_RADIUS * r);
+      });
+      const fan: number[] = [];
+      for (let i = 1; i < points.length; i++) {
+        fan.push(0, 0, 0, points[i - 1].x, points[i - 1].y, 0, points[i].x, points[i].y, 0);
+      }
+      lobeFill.geometry.dispose();
+      lobeFill.geometry = new THREE.BufferGeometry();
+      lobeFill.geometry.setAttribute('position', new THREE.Float32BufferAttribute(fan, 3));
+      lobeOutline.geometry.dispose();
+      lobeOutline.geometry = new THREE.BufferGeometry().setFromPoints(points);
+    };
+    overlayRef.current = { setBeam, setLobe };
+
+    // Dragging the handle rotates the beam in the plane of incidence; the handle takes the
+    // pointer ahead of the orbit controls, which are paused meanwhile.
+    const raycaster = new THREE.Raycaster();
+    const incidencePlane = new THREE.Plane(new THREE.Vector3(0, 0, 1), 0);
+    let dragging: number | null = null;
+    const pointerRay = (e: PointerEvent) => {
+      const rect = renderer.domElement.getBoundingClientRect();
+      raycaster.setFromCamera(new THREE.Vector2(((e.clientX - rect.left) / rect.width) * 2 - 1, -((e.clientY - rect.top) / rect.height) * 2 + 1), camera);
+      return raycaster;
+    };
+    const onPointerDown = (e: PointerEvent) => {
+      if (!onChangeRef.current || !pointerRay(e).intersectObject(handle).length) return;
+      e.stopImmediatePropagation();
+      dragging = Math.round(Math.atan2(-handle.position.x, handle.position.y) * 1800 / Math.PI) / 10;
+      controls.enabled = false;
+      renderer.domElement.setPointerCapture(e.pointerId);
+      setDragAngle(dragging);
+    };
+    const onPointerMove = (e: PointerEvent) => {
+      const hit = new THREE.Vector3();
+      if (dragging === null) {
+        renderer.domElement.style.cursor = onChangeRef.current && pointerRay(e).intersectObject(handle).length ? 'grab' : '';
+        return;
+      }
+      if (!pointerRay(e).ray.intersectPlane(incidencePlane, hit)) return;
+      const deg = Math.atan2(-hit.x, Math.max(0, hit.y)) * 180 / Math.PI;
+      dragging = Math.round(Math.min(MAX_INCIDENCE, Math.max(0, deg)) * 10) / 10;
+      setBeam(dragging);
+      setDragAngle(dragging);
+    };
+    const onPointerUp = (e: PointerEvent) => {
+      if (dragging === null) return;
+      renderer.domElement.releasePointerCapture(e.pointerId);
+      controls.enabled = true;
+      onChangeRef.current?.(dragging);
+      dragging = null;
+      setDragAngle(null);
+    };
+    renderer.domElement.addEventListener('pointerdown', onPointerDown, { capture: true });
+    renderer.domElement.addEventListener('pointermove', onPointerMove);
+    renderer.domElement.addEventListener('pointerup', onPointerUp);
+
     let animationId: number;
     const animate = () => {
       animationId = requestAnimationFrame(animate);
@@ -69,6 +363,14 @@ const Surface3D: React.FC<Surface3DProps> = ({ heightMap, ra, reflectivity }) =>
     };
     animate();
 
+    // The drawing buffer is cleared after compositing, so render and read in the same task.
+    if (captureRef) {
+      captureRef.current = () => {
+        renderer.render(scene, camera);
+        return renderer.domElement.toDataURL('image/png');
+      };
+    }
+
     const handleResize = () => {
       if (!containerRef.current) return;
       const w = containerRef.current.clientWidth;
@@ -81,7 +383,22 @@ const Surface3D: React.FC<Surface3DProps> = ({ heightMap, ra, reflectivity }) =>
 
     return () => {
       window.removeEventListener('resize', handleResize);
+      if (captureRef) captureRef.current = null;
+      overlayRef.current = null;
+      renderer.domElement.removeEventListener('pointerdown', onPointerDown, { capture: true });
+      renderer.domElement.removeEventListener('pointermove', onPointerMove);
+      renderer.domElement.removeEventListener('pointerup', onPointerUp);
       cancelAnimationFrame(animationId);
+      material.uniforms.brdfTable.value.dispose();
+      material.dispose();
+      mesh.geometry.dispose();
+      materialRef.current = null;
+      beam.dispose();
+      specular.dispose();
+      for (const object of [handle, lobeFill, lobeOutline]) {
+        object.geometry.dispose();
+        (object.material as THREE.Material).dispose();
+      }
       renderer.dispose();
       if (containerRef.current?.contains(renderer.domElement)) {
         containerRef.current.removeChild(renderer.domElement);
@@ -93,29 +410,118 @@ const Surface3D: React.FC<Surface3DProps> = ({ heightMap, ra, reflectivity }) =>
     if (!meshRef.current || !heightMap.length) return;
 
     const mesh = meshRef.current;
+    const size = heightMap.length;
+    if ((mesh.geometry as THREE.PlaneGeometry).parameters.widthSegments !== size - 1) {
+      const resized = new THREE.PlaneGeometry(SCENE_SIZE, SCENE_SIZE, size - 1, size - 1);
+      resized.rotateX(-Math.PI / 2);
+      mesh.geometry.dispose();
+      mesh.geometry = resized;
+    }
     const geometry = mesh.geometry as THREE.PlaneGeometry;
     const position = geometry.attributes.position;
-    const size = heightMap.length;
-    
-    const scale = ra < 0.001 ? 1000000 : ra < 0.1 ? 10000 : 50;
+    const colors = new Float32Array(size * size * 3);
+    const span = relief.max - relief.min;
 
     for (let i = 0; i < size; i++) {
       for (let j = 0; j < size; j++) {
         const idx = i * size + j;
-        position.setY(idx, heightMap[i][j] * scale);
+        position.setY(idx, (heightMap[i][j] - relief.mean) * heightScale);
+        const rgb = falseColor(span > 0 ? (heightMap[i][j] - relief.min) / span : 0.5);
+        // The shader works in linear light and applies the display gamma itself.
+        for (let c = 0; c < 3; c++) colors[idx * 3 + c] = Math.pow(rgb[c] / 255, 2.2);
       }
     }
 
     position.needsUpdate = true;
+    geometry.setAttribute('heightColor', new THREE.BufferAttribute(colors, 3));
     geometry.computeVertexNormals();
-    
-    if (mesh.material instanceof THREE.MeshStandardMaterial) {
-      mesh.material.roughness = Math.min(0.95, 0.05 + ra * 0.8);
-      mesh.material.color.setScalar(0.2 + reflectivity * 0.75);
+  }, [heightMap, relief, heightScale]);
+
+  useEffect(() => {
+    const material = materialRef.current;
+    if (!material) return;
+    const uniforms = material.uniforms;
+    uniforms.brdfTable.value.dispose();
+    uniforms.brdfTable.value = createTableTexture(brdfTable);
+    if (brdfTable) {
+      const step = Math.PI / 180;
+      uniforms.tableSize.value.set(brdfTable.nPhi, brdfTable.nTheta, brdfTable.nIncidence);
+      uniforms.tableStep.value.set(brdfTable.phiStep * step, brdfTable.thetaStep * step, brdfTable.incidenceStep * step);
+      const albedo = new Array(ALBEDO_MAX).fill(0);
+      brdfTable.albedo.forEach((a, k) => { if (k < ALBEDO_MAX) albedo[k] = a; });
+      uniforms.albedo.value = albedo;
+    } else {
+      uniforms.tableSize.value.set(1, 1, 1);
+      uniforms.tableStep.value.set(1, 1, 1);
+      uniforms.albedo.value = new Array(ALBEDO_MAX).fill(1);
     }
-  }, [heightMap, ra, reflectivity]);
+  }, [brdfTable]);
+
+  useEffect(() => {
+    const material = materialRef.current;
+    if (!material) return;
+    material.uniforms.exposure.value = Math.pow(2, exposureEV);
+    material.uniforms.useHeightColor.value = heightColors ? 1 : 0;
+  }, [exposureEV, heightColors]);
+
+  useEffect(() => {
+    overlayRef.current?.setBeam(dragAngle ?? incidentAngle);
+  }, [lighting]);
+
+  useEffect(() => {
+    overlayRef.current?.setBeam(incidentAngle);
+  }, [incidentAngle]);
+
+  useEffect(() => {
+    overlayRef.current?.setLobe(lobe);
+  }, [lobe]);
 
-  return <div ref={containerRef} className="w-full h-full cursor-move" />;
+  return (
+    <div className="relative w-full h-full">
+      <div ref={containerRef} className="w-full h-full cursor-move" />
+      <div className="absolute bottom-6 left-8 pointer-events-none text-[9px] font-mono text-slate-500 space-y-0.5">
+        <p><span className="text-amber-400">━</span> 入射 θi = {(dragAngle ?? incidentAngle).toFixed(1)}°{dragAngle !== null && ' · 松开以应用'}</p>
+        <p><span className="text-emerald-400">━</span> 镜面方向 · <span className="text-indigo-400">◆</span> 面内 BRDF 波瓣 (对数, {LOBE_DECADES} 个数量级)</p>
+      </div>
+      <div className="absolute top-6 right-8 flex flex-col items-end gap-1.5 text-[9px] font-mono">
+        <div className="flex gap-1.5">
+          <select
+            value={lighting}
+            onChange={e => setLighting(e.target.value as SurfaceLighting)}
+            className="bg-slate-800 border border-white/10 rounded-lg px-2 py-1 text-slate-300 outline-none"
+          >
+            {(Object.keys(LIGHTING_LABELS) as SurfaceLighting[]).map(k => <option key={k} value={k}>{LIGHTING_LABELS[k]}</option>)}
+          </select>
+          <button
+            onClick={() => setTrueScale(v => !v)}
+            className={`px-2 py-1 rounded-lg border ${trueScale ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-slate-800 border-white/10 text-slate-400'}`}
+          >
+            {trueScale ? '真实比例' : '夸张高度'}
+          </button>
+          <button
+            onClick={() => setHeightColors(v => !v)}
+            className={`px-2 py-1 rounded-lg border ${heightColors ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-slate-800 border-white/10 text-slate-400'}`}
+          >
+            高度色图
+          </button>
+        </div>
+        <label className="flex items-center gap-2 text-slate-500">
+          曝光 {exposureEV > 0 ? '+' : ''}{exposureEV.toFixed(1)} EV
+          <input type="range" min={-6} max={6} step={0.5} value={exposureEV} onChange={e => setExposureEV(parseFloat(e.target.value))} className="w-24 accent-indigo-500" />
+        </label>
+        {!brdfTable && <p className="text-slate-500 animate-pulse">BRDF 纹理计算中…</p>}
+      </div>
+      <div className="absolute right-8 top-24 bottom-16 flex items-stretch gap-1.5 pointer-events-none text-[9px] font-mono text-slate-500">
+        <div className="flex flex-col justify-between items-end">
+          <span>{formatLength(relief.max - relief.mean)}</span>
+          <span className="text-slate-400">Z {heightScale > lateralScale * 1.001 ? `×${(heightScale / lateralScale).toPrecision(3)}` : '1:1'}</span>
+          <span>{formatLength(relief.min - relief.mean)}</span>
+        </div>
+        <div className="w-2 rounded-full border border-white/10" style={{ background: heightColors ? VIRIDIS_GRADIENT : 'linear-gradient(to top, #1e293b, #e2e8f0)' }} />
+        <span className="absolute -bottom-5 right-0 whitespace-nowrap">视场 {formatLength(extent)}</span>
+      </div>
+    </div>
+  );
 };
 
 export default Surface3D;
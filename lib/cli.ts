@@ -0,0 +1,153 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import { dirname, extname, resolve } from 'node:path';
+import { MaterialData } from '../types';
+import { parseMaterialCSV } from '../utils/materials';
+import { expandJob, formatJobCurvesCSV, formatJobSummaryCSV, runJob, validateJob } from './jobs';
+import { parseYAML } from './yaml';
+
+/** Process exit codes. */
+const EXIT_OK = 0;
+const EXIT_FAILURE = 1; // Unexpected error while running
+const EXIT_USAGE = 2; // Bad command line
+const EXIT_INVALID_JOB = 3; // Unreadable job file or validation errors
+
+const USAGE = `Usage: alurough <command> <job.json|job.yaml> [options]
+
+Commands:
+  run        Evaluate every configuration of the job
+  validate   Check the job file and print the number of configurations
+
+Options:
+  -o, --out <prefix>    Write <prefix>.summary.csv (+ <prefix>.curves.csv), or <prefix>.json
+  -f, --format <fmt>    csv (default) or json
+      --curves          Include in-plane BRDF curves (same as output.curves in the job)
+  -q, --quiet           No progress on stderr
+  -h, --help            Show this help
+
+Exit codes: 0 success, 1 runtime error, 2 usage error, 3 invalid job file.`;
+
+interface CliOptions {
+  command: 'run' | 'validate';
+  jobPath: string;
+  out?: string;
+  format: 'csv' | 'json';
+  curves: boolean;
+  quiet: boolean;
+}
+
+const parseArgs = (argv: string[]): CliOptions | null => {
+  const positional: string[] = [];
+  const options: Omit<CliOptions, 'command' | 'jobPath'> = { format: 'csv', curves: false, quiet: false };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const value = () => {
+      if (i + 1 >= argv.length) throw new Error(`${arg} needs a value`);
+      return argv[++i];
+    };
+    if (arg === '-h' || arg === '--help') return null;
+    else if (arg === '-o' || arg === '--out') options.out = value();
+    else if (arg === '-f' || arg === '--format') {
+      const format = value();
+      if (format !== 'csv' && format !== 'json') throw new Error(`Unknown format "${format}"`);
+      options.format = format;
+    } else if (arg === '--curves') options.curves = true;
+    else if (arg === '-q' || arg === '--quiet') options.quiet = true;
+    else if (arg.startsWith('-')) throw new Error(`Unknown option ${arg}`);
+    else positional.push(arg);
+  }
+  const [command, jobPath, ...extra] = positional;
+  if (command !== 'run' && command !== 'validate') throw new Error(command ? `Unknown command "${command}"` : 'Missing command');
+  if (!jobPath) throw new Error('Missing job file');
+  if (extra.length) throw new Error(`Unexpected argument ${extra[0]}`);
+  return { command, jobPath, ...options };
+};
+
+const readJobFile = async (path: string) => {
+  const text = await readFile(path, 'utf8');
+  const ext = extname(path).toLowerCase();
+  return ext === '.yaml' || ext === '.yml' ? parseYAML(text) : JSON.parse(text);
+};
+
+/**
+ * User materials named in the job (`materials: {id: nk.csv}`), paths relative to the job file.
+ */
+const loadJobMaterials = async (raw: unknown, jobPath: string): Promise<MaterialData[]> => {
+  if (typeof raw !== 'object' || raw === null || !('materials' in raw) || raw.materials === undefined) return [];
+  const entries = raw.materials;
+  if (typeof entries !== 'object' || entries === null || Array.isArray(entries)) {
+    throw new Error('materials: must be a mapping of id → n,k CSV file');
+  }
+  return Promise.all(Object.entries(entries).map(async ([id, file]) => {
+    if (typeof file !== 'string') throw new Error(`materials.${id}: must be a file path`);
+    const text = await readFile(resolve(dirname(jobPath), file), 'utf8');
+    return { ...parseMaterialCSV(text, id), id };
+  }));
+};
+
+export const main = async (argv: string[]): Promise<number> => {
+  let options: CliOptions | null;
+  try {
+    options = parseArgs(argv);
+  } catch (err) {
+    console.error(`alurough: ${err instanceof Error ? err.message : String(err)}\n\n${USAGE}`);
+    return EXIT_USAGE;
+  }
+  if (!options) {
+    console.log(USAGE);
+    return EXIT_OK;
+  }
+
+  let raw: unknown;
+  let materials: MaterialData[];
+  try {
+    raw = await readJobFile(options.jobPath);
+    materials = await loadJobMaterials(raw, options.jobPath);
+  } catch (err) {
+    console.error(`alurough: cannot read ${options.jobPath}: ${err instanceof Error ? err.message : String(err)}`);
+    return EXIT_INVALID_JOB;
+  }
+
+  const { job, errors } = validateJob(raw, materials);
+  if (!job) {
+    console.error(`alurough: ${options.jobPath} is invalid:`);
+    for (const error of errors) console.error(`  ${error}`);
+    return EXIT_INVALID_JOB;
+  }
+  if (options.curves) job.output.curves = true;
+
+  const total = expandJob(job).length;
+  if (options.command === 'validate') {
+    console.log(`${options.jobPath}: OK, ${total} configuration${total === 1 ? '' : 's'}`);
+    return EXIT_OK;
+  }
+
+  try {
+    const started = Date.now();
+    const results = runJob(job, materials, (done, count) => {
+      if (!options.quiet && (done === count || done % Math.max(1, Math.floor(count / 20)) === 0)) {
+        process.stderr.write(`\r${done}/${count} configurations`);
+      }
+    });
+    if (!options.quiet) process.stderr.write(` (${((Date.now() - started) / 1000).toFixed(1)} s)\n`);
+
+    if (options.format === 'json') {
+      const json = JSON.stringify({ job: job.name, results }, null, 2);
+      if (options.out) await writeFile(`${options.out}.json`, json);
+      else console.log(json);
+    } else if (options.out) {
+      await writeFile(`${options.out}.summary.csv`, formatJobSummaryCSV(results));
+      if (job.output.curves) await writeFile(`${options.out}.curves.csv`, formatJobCurvesCSV(results));
+    } else {
+      console.log(formatJobSummaryCSV(results));
+      if (job.output.curves) console.log(`\n${formatJobCurvesCSV(results)}`);
+    }
+    return EXIT_OK;
+  } catch (err) {
+    console.error(`alurough: ${err instanceof Error ? err.stack ?? err.message : String(err)}`);
+    return EXIT_FAILURE;
+  }
+};
+
+main(process.argv.slice(2)).then(code => {
+  process.exitCode = code;
+});
@@ -0,0 +1,73 @@
+/**
+ * Headless entry point: the scattering physics without React or the DOM, for scripts,
+ * pipelines and the `alurough` CLI. Built with `npm run build:lib` into `dist-lib/`.
+ */
+export type * from '../types';
+
+export {
+  calculateScattering,
+  calculateScatteringWithBudget,
+  calculatePolarizedScattering,
+  calculateHemisphericalBRDF,
+  calculateEnergyConcentration,
+  calculatePhaseFactor,
+  resolveActiveModel,
+  toCosineWeighted,
+  generateSurfaceProfile,
+  generateSurfaceProfile3D,
+} from '../utils/physics';
+export { calculateKirchhoffScattering } from '../utils/kirchhoff';
+export { generateRandomSurface, measureSurfaceStatistics, DEFAULT_SEED } from '../utils/synthesis';
+export { DEFAULT_MACHINING, TOOL_MARK_PROFILES, addToolMarks, calculateDiffractionOrders, toolMarkHeight } from '../utils/machining';
+export { DEFAULT_PSD_SETTINGS, abcParameters, bandLimitedSlope, evaluatePSD, evaluatePSD2D } from '../utils/psd';
+export { BUILTIN_MATERIALS, MANUAL_MATERIAL_ID, findMaterial, interpolateNK, parseMaterialCSV } from '../utils/materials';
+export { fresnelReflectance } from '../utils/fresnel';
+export {
+  EMPTY_COATING,
+  COATING_PRESETS,
+  resolveCoating,
+  filmStackAt,
+  stackReflectance,
+  stackReflectanceCurves,
+} from '../utils/thinFilm';
+export { incidentStokes, muellerChannels } from '../utils/polarization';
+export { sampleHemisphere, azimuthalSlice, crossPlaneSlice } from '../utils/hemisphere';
+export {
+  DEFAULT_SOURCE_SPECTRUM,
+  DEFAULT_SWEEP_SETTINGS,
+  calculateSpectralSweep,
+  calculateBandAverage,
+  parseSpectrumCSV,
+} from '../utils/spectral';
+export { APPEARANCE_WAVELENGTH, calculateAppearanceMetrics } from '../utils/appearance';
+export { FIT_PARAMETERS_BY_MODEL, fitBRDF, parseMeasuredBRDF } from '../utils/fitting';
+export { parseMeasurementFile } from '../utils/surfaceImport';
+export { processProfile, processSurface } from '../utils/roughness';
+export {
+  fitABg,
+  formatABg,
+  parseABg,
+  tabulateBSDF,
+  formatTabBSDF,
+  parseTabBSDF,
+  tabulateMERL,
+  encodeMERL,
+  decodeMERL,
+  lookupMERL,
+  createExchangeFile,
+  parseExchangeFile,
+  importedInPlaneSlice,
+} from '../utils/bsdfFormats';
+export type { ScatterSetup } from '../utils/bsdfFormats';
+export {
+  DEFAULT_JOB_CONFIGURATION,
+  validateJob,
+  expandJob,
+  sweepValues,
+  runConfiguration,
+  runJob,
+  formatJobSummaryCSV,
+  formatJobCurvesCSV,
+} from './jobs';
+export { MODEL_TYPES } from '../utils/parameters';
+export { parseYAML } from './yaml';
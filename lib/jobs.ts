@@ -0,0 +1,329 @@
+import {
+  CoatingStack,
+  InterfaceCorrelation,
+  JobConfiguration,
+  JobParameter,
+  JobResult,
+  MachiningTexture,
+  MaterialData,
+  ModelType,
+  NumericRange,
+  PolarizationState,
+  PSDModel,
+  ScatteringJob,
+  SweepAxis,
+  ToolMarkProfile,
+} from '../types';
+import { calculateEnergyConcentration, calculatePhaseFactor, calculateScattering, resolveActiveModel } from '../utils/physics';
+import { BUILTIN_MATERIALS, MANUAL_MATERIAL_ID } from '../utils/materials';
+import { TOOL_MARK_PROFILES } from '../utils/machining';
+import { scatteringRequestFor } from '../utils/scenarios';
+import {
+  DEFAULT_PARAMETERS,
+  INTERFACE_CORRELATIONS,
+  MODEL_TYPES,
+  PARAMETER_RANGES,
+  POLARIZATION_STATES,
+  PSD_MODELS,
+  describeRange,
+  inRange,
+} from '../utils/parameters';
+
+const DEG = Math.PI / 180;
+
+const TOOL_MARK_IDS = TOOL_MARK_PROFILES.map(p => p.id);
+
+/** Same starting point as the interactive app. */
+export const DEFAULT_JOB_CONFIGURATION: JobConfiguration = {
+  name: 'run',
+  ...DEFAULT_PARAMETERS,
+  step: 0.1,
+};
+
+/** Ranges of the parameters, plus the in-plane step of the job's curves. */
+const NUMERIC_RANGES: Record<JobParameter | 'step', NumericRange> = {
+  ...PARAMETER_RANGES,
+  step: { min: 0, max: 10, openMin: true, unit: '°' },
+};
+
+const JOB_PARAMETERS = Object.keys(PARAMETER_RANGES) as JobParameter[];
+const CONFIGURATION_KEYS = Object.keys(DEFAULT_JOB_CONFIGURATION);
+const JOB_KEYS = ['name', 'defaults', 'runs', 'sweep', 'output', 'materials'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const checkNumber = (key: keyof typeof NUMERIC_RANGES, value: unknown, path: string, errors: string[]) => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    errors.push(`${path}: must be a number`);
+  } else if (!inRange(NUMERIC_RANGES[key], value)) {
+    errors.push(`${path}: ${value} is outside ${describeRange(NUMERIC_RANGES[key])}`);
+  } else if (key === 'seed' && !Number.isInteger(value)) {
+    errors.push(`${path}: must be an integer`);
+  }
+};
+
+const validateCoating = (raw: unknown, path: string, errors: string[], materialIds: string[]) => {
+  if (!isRecord(raw)) {
+    errors.push(`${path}: must be a mapping with "layers" and "correlation"`);
+    return;
+  }
+  for (const extra of Object.keys(raw).filter(k => !['layers', 'correlation'].includes(k))) errors.push(`${path}.${extra}: unknown coating field`);
+  if (!INTERFACE_CORRELATIONS.includes(raw.correlation as InterfaceCorrelation)) {
+    errors.push(`${path}.correlation: must be one of ${INTERFACE_CORRELATIONS.join(', ')}`);
+  }
+  if (!Array.isArray(raw.layers)) {
+    errors.push(`${path}.layers: must be a list (outermost layer first)`);
+    return;
+  }
+  raw.layers.forEach((layer, i) => {
+    const at = `${path}.layers[${i}]`;
+    if (!isRecord(layer)) {
+      errors.push(`${at}: must be a mapping with material, thickness and ra`);
+      return;
+    }
+    for (const extra of Object.keys(layer).filter(k => !['material', 'thickness', 'ra'].includes(k))) errors.push(`${at}.${extra}: unknown layer field`);
+    if (layer.material === MANUAL_MATERIAL_ID || !materialIds.includes(layer.material as string)) {
+      errors.push(`${at}.material: unknown material "${layer.material}"`);
+    }
+    for (const key of ['thickness', 'ra'] as const) {
+      const value = layer[key];
+      if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) errors.push(`${at}.${key}: must be a non-negative number (µm)`);
+    }
+  });
+};
+
+const validateMachining = (raw: unknown, path: string, errors: string[]) => {
+  if (!isRecord(raw)) {
+    errors.push(`${path}: must be a mapping with enabled, profile, period, depth and layAngle`);
+    return;
+  }
+  for (const extra of Object.keys(raw).filter(k => !['enabled', 'profile', 'period', 'depth', 'layAngle'].includes(k))) errors.push(`${path}.${extra}: unknown machining field`);
+  if (typeof raw.enabled !== 'boolean') errors.push(`${path}.enabled: must be true or false`);
+  if (!TOOL_MARK_IDS.includes(raw.profile as ToolMarkProfile)) errors.push(`${path}.profile: must be one of ${TOOL_MARK_IDS.join(', ')}`);
+  if (typeof raw.period !== 'number' || !Number.isFinite(raw.period) || raw.period <= 0) errors.push(`${path}.period: must be a positive number (µm)`);
+  if (typeof raw.depth !== 'number' || !Number.isFinite(raw.depth) || raw.depth < 0) errors.push(`${path}.depth: must be a non-negative number (µm)`);
+  if (typeof raw.layAngle !== 'number' || !Number.isFinite(raw.layAngle)) errors.push(`${path}.layAngle: must be a number (°)`);
+};
+
+const validateConfiguration = (raw: unknown, path: string, errors: string[], materialIds: string[]) => {
+  if (!isRecord(raw)) {
+    errors.push(`${path}: must be a mapping`);
+    return {};
+  }
+  for (const [key, value] of Object.entries(raw)) {
+    const at = `${path}.${key}`;
+    if (key in NUMERIC_RANGES) checkNumber(key as keyof typeof NUMERIC_RANGES, value, at, errors);
+    else if (key === 'name' && typeof value !== 'string') errors.push(`${at}: must be a string`);
+    else if (key === 'modelType' && !MODEL_TYPES.includes(value as ModelType)) errors.push(`${at}: must be one of ${MODEL_TYPES.join(', ')}`);
+    else if (key === 'psdModel' && !PSD_MODELS.includes(value as PSDModel)) errors.push(`${at}: must be one of ${PSD_MODELS.join(', ')}`);
+    else if (key === 'polarization' && !POLARIZATION_STATES.includes(value as PolarizationState)) errors.push(`${at}: must be one of ${POLARIZATION_STATES.join(', ')}`);
+    else if (key === 'material' && !materialIds.includes(value as string)) errors.push(`${at}: unknown material "${value}" (known: ${materialIds.join(', ')})`);
+    else if (key === 'multipleScattering' && typeof value !== 'boolean') errors.push(`${at}: must be true or false`);
+    else if (key === 'coating') validateCoating(value, at, errors, materialIds);
+    else if (key === 'machining') validateMachining(value, at, errors);
+    else if (key === 'stokes') {
+      if (!Array.isArray(value) || value.length !== 4 || !value.every(v => typeof v === 'number' && Number.isFinite(v))) {
+        errors.push(`${at}: must be four numbers [S0, S1, S2, S3]`);
+      } else if (value[0] <= 0 || Math.hypot(value[1], value[2], value[3]) > value[0] * (1 + 1e-9)) {
+        errors.push(`${at}: degree of polarization must not exceed 1 and S0 must be positive`);
+      }
+    } else if (!CONFIGURATION_KEYS.includes(key)) errors.push(`${at}: unknown parameter`);
+  }
+  return raw as Partial<JobConfiguration>;
+};
+
+const validateAxis = (key: string, raw: unknown, path: string, errors: string[]): SweepAxis | undefined => {
+  if (!JOB_PARAMETERS.includes(key as JobParameter)) {
+    errors.push(`${path}: cannot sweep "${key}" (sweepable: ${JOB_PARAMETERS.join(', ')})`);
+    return undefined;
+  }
+  const name = key as JobParameter;
+  if (Array.isArray(raw)) {
+    if (raw.length === 0) errors.push(`${path}: list must not be empty`);
+    raw.forEach((v, i) => checkNumber(name, v, `${path}[${i}]`, errors));
+    return raw as number[];
+  }
+  if (!isRecord(raw)) {
+    errors.push(`${path}: must be a list of values or {from, to, samples, scale}`);
+    return undefined;
+  }
+  const { from, to, samples, scale = 'linear' } = raw;
+  for (const extra of Object.keys(raw).filter(k => !['from', 'to', 'samples', 'scale'].includes(k))) {
+    errors.push(`${path}.${extra}: unknown sweep field`);
+  }
+  checkNumber(name, from, `${path}.from`, errors);
+  checkNumber(name, to, `${path}.to`, errors);
+  if (typeof samples !== 'number' || !Number.isInteger(samples) || samples < 1) errors.push(`${path}.samples: must be a positive integer`);
+  if (scale !== 'linear' && scale !== 'log') errors.push(`${path}.scale: must be "linear" or "log"`);
+  if (scale === 'log' && ((from as number) <= 0 || (to as number) <= 0)) errors.push(`${path}: log sweeps need positive bounds`);
+  return { from: from as number, to: to as number, samples: samples as number, scale: scale as 'linear' | 'log' };
+};
+
+/**
+ * Checks a parsed job file and fills in defaults. Every problem is reported with its path
+ * (e.g. `runs[2].ra: -0.1 is outside [0.000001, 3.2] µm`); the job is only returned when
+ * there are none. `materials` lists user materials that may be referenced besides the
+ * built-in library.
+ */
+export const validateJob = (raw: unknown, materials: MaterialData[] = []): { job?: ScatteringJob; errors: string[] } => {
+  const errors: string[] = [];
+  if (!isRecord(raw)) return { errors: ['job: must be a mapping with "runs" and/or "sweep"'] };
+  for (const key of Object.keys(raw).filter(k => !JOB_KEYS.includes(k))) errors.push(`${key}: unknown job field`);
+
+  const materialIds = [MANUAL_MATERIAL_ID, ...[...BUILTIN_MATERIALS, ...materials].map(m => m.id)];
+
+  if (raw.name !== undefined && typeof raw.name !== 'string') errors.push('name: must be a string');
+  const defaults = raw.defaults === undefined ? {} : validateConfiguration(raw.defaults, 'defaults', errors, materialIds);
+
+  let runs: Partial<JobConfiguration>[] = [{}];
+  if (raw.runs !== undefined) {
+    if (!Array.isArray(raw.runs) || raw.runs.length === 0) errors.push('runs: must be a non-empty list');
+    else runs = raw.runs.map((run, i) => validateConfiguration(run, `runs[${i}]`, errors, materialIds));
+  }
+
+  const sweep: ScatteringJob['sweep'] = {};
+  if (raw.sweep !== undefined) {
+    if (!isRecord(raw.sweep)) errors.push('sweep: must be a mapping of parameter → values');
+    else {
+      for (const [key, axis] of Object.entries(raw.sweep)) {
+        const parsed = validateAxis(key, axis, `sweep.${key}`, errors);
+        if (parsed) sweep[key as JobParameter] = parsed;
+      }
+    }
+  }
+
+  let curves = false;
+  if (raw.output !== undefined) {
+    if (!isRecord(raw.output)) errors.push('output: must be a mapping');
+    else {
+      for (const key of Object.keys(raw.output).filter(k => k !== 'curves')) errors.push(`output.${key}: unknown output field`);
+      if (raw.output.curves !== undefined && typeof raw.output.curves !== 'boolean') errors.push('output.curves: must be true or false');
+      curves = raw.output.curves === true;
+    }
+  }
+
+  if (errors.length > 0) return { errors };
+  return {
+    job: { name: typeof raw.name === 'string' ? raw.name : 'job', defaults, runs, sweep, output: { curves } },
+    errors,
+  };
+};
+
+export const sweepValues = (axis: SweepAxis): number[] => {
+  if (Array.isArray(axis)) return axis;
+  const { from, to, samples, scale = 'linear' } = axis;
+  if (samples === 1) return [from];
+  return Array.from({ length: samples }, (_, i) => {
+    const t = i / (samples - 1);
+    return scale === 'log' ? from * Math.pow(to / from, t) : from + (to - from) * t;
+  });
+};
+
+/**
+ * Every configuration of a job: each run merged over the defaults, then crossed with all
+ * sweep axes. Sweep values override the run.
+ */
+export const expandJob = (job: ScatteringJob): JobConfiguration[] => {
+  const axes = (Object.entries(job.sweep) as [JobParameter, SweepAxis][]).map(([key, axis]) => ({ key, values: sweepValues(axis) }));
+  const combinations = axes.reduce<Partial<JobConfiguration>[]>(
+    (acc, { key, values }) => acc.flatMap(partial => values.map(v => ({ ...partial, [key]: v }))),
+    [{}]
+  );
+  return job.runs.flatMap((run, r) => {
+    const base: JobConfiguration = { ...DEFAULT_JOB_CONFIGURATION, ...job.defaults, ...run };
+    const baseName = run.name ?? (job.runs.length > 1 ? `${job.name}-${r + 1}` : job.name);
+    return combinations.map((combination, c) => ({
+      ...base,
+      ...combination,
+      name: combinations.length > 1 ? `${baseName}#${c + 1}` : baseName,
+    }));
+  });
+};
+
+/**
+ * Runs one configuration: energy budget and encircled energy, plus the in-plane curve on request.
+ */
+export const runConfiguration = (
+  configuration: JobConfiguration,
+  materials: MaterialData[] = [],
+  includeCurve: boolean = false
+): JobResult => {
+  const { ra, wavelength, incidentAngle, modelType, slopeFactor } = configuration;
+  const { reflectivity: reflectance, options } = scatteringRequestFor(configuration, materials);
+  const phaseFactor = calculatePhaseFactor(ra, wavelength, incidentAngle);
+  const { e50, e90, e99, budget } = calculateEnergyConcentration(ra, wavelength, incidentAngle, modelType, reflectance, slopeFactor, options);
+  return {
+    configuration,
+    activeModel: resolveActiveModel(modelType, phaseFactor),
+    phaseFactor,
+    budget,
+    e50,
+    e90,
+    e99,
+    ...(includeCurve
+      ? { curve: calculateScattering(ra, wavelength, incidentAngle, modelType, configuration.step, reflectance, slopeFactor, options) }
+      : {}),
+  };
+};
+
+export const runJob = (
+  job: ScatteringJob,
+  materials: MaterialData[] = [],
+  onProgress?: (done: number, total: number) => void
+): JobResult[] => {
+  const configurations = expandJob(job);
+  return configurations.map((configuration, i) => {
+    const result = runConfiguration(configuration, materials, job.output.curves);
+    onProgress?.(i + 1, configurations.length);
+    return result;
+  });
+};
+
+// Outermost layer first, e.g. "tio2:0.0519/sio2:0.0942 (correlated)"; empty for bare surfaces.
+const describeCoating = (coating: CoatingStack) =>
+  coating.layers.length ? `${coating.layers.map(l => `${l.material}:${l.thickness}`).join('/')} (${coating.correlation})` : '';
+
+// e.g. "scallop:20/0.2@90" (profile:period/depth@lay angle); empty without tool marks.
+const describeMachining = (machining: MachiningTexture) =>
+  machining.enabled ? `${machining.profile}:${machining.period}/${machining.depth}@${machining.layAngle}` : '';
+
+const csvField = (value: string | number) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * One row per configuration: inputs (coating as material:thickness per layer, tool marks as profile:period/depth@lay), active model, phase factor, energy budget and encircled energy.
+ * `reflectivity` is only filled for the manual material; otherwise `fresnelR` holds the reflectance used.
+ */
+export const formatJobSummaryCSV = (results: JobResult[]) => {
+  const header = [
+    'name', 'material', 'modelType', 'activeModel', 'ra_um', 'wavelength_um', 'incidentAngle_deg', 'reflectivity',
+    'slopeFactor', 'psdModel', 'correlationLength_um', 'psdExponent', 'anisotropy', 'seed', 'polarization', 'coating',
+    'microfacetGamma', 'multipleScattering', 'machining', 'g', 'fresnelR', 'specular', 'diffuse', 'hemispherical', 'tis', 'clamped', 'e50_deg', 'e90_deg', 'e99_deg',
+  ];
+  const rows = results.map(({ configuration: c, activeModel, phaseFactor, budget, e50, e90, e99 }) => [
+    c.name, c.material, c.modelType, activeModel, c.ra, c.wavelength, c.incidentAngle, c.material === MANUAL_MATERIAL_ID ? c.reflectivity : '',
+    c.slopeFactor, c.psdModel, c.correlationLength, c.psdExponent, c.anisotropy, c.seed, c.polarization, describeCoating(c.coating),
+    c.microfacetGamma, c.multipleScattering ? 1 : 0, describeMachining(c.machining), phaseFactor.toExponential(6), budget.fresnel.toExponential(6), budget.specular.toExponential(6),
+    budget.diffuse.toExponential(6), budget.hemispherical.toExponential(6), budget.tis.toExponential(6),
+    budget.clamped ? 1 : 0, e50, e90, e99,
+  ].map(csvField).join(','));
+  return [header.join(','), ...rows].join('\n');
+};
+
+/**
+ * In-plane curves in long format (name, angle, BRDF, BRDF·cosθs), for results run with curves.
+ */
+export const formatJobCurvesCSV = (results: JobResult[]) => {
+  const rows = results.flatMap(({ configuration, curve = [] }) =>
+    curve.map(d => [
+      csvField(configuration.name),
+      d.angle.toFixed(4),
+      d.intensity.toExponential(8),
+      (d.intensity * Math.cos(d.angle * DEG)).toExponential(8),
+    ].join(','))
+  );
+  return ['name,Angle(deg),BRDF(1/sr),BRDFcos(1/sr)', ...rows].join('\n');
+};
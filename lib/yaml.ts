@@ -0,0 +1,204 @@
+/**
+ * Reader for the block-style YAML subset used by job files: nested mappings and sequences by
+ * indentation, `- key: value` list items, inline `[a, b]` / `{a: 1}` collections, quoted and
+ * plain scalars and `#` comments. Anchors, tags and multi-line strings are not supported.
+ */
+
+interface Line {
+  indent: number;
+  text: string;
+  number: number; // 1-based, for error messages
+}
+
+const fail = (line: Line | undefined, message: string): never => {
+  throw new Error(line ? `YAML line ${line.number}: ${message}` : `YAML: ${message}`);
+};
+
+const stripComment = (text: string) => {
+  let quote: string | null = null;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quote) {
+      if (c === '\\' && quote === '"') i++;
+      else if (c === quote) quote = null;
+    } else if (c === '"' || c === "'") {
+      quote = c;
+    } else if (c === '#' && (i === 0 || /\s/.test(text[i - 1]))) {
+      return text.slice(0, i);
+    }
+  }
+  return text;
+};
+
+const parseScalar = (raw: string, line?: Line): unknown => {
+  const text = raw.trim();
+  if (text === '' || text === '~' || text === 'null') return null;
+  if (text === 'true') return true;
+  if (text === 'false') return false;
+  if (text.startsWith('"')) {
+    try {
+      return JSON.parse(text);
+    } catch {
+      return fail(line, `bad double-quoted string ${text}`);
+    }
+  }
+  if (text.startsWith("'")) {
+    if (!text.endsWith("'") || text.length < 2) fail(line, `unterminated string ${text}`);
+    return text.slice(1, -1).replace(/''/g, "'");
+  }
+  if (/^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/.test(text)) return Number(text);
+  return text;
+};
+
+/**
+ * Inline `[…]` and `{…}` collections, possibly nested.
+ */
+const parseFlow = (text: string, line: Line): unknown => {
+  let pos = 0;
+  const skip = () => {
+    while (pos < text.length && /\s/.test(text[pos])) pos++;
+  };
+  const plain = (stops: string) => {
+    const start = pos;
+    let quote: string | null = null;
+    while (pos < text.length) {
+      const c = text[pos];
+      if (quote) {
+        if (c === quote) quote = null;
+      } else if (c === '"' || c === "'") {
+        quote = c;
+      } else if (stops.includes(c)) {
+        break;
+      }
+      pos++;
+    }
+    return text.slice(start, pos);
+  };
+  const value = (): unknown => {
+    skip();
+    if (text[pos] === '[') {
+      pos++;
+      const items: unknown[] = [];
+      skip();
+      if (text[pos] === ']') {
+        pos++;
+        return items;
+      }
+      for (;;) {
+        items.push(value());
+        skip();
+        if (text[pos] === ',') pos++;
+        else if (text[pos] === ']') {
+          pos++;
+          return items;
+        } else fail(line, 'expected , or ] in inline list');
+      }
+    }
+    if (text[pos] === '{') {
+      pos++;
+      const map: Record<string, unknown> = {};
+      skip();
+      if (text[pos] === '}') {
+        pos++;
+        return map;
+      }
+      for (;;) {
+        skip();
+        const key = String(parseScalar(plain(':,}'), line));
+        if (text[pos] !== ':') fail(line, 'expected : in inline mapping');
+        pos++;
+        map[key] = value();
+        skip();
+        if (text[pos] === ',') pos++;
+        else if (text[pos] === '}') {
+          pos++;
+          return map;
+        } else fail(line, 'expected , or } in inline mapping');
+      }
+    }
+    return parseScalar(plain(',]}'), line);
+  };
+  const result = value();
+  skip();
+  if (pos < text.length) fail(line, `unexpected text after inline collection: ${text.slice(pos)}`);
+  return result;
+};
+
+const parseValue = (text: string, line: Line) =>
+  text.startsWith('[') || text.startsWith('{') ? parseFlow(text, line) : parseScalar(text, line);
+
+/** Splits `key: value` at the first colon followed by a space or the end of the line. */
+const splitKey = (text: string): [string, string] | null => {
+  const match = text.match(/^("[^"]*"|'[^']*'|[^:]+?)\s*:(\s+|$)(.*)$/);
+  if (!match) return null;
+  return [String(parseScalar(match[1])), match[3]];
+};
+
+export const parseYAML = (source: string): unknown => {
+  const lines: Line[] = [];
+  source.split(/\r?\n/).forEach((raw, i) => {
+    if (raw.includes('\t') && /^\s*\t/.test(raw)) fail({ indent: 0, text: raw, number: i + 1 }, 'tabs are not allowed for indentation');
+    const text = stripComment(raw).trimEnd();
+    if (!text.trim() || text.trim() === '---') return;
+    lines.push({ indent: text.length - text.trimStart().length, text: text.trimStart(), number: i + 1 });
+  });
+  if (lines.length === 0) return null;
+
+  let index = 0;
+
+  const parseBlock = (indent: number): unknown => {
+    const first = lines[index];
+    return first.text === '-' || first.text.startsWith('- ') ? parseSequence(indent) : parseMapping(indent);
+  };
+
+  // Value after `key:` or `-`: inline on the same line, or a nested block on the following lines.
+  const nested = (rest: string, line: Line, parentIndent: number, allowSameIndentList: boolean): unknown => {
+    if (rest.trim()) return parseValue(rest.trim(), line);
+    const next = lines[index];
+    if (next && next.indent > parentIndent) return parseBlock(next.indent);
+    if (next && allowSameIndentList && next.indent === parentIndent && (next.text === '-' || next.text.startsWith('- '))) {
+      return parseSequence(parentIndent);
+    }
+    return null;
+  };
+
+  const parseMapping = (indent: number): Record<string, unknown> => {
+    const map: Record<string, unknown> = {};
+    while (index < lines.length && lines[index].indent === indent) {
+      const line = lines[index];
+      if (line.text.startsWith('- ') || line.text === '-') break;
+      const pair = splitKey(line.text);
+      if (!pair) fail(line, `expected "key: value", got "${line.text}"`);
+      const [key, rest] = pair!;
+      if (key in map) fail(line, `duplicate key "${key}"`);
+      index++;
+      map[key] = nested(rest, line, indent, true);
+    }
+    if (index < lines.length && lines[index].indent > indent) fail(lines[index], 'unexpected indentation');
+    return map;
+  };
+
+  const parseSequence = (indent: number): unknown[] => {
+    const items: unknown[] = [];
+    while (index < lines.length && lines[index].indent === indent && (lines[index].text === '-' || lines[index].text.startsWith('- '))) {
+      const line = lines[index];
+      const rest = line.text.slice(1).trimStart();
+      const pair = rest.startsWith('[') || rest.startsWith('{') || /^["']/.test(rest) ? null : splitKey(rest);
+      if (pair) {
+        // `- key: value` opens a mapping whose keys line up with the first one.
+        const itemIndent = indent + (line.text.length - rest.length);
+        lines[index] = { ...line, indent: itemIndent, text: rest };
+        items.push(parseMapping(itemIndent));
+      } else {
+        index++;
+        items.push(nested(rest, line, indent, false));
+      }
+    }
+    if (index < lines.length && lines[index].indent > indent) fail(lines[index], 'unexpected indentation');
+    return items;
+  };
+
+  const result = parseBlock(lines[0].indent);
+  if (index < lines.length) fail(lines[index], 'unexpected indentation');
+  return result;
+};
@@ -0,0 +1,34 @@
+// Runs the example job of README.md through the built CLI (`npm run check:readme`), so the
+// documented YAML keeps validating and running as the job schema grows.
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { dirname, join, resolve } from 'node:path';
+import { spawnSync } from 'node:child_process';
+import { fileURLToPath } from 'node:url';
+import { BUILTIN_MATERIALS, parseYAML } from '../dist-lib/index.js';
+
+const root = resolve(dirname(fileURLToPath(import.meta.url)), '..');
+const readme = readFileSync(join(root, 'README.md'), 'utf8');
+const example = readme.match(/```yaml\n([\s\S]*?)```/)?.[1];
+if (!example) throw new Error('README.md has no YAML job example');
+
+const dir = mkdtempSync(join(tmpdir(), 'alurough-readme-'));
+try {
+  const jobPath = join(dir, 'job.yaml');
+  writeFileSync(jobPath, example);
+  // The n,k tables the example refers to stand in as a built-in table.
+  const table = BUILTIN_MATERIALS[0].table.map(p => `${p.wavelength},${p.n},${p.k}`).join('\n');
+  for (const file of Object.values(parseYAML(example).materials ?? {})) writeFileSync(join(dir, file), table);
+
+  const cli = (...args) => spawnSync(process.execPath, [join(root, 'dist-lib/cli.js'), ...args], { encoding: 'utf8' });
+  const validated = cli('validate', jobPath);
+  if (validated.status !== 0) throw new Error(`README job does not validate:\n${validated.stderr}`);
+  const total = Number(validated.stdout.match(/OK, (\d+) configuration/)?.[1]);
+  const ran = cli('run', jobPath, '--quiet', '--out', join(dir, 'results'));
+  if (ran.status !== 0) throw new Error(`README job failed to run:\n${ran.stderr}`);
+  const rows = readFileSync(join(dir, 'results.summary.csv'), 'utf8').trim().split('\n').length - 1;
+  if (rows !== total) throw new Error(`README job wrote ${rows} summary rows, expected ${total}`);
+  console.log(`README job: OK, ${total} configurations`);
+} finally {
+  rmSync(dir, { recursive: true, force: true });
+}
@@ -0,0 +1,160 @@
+import { AIAnalysisResult, AnalysisInput, AnalysisProviderId, AnalysisProviderSettings, PhysicalRegime } from '../types';
+import { explainScattering } from '../utils/analysis';
+import { DEFAULT_GEMINI_MODEL, requestGeminiAnalysis } from './geminiService';
+
+export interface AnalysisProvider {
+  id: AnalysisProviderId;
+  label: string;
+  defaultModel: string; // Empty when the provider takes no model
+  analyze: (input: AnalysisInput, settings: AnalysisProviderSettings) => Promise<AIAnalysisResult>;
+}
+
+/** Analyses kept per provider and input, least recently used evicted first. */
+const CACHE_SIZE = 32;
+
+const REGIMES: PhysicalRegime[] = ['Specular', 'Diffractive', 'Diffuse'];
+
+export const DEFAULT_ANALYSIS_ENDPOINT = 'http://localhost:11434/v1';
+
+/**
+ * Prompt grounded on the simulation: the model is asked to explain the computed numbers,
+ * not to estimate them, and to answer with the result schema as JSON.
+ */
+export const buildAnalysisPrompt = (input: AnalysisInput) => {
+  const { params, energy, lobe } = input;
+  const budget = energy.budget;
+  const coating = params.coating.layers.length
+    ? params.coating.layers.map(l => `${l.material} ${(l.thickness * 1000).toFixed(1)} nm`).join(' / ')
+    : 'none';
+  return `Explain the light scattering of a rough surface from the simulation results below. Quote these numbers; do not re-estimate them.
+
+Surface and illumination:
+- Material: ${input.materialName}; coating: ${coating}
+- Roughness Ra: ${(params.ra * 1000).toFixed(4)} nm (σ = 1.25·Ra = ${(params.ra * 1250).toFixed(4)} nm)
+- Wavelength λ: ${(params.wavelength * 1000).toFixed(2)} nm; angle of incidence: ${params.incidentAngle}°
+- PSD: ${params.psdModel}, correlation length ${params.correlationLength} μm, exponent ${params.psdExponent}, anisotropy ℓy/ℓx = ${params.anisotropy}
+- Machining marks: ${params.machining.enabled ? `${params.machining.profile} profile, period ${params.machining.period} μm, depth ${(params.machining.depth * 1000).toFixed(1)} nm, lay ${params.machining.layAngle}° from the plane of incidence (coherent light split into grating orders)` : 'none'}
+
+Simulation outputs:
+- Rayleigh phase factor g = (4πσ cosθi/λ)² = ${input.phaseFactor.toExponential(4)}; regime from g: ${input.computedRegime}
+- Scattering model in use: ${input.activeModel} (selected: ${params.modelType})
+- Reflectance R = ${input.reflectance.toFixed(5)}; specular ${budget.specular.toExponential(4)}, diffuse ${budget.diffuse.toExponential(4)}, TIS ${budget.tis.toExponential(4)}${budget.clamped ? ' (diffuse clamped to R)' : ''}
+- Energy within ±${energy.e50.toFixed(3)}° / ±${energy.e90.toFixed(3)}° / ±${energy.e99.toFixed(3)}° of specular: 50 % / 90 % / 99 %
+- In-plane BRDF peak ${lobe.peakBRDF.toExponential(4)} sr⁻¹ at ${lobe.peakAngle.toFixed(3)}°, FWHM ${lobe.fwhm.toFixed(3)}°
+- BRDF samples (θs: sr⁻¹): ${lobe.samples.map(s => `${s.angle}°: ${s.brdf.toExponential(3)}`).join(', ')}
+
+Reply with a JSON object with the string fields modelName (the governing scattering theory), description (one sentence), mathematicalDistribution (the governing formula), physicalRegime (exactly one of ${REGIMES.join(', ')}) and details (a paragraph explaining the numbers above). Write description and details in Chinese.`;
+};
+
+/** Validates a provider's JSON reply against the result schema; code fences around it are tolerated. */
+export const parseAnalysisResponse = (text: string): AIAnalysisResult => {
+  const body = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  let raw: unknown;
+  try {
+    raw = JSON.parse(body);
+  } catch {
+    throw new Error('分析结果不是有效的 JSON');
+  }
+  if (!raw || typeof raw !== 'object') throw new Error('分析结果不是 JSON 对象');
+  const record = raw as Record<string, unknown>;
+  for (const field of ['modelName', 'description', 'mathematicalDistribution', 'physicalRegime', 'details']) {
+    if (typeof record[field] !== 'string') throw new Error(`分析结果缺少字段 ${field}`);
+  }
+  const regime = REGIMES.find(r => r.toLowerCase() === (record.physicalRegime as string).trim().toLowerCase());
+  if (!regime) throw new Error(`未知的 physicalRegime: ${record.physicalRegime}`);
+  return {
+    modelName: record.modelName as string,
+    description: record.description as string,
+    mathematicalDistribution: record.mathematicalDistribution as string,
+    physicalRegime: regime,
+    details: record.details as string,
+  };
+};
+
+/** Chat completion against any OpenAI-compatible server (Ollama, llama.cpp, vLLM, LM Studio…). */
+const requestOpenAICompatible = async (prompt: string, settings: AnalysisProviderSettings) => {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (settings.apiKey) headers.Authorization = `Bearer ${settings.apiKey}`;
+  let response: Response;
+  try {
+    response = await fetch(`${settings.endpoint.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: settings.model,
+        temperature: 0,
+        response_format: { type: 'json_object' },
+        messages: [
+          { role: 'system', content: 'You are an optical scattering physicist. Answer with a single JSON object only.' },
+          { role: 'user', content: prompt },
+        ],
+      }),
+    });
+  } catch (err) {
+    throw new Error(`无法连接 ${settings.endpoint}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  if (!response.ok) throw new Error(`${settings.endpoint} 返回 HTTP ${response.status}`);
+  const json = await response.json() as { choices?: { message?: { content?: string } }[] };
+  const content = json.choices?.[0]?.message?.content;
+  if (typeof content !== 'string') throw new Error('响应中没有 choices[0].message.content');
+  return content;
+};
+
+export const ANALYSIS_PROVIDERS: AnalysisProvider[] = [
+  {
+    id: 'gemini',
+    label: 'Gemini (云端)',
+    defaultModel: DEFAULT_GEMINI_MODEL,
+    analyze: async (input, settings) => parseAnalysisResponse(await requestGeminiAnalysis(buildAnalysisPrompt(input), settings.model || DEFAULT_GEMINI_MODEL)),
+  },
+  {
+    id: 'openai-compatible',
+    label: '本地 OpenAI 兼容',
+    defaultModel: 'llama3.1',
+    analyze: async (input, settings) => parseAnalysisResponse(await requestOpenAICompatible(buildAnalysisPrompt(input), settings)),
+  },
+  {
+    id: 'rules',
+    label: '离线规则',
+    defaultModel: '',
+    analyze: async (input) => explainScattering(input),
+  },
+];
+
+export const findAnalysisProvider = (id: AnalysisProviderId) => {
+  const provider = ANALYSIS_PROVIDERS.find(p => p.id === id);
+  if (!provider) throw new Error(`未知的分析后端: ${id}`);
+  return provider;
+};
+
+/** Cloud analysis when a Gemini key is configured, otherwise the offline rules. */
+export const DEFAULT_ANALYSIS_SETTINGS: AnalysisProviderSettings = process.env.API_KEY
+  ? { provider: 'gemini', endpoint: DEFAULT_ANALYSIS_ENDPOINT, model: DEFAULT_GEMINI_MODEL, apiKey: '' }
+  : { provider: 'rules', endpoint: DEFAULT_ANALYSIS_ENDPOINT, model: '', apiKey: '' };
+
+/**
+ * Analysis front end with a response cache per provider, endpoint, model and input, so
+ * returning to a parameter set shows its earlier answer without another request.
+ */
+export const createAnalysisService = () => {
+  const cache = new Map<string, AIAnalysisResult>();
+
+  const analyze = async (input: AnalysisInput, settings: AnalysisProviderSettings) => {
+    const provider = findAnalysisProvider(settings.provider);
+    const key = JSON.stringify([settings.provider, settings.provider === 'openai-compatible' ? settings.endpoint : '', settings.model, input]);
+    const hit = cache.get(key);
+    if (hit) {
+      cache.delete(key);
+      cache.set(key, hit);
+      return { result: hit, cached: true };
+    }
+    const result = await provider.analyze(input, settings);
+    cache.set(key, result);
+    if (cache.size > CACHE_SIZE) cache.delete(cache.keys().next().value!);
+    return { result, cached: false };
+  };
+
+  return { analyze, clear: () => cache.clear() };
+};
+
+export const analysisService = createAnalysisService();
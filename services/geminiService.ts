@@ -1,27 +1,14 @@
-
 import { GoogleGenAI, Type } from "@google/genai";
-import { SurfaceParameters, AIAnalysisResult } from "../types";
-
-export const analyzeSurfaceModel = async (params: SurfaceParameters): Promise<AIAnalysisResult> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  
-  const raInNm = params.ra * 1000;
-  const lambdaInNm = params.wavelength * 1000;
 
-  const prompt = `Analyze the surface roughness scattering for an Aluminum alloy.
-  Parameters:
-  - Roughness (Ra): ${raInNm.toFixed(4)} nm (${params.ra.toFixed(7)} μm)
-  - Wavelength (λ): ${lambdaInNm.toFixed(2)} nm
-  - Angle of incidence: ${params.incidentAngle}°
-  - Selected Model Type: ${params.modelType}
+export const DEFAULT_GEMINI_MODEL = 'gemini-3-pro-preview';
 
-  The Ra ranges from ultra-precision (0.001nm) to industrial (3.2μm). The wavelength is in the UV-VIS-NIR range (0-2000nm).
-  Identify the interaction regime (e.g., Smooth/Specular vs Rough/Diffuse). 
-  Reference specific theories like Rayleigh-Rice (perturbation) for small Ra/λ and Beckmann-Spizzichino for large Ra/λ.
-  Explain how Aluminum's reflectivity and this specific roughness profile will distribute the scattered energy.`;
+/** Sends an analysis prompt to Gemini with the result schema enforced; returns the raw JSON text. */
+export const requestGeminiAnalysis = async (prompt: string, model: string = DEFAULT_GEMINI_MODEL): Promise<string> => {
+  if (!process.env.API_KEY) throw new Error('未配置 GEMINI_API_KEY，请改用本地模型或离线规则');
+  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
 
   const response = await ai.models.generateContent({
-    model: 'gemini-3-pro-preview',
+    model,
     contents: prompt,
     config: {
       responseMimeType: "application/json",
@@ -31,7 +18,7 @@ export const analyzeSurfaceModel = async (params: SurfaceParameters): Promise<AI
           modelName: { type: Type.STRING },
           description: { type: Type.STRING },
           mathematicalDistribution: { type: Type.STRING },
-          physicalRegime: { type: Type.STRING },
+          physicalRegime: { type: Type.STRING, enum: ['Specular', 'Diffractive', 'Diffuse'] },
           details: { type: Type.STRING }
         },
         required: ["modelName", "description", "mathematicalDistribution", "physicalRegime", "details"]
@@ -39,9 +26,6 @@ export const analyzeSurfaceModel = async (params: SurfaceParameters): Promise<AI
     }
   });
 
-  try {
-    return JSON.parse(response.text) as AIAnalysisResult;
-  } catch (e) {
-    throw new Error("Failed to parse AI response");
-  }
+  if (!response.text) throw new Error('Gemini 返回了空响应');
+  return response.text;
 };
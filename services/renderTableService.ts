@@ -0,0 +1,104 @@
+import { RenderBRDFTable } from '../types';
+import { ScatterSetup, tabulateRenderBRDF } from '../utils/bsdfFormats';
+
+export interface RenderTableRequest {
+  id: number;
+  setup: ScatterSetup;
+}
+
+export type RenderTableResponse = { id: number; table: RenderBRDFTable } | { id: number; error: string };
+
+/** Tables kept per setup, least recently used evicted first. */
+const CACHE_SIZE = 8;
+
+/**
+ * Computes the 3D view's BRDF tables on a worker of their own, so a table taking seconds
+ * never holds up the in-plane curves. Only the latest setup matters: cancelling terminates
+ * the worker with its job. Without worker support the table is computed on the main thread.
+ */
+export const createRenderTableService = () => {
+  const cache = new Map<string, RenderBRDFTable>();
+  let worker: Worker | null = null;
+  let workersAvailable = typeof Worker !== 'undefined';
+  let nextId = 1;
+
+  const remember = (key: string, table: RenderBRDFTable) => {
+    cache.delete(key);
+    cache.set(key, table);
+    if (cache.size > CACHE_SIZE) cache.delete(cache.keys().next().value!);
+  };
+
+  const spawn = () => {
+    try {
+      return new Worker(new URL('../workers/renderTableWorker.ts', import.meta.url), { type: 'module' });
+    } catch {
+      workersAvailable = false;
+      return null;
+    }
+  };
+
+  /**
+   * Delivers the table of the setup, at once when cached. Returns the cancel function,
+   * suitable as an effect cleanup.
+   */
+  const run = (setup: ScatterSetup, onResult: (table: RenderBRDFTable) => void, onError: (err: Error) => void) => {
+    const key = JSON.stringify(setup);
+    const cached = cache.get(key);
+    if (cached) {
+      remember(key, cached);
+      onResult(cached);
+      return () => {};
+    }
+    const id = nextId++;
+    let active = true;
+    const finish = (response: RenderTableResponse) => {
+      if (!active) return;
+      active = false;
+      if ('error' in response) {
+        onError(new Error(response.error));
+      } else {
+        remember(key, response.table);
+        onResult(response.table);
+      }
+    };
+    const runOnMainThread = () => setTimeout(() => {
+      if (!active) return;
+      try {
+        finish({ id, table: tabulateRenderBRDF(setup) });
+      } catch (err) {
+        finish({ id, error: err instanceof Error ? err.message : String(err) });
+      }
+    }, 0);
+
+    if (workersAvailable && !worker) worker = spawn();
+    if (!worker) {
+      runOnMainThread();
+    } else {
+      const current = worker;
+      current.onmessage = (e: MessageEvent<RenderTableResponse>) => {
+        if (e.data.id === id) finish(e.data);
+      };
+      // Task errors come back as messages; an error event means the script failed to load.
+      current.onerror = (e: ErrorEvent) => {
+        e.preventDefault();
+        current.terminate();
+        worker = null;
+        workersAvailable = false;
+        runOnMainThread();
+      };
+      const request: RenderTableRequest = { id, setup };
+      current.postMessage(request);
+    }
+
+    return () => {
+      if (!active) return;
+      active = false;
+      worker?.terminate();
+      worker = null;
+    };
+  };
+
+  return { run };
+};
+
+export const renderTableService = createRenderTableService();
@@ -0,0 +1,218 @@
+import { ScatteringData, ScatteringQuality, ScatteringRequest, ScatteringTask, ScatteringTaskResults } from '../types';
+import { ScatteringTaskResult, evaluateScatteringTask } from '../workers/scatteringTask';
+
+export interface WorkerRequest {
+  id: number;
+  task: ScatteringTask;
+}
+
+export type WorkerResponse = { id: number; result: ScatteringTaskResult } | { id: number; error: string };
+
+type TaskOf<K extends ScatteringTask['kind']> = Extract<ScatteringTask, { kind: K }>;
+
+interface Task extends WorkerRequest {
+  channel: string;
+  key: string;
+  resolve: (result: ScatteringTaskResult | null) => void;
+  reject: (err: Error) => void;
+}
+
+interface Slot {
+  worker: Worker;
+  task: Task | null;
+}
+
+/** Results kept per task, least recently used evicted first. */
+const CACHE_SIZE = 48;
+
+const cacheKey = (task: ScatteringTask) => JSON.stringify(task);
+
+/**
+ * Pool of scattering workers: in-plane curves and the derived views (polarized curve,
+ * hemisphere, energy statistics, appearance). Every job belongs to a channel (e.g. the main BRDF chart);
+ * cancelling a channel drops its queued jobs and terminates the workers running its stale
+ * ones, and their promises resolve to null. Without worker support, jobs run on the main
+ * thread after a macrotask so the busy state can paint first.
+ */
+export const createScatteringPool = (size: number = Math.max(1, Math.min(4, (globalThis.navigator?.hardwareConcurrency ?? 2) - 1))) => {
+  const slots: Slot[] = [];
+  const queue: Task[] = [];
+  const cache = new Map<string, ScatteringTaskResult>();
+  let nextId = 1;
+  let workersAvailable = typeof Worker !== 'undefined';
+
+  const remember = (key: string, result: ScatteringTaskResult) => {
+    cache.delete(key);
+    cache.set(key, result);
+    if (cache.size > CACHE_SIZE) cache.delete(cache.keys().next().value!);
+  };
+
+  const settle = (task: Task, response: WorkerResponse) => {
+    if ('error' in response) {
+      task.reject(new Error(response.error));
+    } else {
+      remember(task.key, response.result);
+      task.resolve(response.result);
+    }
+  };
+
+  const retire = (slot: Slot) => {
+    slot.worker.terminate();
+    slots.splice(slots.indexOf(slot), 1);
+  };
+
+  const spawn = (): Slot | null => {
+    let worker: Worker;
+    try {
+      worker = new Worker(new URL('../workers/scatteringWorker.ts', import.meta.url), { type: 'module' });
+    } catch {
+      workersAvailable = false;
+      return null;
+    }
+    const slot: Slot = { worker, task: null };
+    worker.onmessage = (e: MessageEvent<WorkerResponse>) => {
+      const task = slot.task;
+      if (!task || task.id !== e.data.id) return;
+      slot.task = null;
+      settle(task, e.data);
+      pump();
+    };
+    // Task errors come back as messages, so an error event means the worker script itself
+    // failed to load: fall back to the main thread and retry the task there.
+    worker.onerror = (e: ErrorEvent) => {
+      e.preventDefault();
+      const task = slot.task;
+      retire(slot);
+      workersAvailable = false;
+      if (task) queue.unshift(task);
+      pump();
+    };
+    slots.push(slot);
+    return slot;
+  };
+
+  const runOnMainThread = (task: Task) => {
+    setTimeout(() => {
+      if (!queue.includes(task)) return; // Cancelled while waiting
+      queue.splice(queue.indexOf(task), 1);
+      try {
+        settle(task, { id: task.id, result: evaluateScatteringTask(task.task) });
+      } catch (err) {
+        settle(task, { id: task.id, error: err instanceof Error ? err.message : String(err) });
+      }
+    }, 0);
+  };
+
+  const pump = () => {
+    while (queue.length > 0) {
+      if (!workersAvailable) {
+        queue.forEach(runOnMainThread);
+        return;
+      }
+      const slot = slots.find(s => !s.task) ?? (slots.length < size ? spawn() : null);
+      if (!slot) return;
+      const task = queue.shift()!;
+      slot.task = task;
+      const message: WorkerRequest = { id: task.id, task: task.task };
+      slot.worker.postMessage(message);
+    }
+  };
+
+  /**
+   * Evaluates the task on the given channel; resolves to null if the channel is cancelled first.
+   */
+  const runTask = <K extends ScatteringTask['kind']>(channel: string, task: TaskOf<K>): Promise<ScatteringTaskResults[K] | null> => {
+    const key = cacheKey(task);
+    const cached = cache.get(key);
+    if (cached) {
+      remember(key, cached);
+      return Promise.resolve(cached as ScatteringTaskResults[K]);
+    }
+    return new Promise((resolve, reject) => {
+      queue.push({
+        id: nextId++,
+        channel,
+        key,
+        task,
+        resolve: result => resolve(result as ScatteringTaskResults[K] | null),
+        reject,
+      });
+      pump();
+    });
+  };
+
+  /** In-plane curve of the request at the given quality. */
+  const run = (channel: string, request: ScatteringRequest, quality: ScatteringQuality) =>
+    runTask(channel, { kind: 'curve', request, quality });
+
+  const cancel = (channel: string) => {
+    for (const task of queue.filter(t => t.channel === channel)) {
+      queue.splice(queue.indexOf(task), 1);
+      task.resolve(null);
+    }
+    for (const slot of slots.filter(s => s.task?.channel === channel)) {
+      const task = slot.task!;
+      retire(slot);
+      task.resolve(null);
+    }
+    pump();
+  };
+
+  /**
+   * Cancels whatever the channel was computing, then delivers a coarse preview followed by the
+   * full-precision adaptive curve (or the cached curve straight away). Returns the cancel function,
+   * suitable as an effect cleanup.
+   */
+  const runProgressive = (
+    channel: string,
+    request: ScatteringRequest,
+    onResult: (data: ScatteringData[], quality: ScatteringQuality) => void,
+    onError: (err: Error) => void
+  ) => {
+    cancel(channel);
+    let active = true;
+    let refined = false;
+    const cached = cache.get(cacheKey({ kind: 'curve', request, quality: 'adaptive' }));
+    if (cached) {
+      onResult(cached as ScatteringData[], 'adaptive');
+      return () => { active = false; };
+    }
+    run(channel, request, 'preview').then(data => {
+      if (active && data && !refined) onResult(data, 'preview');
+    }, err => active && onError(err));
+    run(channel, request, 'adaptive').then(data => {
+      if (!active || !data) return;
+      refined = true;
+      onResult(data, 'adaptive');
+    }, err => active && onError(err));
+    return () => {
+      active = false;
+      cancel(channel);
+    };
+  };
+
+  /**
+   * Cancels whatever the channel was computing and delivers the result of the task (at once
+   * when cached). Returns the cancel function, suitable as an effect cleanup.
+   */
+  const runLatest = <K extends ScatteringTask['kind']>(
+    channel: string,
+    task: TaskOf<K>,
+    onResult: (result: ScatteringTaskResults[K]) => void,
+    onError: (err: Error) => void
+  ) => {
+    cancel(channel);
+    let active = true;
+    runTask(channel, task).then(result => {
+      if (active && result) onResult(result);
+    }, err => active && onError(err));
+    return () => {
+      active = false;
+      cancel(channel);
+    };
+  };
+
+  return { run, runTask, cancel, runProgressive, runLatest };
+};
+
+export const scatteringPool = createScatteringPool();
@@ -1,25 +1,546 @@
 
-export type ModelType = 'Auto' | 'Beckmann' | 'Rayleigh-Rice' | 'Harvey-Shack';
+export type ModelType =
+  | 'Auto' | 'Beckmann' | 'Rayleigh-Rice' | 'Harvey-Shack' | 'Kirchhoff-Numerical'
+  | 'Microfacet-Beckmann' | 'Microfacet-GGX' | 'Microfacet-StudentT';
+
+export type PSDModel = 'Gaussian' | 'Exponential' | 'ABC' | 'Fractal';
 
 export interface SurfaceParameters {
-  material: string;
+  material: string; // Material library id, or 'manual' to use the reflectivity slider
   ra: number; // Mean roughness in micrometers
   wavelength: number; // in micrometers
   incidentAngle: number; // in degrees
   modelType: ModelType;
-  reflectivity: number; // 0 to 1
+  reflectivity: number; // 0 to 1, used only for the 'manual' material
   slopeFactor: number; // Microfacet distribution width factor
+  microfacetGamma: number; // Student-t tail parameter γ > 1.5 (2 = GGX, → ∞ Beckmann)
+  multipleScattering: boolean; // Kulla-Conty energy compensation of the microfacet models
+  psdModel: PSDModel; // Surface power spectral density model
+  correlationLength: number; // in micrometers (ABC: B = 2π·ℓ, Fractal: low-frequency cut-off 1/ℓ)
+  psdExponent: number; // ABC falloff C, or fractal spectral index
+  anisotropy: number; // Correlation length ratio ℓy / ℓx (1 = isotropic, x lies in the plane of incidence)
+  seed: number; // Random seed of the synthetic surface
+  polarization: PolarizationState; // Incident polarization
+  stokes: StokesVector; // Incident Stokes vector, used when polarization is 'stokes'
+  coating: CoatingStack; // Thin films on the substrate material (ignored for 'manual')
+  machining: MachiningTexture; // Periodic tool marks on top of the random roughness
+}
+
+export type ToolMarkProfile = 'scallop' | 'sinusoidal' | 'triangular' | 'sawtooth';
+
+/**
+ * Lay of a turned, milled or rolled surface: parallel marks repeating at the feed period.
+ * The random roughness of `ra` and the PSD is superimposed on them.
+ */
+export interface MachiningTexture {
+  enabled: boolean;
+  profile: ToolMarkProfile; // Cross-section of one mark (scallop = circular arc of a round-nosed tool)
+  period: number; // Feed per mark in micrometers
+  depth: number; // Peak-to-valley height of the marks in micrometers
+  layAngle: number; // Direction of the marks from the plane of incidence in degrees (90 = across it)
+}
+
+/** Propagating grating order of a machined surface. */
+export interface DiffractionOrder {
+  order: number;
+  direction: [number, number, number]; // Unit vector, x in the plane of incidence on the specular side
+  efficiency: number; // Share of the coherent reflectance; the orders sum to 1
+}
+
+export type InterfaceCorrelation = 'correlated' | 'uncorrelated';
+
+export interface CoatingLayer {
+  material: string; // Material library id
+  thickness: number; // in micrometers
+  ra: number; // Roughness of the layer's top interface in micrometers
+}
+
+export interface CoatingStack {
+  layers: CoatingLayer[]; // Ambient side first; the substrate is the selected material
+  correlation: InterfaceCorrelation; // Interfaces replicate the substrate profile, or are independent
+}
+
+/** Coating with its layer materials looked up, to be evaluated at any wavelength. */
+export interface ResolvedCoating {
+  layers: { material: MaterialData; thickness: number; ra: number }[];
+  correlation: InterfaceCorrelation;
+}
+
+/** Coating at one wavelength: complex index per layer, ambient side first. */
+export interface FilmStack {
+  layers: { index: RefractiveIndex; thickness: number; ra: number }[];
+  correlation: InterfaceCorrelation;
+}
+
+export type PolarizationState = 'unpolarized' | 's' | 'p' | 'stokes';
+
+export type StokesVector = [number, number, number, number];
+
+export type MuellerMatrix = number[]; // 16 elements, row-major
+
+export interface PolarizedScatteringData {
+  angle: number;
+  ss: number; // s incident → s scattered
+  sp: number; // s incident → p scattered
+  ps: number; // p incident → s scattered
+  pp: number; // p incident → p scattered
+  mueller: MuellerMatrix;
+}
+
+export type PSDSettings = Pick<SurfaceParameters, 'psdModel' | 'correlationLength' | 'psdExponent' | 'anisotropy'>;
+
+export type SynthesisOptions = Partial<PSDSettings> & {
+  seed?: number;
+  spacing?: number; // Sample spacing in micrometers (default ℓ/4)
+};
+
+export interface GeneratedSurface {
+  heights: number[][]; // heights[row][col] in micrometers, rows along y
+  dx: number; // in micrometers
+  dy: number; // in micrometers
+  seed: number;
+}
+
+export interface SurfaceStatistics {
+  ra: number;
+  rq: number;
+  correlationLengthX: number; // 1/e decay length of the autocorrelation along x, micrometers
+  correlationLengthY: number; // 1/e decay length of the autocorrelation along y, micrometers
+}
+
+export interface RefractiveIndex {
+  n: number;
+  k: number;
+}
+
+export interface NKPoint extends RefractiveIndex {
+  wavelength: number; // in micrometers
 }
 
+export interface MaterialData {
+  id: string;
+  name: string;
+  source: 'builtin' | 'user';
+  table: NKPoint[]; // Sorted by wavelength
+}
+
+/**
+ * Optional surface settings consumed by `calculateScattering` beyond its positional arguments.
+ */
+export type ScatteringOptions = Partial<PSDSettings> & {
+  refractiveIndex?: RefractiveIndex; // Enables the Fresnel-based Q factor
+  coating?: FilmStack; // Thin films on the refractiveIndex substrate
+  stokes?: StokesVector; // Incident Stokes vector, unpolarized by default
+  seed?: number; // Surface seed for the numerical Kirchhoff ensemble
+  realizations?: number; // Monte-Carlo realizations for the numerical Kirchhoff model
+  microfacetGamma?: number; // Student-t tail parameter of 'Microfacet-StudentT'
+  multipleScattering?: boolean; // Adds the multiple-scattering lobe to the microfacet models
+  machining?: MachiningTexture; // Tool marks splitting the coherent reflection into grating orders
+};
+
 export interface ScatteringData {
   angle: number;
   intensity: number;
 }
 
+/**
+ * Reflectances relative to the incident power, for the incident polarization.
+ */
+export interface EnergyBudget {
+  fresnel: number; // Specular reflectance R of the smooth surface
+  specular: number; // Coherent (specular) reflectance
+  diffuse: number; // Diffusely scattered reflectance
+  hemispherical: number; // Directional-hemispherical reflectance, specular + diffuse (≤ R)
+  tis: number; // Total integrated scatter, diffuse / hemispherical
+  clamped: boolean; // Diffuse scatter was limited to keep the total within R
+}
+
+export interface EnergyConcentration {
+  e50: number; // Half-angle in degrees around specular holding 50 % of the reflected power
+  e90: number;
+  e99: number;
+  budget: EnergyBudget;
+}
+
+export type PhysicalRegime = 'Specular' | 'Diffractive' | 'Diffuse';
+
 export interface AIAnalysisResult {
   modelName: string;
   description: string;
   mathematicalDistribution: string;
-  physicalRegime: 'Specular' | 'Diffractive' | 'Diffuse';
+  physicalRegime: PhysicalRegime;
   details: string;
 }
+
+export type AnalysisProviderId = 'gemini' | 'openai-compatible' | 'rules';
+
+export interface AnalysisProviderSettings {
+  provider: AnalysisProviderId;
+  endpoint: string; // Base URL of an OpenAI-compatible API, e.g. http://localhost:11434/v1
+  model: string; // Model name for the cloud or local backend
+  apiKey: string; // Bearer token for the OpenAI-compatible backend; empty for none
+}
+
+/**
+ * Simulation outputs an analysis is grounded on, so the explanation quotes the numbers the
+ * app computed rather than estimating them.
+ */
+export interface AnalysisInput {
+  params: SurfaceParameters; // With the effective (measured or slider) Ra
+  materialName: string;
+  phaseFactor: number; // Rayleigh g
+  activeModel: ModelType;
+  computedRegime: PhysicalRegime;
+  reflectance: number; // Fresnel (or coating) reflectance at the incidence
+  energy: EnergyConcentration;
+  lobe: {
+    peakAngle: number; // In-plane angle of the BRDF maximum, degrees
+    peakBRDF: number; // sr⁻¹
+    fwhm: number; // Full width at half maximum around the peak, degrees
+    samples: { angle: number; brdf: number }[]; // Every 15° from −75° to 75°, and 85°
+  };
+}
+
+export interface MeasuredBRDF {
+  name: string;
+  angles: number[]; // In-plane scatter angles in degrees, specular side positive
+  intensity: number[]; // BRDF in sr⁻¹, or any relative scale (absorbed by the fitted reflectivity)
+}
+
+export type FitParameter = 'ra' | 'slopeFactor' | 'reflectivity' | 'correlationLength' | 'psdExponent';
+
+export interface FitParameterEstimate {
+  name: FitParameter;
+  value: number;
+  uncertainty: number; // One standard deviation from the covariance at the optimum
+}
+
+export interface BRDFFitResult {
+  modelType: ModelType;
+  parameters: FitParameterEstimate[];
+  fitted: ScatteringData[]; // Model BRDF at the measured angles
+  residuals: number[]; // log10(model) − log10(measured) per used point
+  rmsLog: number; // RMS of the log10 residuals
+  reducedChiSquared: number; // Sum of squared log residuals / (points − parameters)
+  rSquared: number; // Coefficient of determination in log10 space
+  iterations: number;
+  converged: boolean;
+}
+
+/**
+ * Harvey ABg scatter model: BSDF = A / (B + |β − β0|^g), with β = sinθs and β0 = sinθi.
+ */
+export interface ABgModel {
+  A: number; // sr⁻¹ (with B in the same units)
+  B: number;
+  g: number;
+  wavelength: number; // in micrometers
+  thetaInc: number; // Incidence angle of the fit in degrees
+  rmsLog: number; // RMS log10 residual of the fit
+}
+
+export interface TabulatedBSDF {
+  wavelength: number; // in micrometers
+  incidenceAngles: number[]; // in degrees
+  azimuths: number[]; // Scatter azimuth φs in degrees, 0 = specular side (plane symmetric, 0–180)
+  radials: number[]; // Scatter polar angle θs in degrees
+  tis: number[]; // Diffuse reflectance per incidence angle
+  values: number[][][]; // BRDF in sr⁻¹: values[iIncidence][iAzimuth][iRadial]
+}
+
+export interface MERLBRDF {
+  values: Float64Array; // Red, green and blue blocks of 90 × 90 × 180 stored values
+}
+
+export interface BRDFExchangeFile {
+  format: 'alurough-brdf';
+  version: number;
+  parameters: SurfaceParameters;
+  activeModel: ModelType; // Model evaluated ('Auto' resolved)
+  phaseFactor: number; // Rayleigh phase factor g
+  budget: EnergyBudget;
+  data: ScatteringData[]; // In-plane BRDF in sr⁻¹
+  hemisphere: { thetaStep: number; phiStep: number; nTheta: number; nPhi: number; values: number[] };
+}
+
+export type ImportedBSDF =
+  | { kind: 'abg'; name: string; model: ABgModel }
+  | { kind: 'tabbsdf'; name: string; table: TabulatedBSDF }
+  | { kind: 'merl'; name: string; merl: MERLBRDF }
+  | { kind: 'json'; name: string; file: BRDFExchangeFile };
+
+export interface AppearanceMetrics {
+  gloss20: number; // Specular gloss units (GU) at 20°, ISO 2813 / ASTM D523
+  gloss60: number;
+  gloss85: number;
+  haze: number; // Reflection haze at 20°, ISO 13803 (HU)
+  hazeE430: number; // Narrow-angle reflection haze at 30°, ASTM E430 (HU)
+  doi: number; // Distinctness of image at 30°, ASTM E430 (0–100)
+}
+
+export type SourceSpectrumType = 'flat' | 'blackbody' | 'D65' | 'custom';
+
+export interface SpectrumPoint {
+  wavelength: number; // in micrometers
+  value: number; // Relative spectral power
+}
+
+export interface SourceSpectrum {
+  type: SourceSpectrumType;
+  temperature: number; // Blackbody temperature in kelvin
+  custom?: { name: string; points: SpectrumPoint[] }; // Imported spectrum, sorted by wavelength
+}
+
+export interface SpectralSweepSettings {
+  minWavelength: number; // in micrometers
+  maxWavelength: number; // in micrometers
+  samples: number; // Log-spaced wavelengths in the band
+  angleStep: number; // In-plane angular step in degrees
+}
+
+export interface SpectralSweepResult {
+  wavelengths: number[]; // in micrometers
+  angles: number[]; // Scatter angles in degrees
+  values: Float32Array; // BRDF in sr⁻¹, row-major: values[iWavelength * angles.length + iAngle]
+  budgets: EnergyBudget[]; // One per wavelength
+}
+
+export interface BandAverage {
+  hemispherical: number; // Source-weighted directional-hemispherical reflectance
+  specular: number; // Source-weighted specular reflectance
+  tis: number; // Band diffuse / band hemispherical reflectance
+  specularFraction: number; // Band specular / band hemispherical reflectance
+  brdf: ScatteringData[]; // Source-weighted in-plane BRDF in sr⁻¹
+}
+
+export type MeasurementFormat = 'profile-csv' | 'xyz-grid' | 'sdf' | 'zygo-xyz';
+
+export interface MeasuredProfile {
+  kind: 'profile';
+  format: MeasurementFormat;
+  name: string;
+  x: number[]; // Lateral position in micrometers
+  z: number[]; // Height in micrometers
+}
+
+export interface MeasuredSurface {
+  kind: 'areal';
+  format: MeasurementFormat;
+  name: string;
+  heights: number[][]; // heights[row][col] in micrometers
+  dx: number; // Column spacing in micrometers
+  dy: number; // Row spacing in micrometers
+}
+
+export type MeasuredData = MeasuredProfile | MeasuredSurface;
+
+export interface SurfaceProcessingOptions {
+  level: boolean; // Least-squares line/plane removal
+  formOrder: number; // Polynomial form removal order (0 = off, 2..3)
+  cutoff: number; // Gaussian filter cut-off λc in micrometers (0 = off)
+}
+
+export interface ProfileRoughness {
+  ra: number;
+  rq: number;
+  rsk: number;
+  rku: number;
+  rp: number;
+  rv: number;
+  rz: number;
+}
+
+export interface ArealRoughness {
+  sa: number;
+  sq: number;
+  ssk: number;
+  sku: number;
+  sp: number;
+  sv: number;
+  sz: number;
+}
+
+export interface HemisphericalBRDF {
+  thetaInc: number; // Incidence angle in degrees
+  activeModel: ModelType; // Model actually evaluated ('Auto' resolved)
+  thetaStep: number; // Polar sampling step in degrees
+  phiStep: number; // Azimuthal sampling step in degrees
+  nTheta: number;
+  nPhi: number;
+  values: Float32Array; // Row-major: values[iTheta * nPhi + iPhi]
+  budget: EnergyBudget; // Of the same evaluation
+}
+
+/**
+ * BRDF sampled for the 3D view's shader, plane symmetric: φs runs from the specular side
+ * (0°) to the backscatter side (180°).
+ */
+export interface RenderBRDFTable {
+  incidenceStep: number; // Degrees, incidences 0 … (nIncidence − 1)·incidenceStep
+  thetaStep: number; // Degrees, scatter angles 0 … 90
+  phiStep: number; // Degrees, azimuths 0 … 180
+  nIncidence: number;
+  nTheta: number;
+  nPhi: number;
+  values: Float32Array; // BRDF (sr⁻¹): values[(iIncidence * nTheta + iTheta) * nPhi + iPhi]
+  albedo: Float32Array; // Directional-hemispherical reflectance per incidence
+}
+
+/**
+ * Batch scattering job, as read from a JSON or YAML job file.
+ */
+export type JobParameter =
+  | 'ra' | 'wavelength' | 'incidentAngle' | 'reflectivity' | 'slopeFactor'
+  | 'correlationLength' | 'psdExponent' | 'anisotropy' | 'seed' | 'microfacetGamma';
+
+/** Valid interval of a numeric input; bounds are inclusive unless marked open. */
+export interface NumericRange {
+  min: number;
+  max: number;
+  openMin?: boolean;
+  openMax?: boolean;
+  unit: string;
+}
+
+export type SweepAxis = number[] | { from: number; to: number; samples: number; scale?: 'linear' | 'log' };
+
+export interface JobConfiguration extends SurfaceParameters {
+  name: string;
+  step: number; // In-plane angular resolution in degrees
+}
+
+export interface ScatteringJob {
+  name: string;
+  defaults: Partial<JobConfiguration>;
+  runs: Partial<JobConfiguration>[]; // Base configurations; the sweep is applied to each
+  sweep: Partial<Record<JobParameter, SweepAxis>>; // Cartesian product over the listed axes
+  output: { curves: boolean }; // Include the in-plane BRDF curve of every configuration
+}
+
+export interface JobResult {
+  configuration: JobConfiguration;
+  activeModel: ModelType;
+  phaseFactor: number;
+  budget: EnergyBudget;
+  e50: number;
+  e90: number;
+  e99: number;
+  curve?: ScatteringData[];
+}
+
+/**
+ * Arguments of one in-plane scattering evaluation, as sent to the worker pool.
+ */
+export interface ScatteringRequest {
+  ra: number;
+  wavelength: number;
+  incidentAngle: number;
+  modelType: ModelType;
+  reflectivity: number; // Reflectance at the incidence angle
+  slopeFactor: number;
+  options: ScatteringOptions;
+}
+
+// 'preview': coarse adaptive grid; 'adaptive': full-precision adaptive grid; 'uniform': every 0.001°.
+export type ScatteringQuality = 'preview' | 'adaptive' | 'uniform';
+
+/**
+ * Surface for `calculateAppearanceMetrics` and `calculateSpectralSweep`: everything but the
+ * wavelength and incidence, which the gloss geometries fix and the sweep varies.
+ */
+export interface AppearanceRequest {
+  ra: number;
+  modelType: ModelType;
+  slopeFactor: number;
+  options: ScatteringOptions;
+  material?: MaterialData;
+  reflectivity: number; // Manual reflectivity, used without a material
+  coating?: ResolvedCoating;
+}
+
+/** Evaluation run by the scattering workers. */
+export type ScatteringTask =
+  | { kind: 'curve'; request: ScatteringRequest; quality: ScatteringQuality }
+  | { kind: 'sampled'; request: ScatteringRequest; step: number } // Uniform in-plane curve at a coarser step
+  | { kind: 'polarized'; request: ScatteringRequest; step: number }
+  | { kind: 'hemisphere'; request: ScatteringRequest; thetaStep: number; phiStep: number }
+  | { kind: 'energy'; request: ScatteringRequest }
+  | { kind: 'appearance'; request: AppearanceRequest }
+  | { kind: 'sweep'; request: AppearanceRequest; incidentAngle: number; settings: SpectralSweepSettings };
+
+export interface ScatteringTaskResults {
+  curve: ScatteringData[];
+  sampled: ScatteringData[];
+  polarized: PolarizedScatteringData[];
+  hemisphere: HemisphericalBRDF;
+  energy: EnergyConcentration;
+  appearance: AppearanceMetrics;
+  sweep: SpectralSweepResult;
+}
+
+/**
+ * Pinned parameter set for side-by-side comparison. `params.ra` is the effective Ra at the
+ * time it was pinned (a measured surface replaces the slider value).
+ */
+export interface Scenario {
+  id: string;
+  name: string;
+  color: string;
+  visible: boolean; // Overlaid on the BRDF chart
+  params: SurfaceParameters;
+  summary: { activeModel: ModelType; phaseFactor: number; reflectance: number; energy: EnergyConcentration };
+}
+
+export type ScenarioComparisonMode = 'difference' | 'ratio';
+
+export interface ScenarioSetFile {
+  format: 'alurough-scenarios';
+  version: number;
+  baseline: string; // Scenario id, or 'current'
+  scenarios: Scenario[];
+  materials: MaterialData[]; // User materials referenced by the scenarios
+}
+
+/**
+ * Saved simulation session. The synthetic surface is regenerated from the seed in `params`;
+ * imported measurements are stored as they were read.
+ */
+export interface ProjectFile {
+  format: 'alurough-project';
+  version: number;
+  savedAt: string; // ISO 8601
+  params: SurfaceParameters;
+  materials: MaterialData[]; // User materials
+  measurement: MeasuredData | null;
+  processing: SurfaceProcessingOptions;
+  analysis: AIAnalysisResult | null;
+  scenarios: Scenario[];
+  baseline: string; // Scenario id, or 'current'
+}
+
+/** Everything a customer report shows; the BRDF is absolute (sr⁻¹) against degrees. */
+export interface SimulationReportInput {
+  params: SurfaceParameters; // With the slider Ra, as saved in the project
+  effectiveRa: number; // Ra the simulation used (measured Sa/Ra when a measurement is loaded)
+  materialName: string;
+  measurementName: string | null;
+  activeModel: ModelType;
+  phaseFactor: number;
+  reflectance: number;
+  energy: EnergyConcentration;
+  curve: ScatteringData[];
+  profile: { x: number; y: number }[]; // 1D cross-section, μm
+  surfaceSnapshot: string | null; // PNG data URL of the 3D view
+  analysis: AIAnalysisResult | null;
+  appVersion: string;
+  generatedAt: string; // ISO 8601
+  link: string; // Share link reproducing the parameters
+  project: ProjectFile; // Embedded so the exact session can be reopened
+}
+
+export interface UndoHistory<T> {
+  past: T[]; // Oldest first
+  present: T;
+  future: T[]; // Next redo first
+  committedAt: number; // Time of the last commit in ms, for coalescing rapid changes
+}
@@ -0,0 +1,116 @@
+import { AIAnalysisResult, AnalysisInput, EnergyConcentration, ModelType, PhysicalRegime, ScatteringData, SurfaceParameters } from '../types';
+
+/** Angles quoted in the lobe summary, degrees. */
+const SAMPLE_ANGLES = [-75, -60, -45, -30, -15, 0, 15, 30, 45, 60, 75, 85];
+
+/** Scattering regime of a Rayleigh g, with the thresholds `resolveActiveModel` switches models at. */
+export const classifyRegime = (g: number): PhysicalRegime => {
+  if (g < 0.01) return 'Specular';
+  if (g > 15) return 'Diffuse';
+  return 'Diffractive';
+};
+
+const interpolate = (curve: ScatteringData[], angle: number) => {
+  const hi = curve.findIndex(d => d.angle >= angle);
+  if (hi < 0) return curve[curve.length - 1].intensity;
+  if (hi === 0) return curve[0].intensity;
+  const a = curve[hi - 1];
+  const b = curve[hi];
+  const t = b.angle > a.angle ? (angle - a.angle) / (b.angle - a.angle) : 0;
+  return a.intensity + (b.intensity - a.intensity) * t;
+};
+
+/** Peak, FWHM and coarse samples of an in-plane BRDF curve (sr⁻¹ against degrees). */
+export const summarizeLobe = (curve: ScatteringData[]): AnalysisInput['lobe'] => {
+  if (!curve.length) return { peakAngle: 0, peakBRDF: 0, fwhm: 0, samples: [] };
+  let peak = 0;
+  for (let i = 1; i < curve.length; i++) if (curve[i].intensity > curve[peak].intensity) peak = i;
+  const half = curve[peak].intensity / 2;
+  let lo = peak;
+  let hi = peak;
+  while (lo > 0 && curve[lo - 1].intensity >= half) lo--;
+  while (hi < curve.length - 1 && curve[hi + 1].intensity >= half) hi++;
+  return {
+    peakAngle: curve[peak].angle,
+    peakBRDF: curve[peak].intensity,
+    fwhm: curve[hi].angle - curve[lo].angle,
+    samples: SAMPLE_ANGLES.map(angle => ({ angle, brdf: interpolate(curve, angle) })),
+  };
+};
+
+/** Collects the simulation outputs an analysis is grounded on. */
+export const buildAnalysisInput = (
+  params: SurfaceParameters,
+  materialName: string,
+  phaseFactor: number,
+  activeModel: ModelType,
+  reflectance: number,
+  energy: EnergyConcentration,
+  curve: ScatteringData[]
+): AnalysisInput => ({
+  params,
+  materialName,
+  phaseFactor,
+  activeModel,
+  computedRegime: classifyRegime(phaseFactor),
+  reflectance,
+  energy,
+  lobe: summarizeLobe(curve),
+});
+
+const REGIME_THEORY: Record<PhysicalRegime, { modelName: string; distribution: string; text: string }> = {
+  Specular: {
+    modelName: 'Rayleigh-Rice 矢量微扰理论',
+    distribution: 'BRDF = (16π²/λ⁴)·cosθi·cosθs·Q·PSD(fx, fy)',
+    text: '表面高度远小于波长，散射为一阶微扰：散射光分布直接复现表面功率谱密度，镜面反射占绝对主导，TIS ≈ g。',
+  },
+  Diffractive: {
+    modelName: '广义 Harvey-Shack 传递函数模型',
+    distribution: 'H(x̂, ŷ) = exp{−(2πσ·(cosθi + cosθs)/λ)²·[1 − C(x̂, ŷ)/σ²]}',
+    text: '粗糙度与波长可比，镜面分量按 exp(−g) 衰减而漫射分量快速增长，散射角分布仍由 PSD 的形状决定，需要非微扰的传递函数处理。',
+  },
+  Diffuse: {
+    modelName: 'Beckmann-Kirchhoff 几何光学极限',
+    distribution: 'BRDF ∝ D(θh)·G·F / (4 cosθi cosθs)，D 为表面斜率分布',
+    text: '表面远比波长粗糙，相干镜面分量几乎消失，散射由微面元斜率分布主导，可按几何光学（微面元）模型描述。',
+  },
+};
+
+const REGIME_MODELS: Record<PhysicalRegime, ModelType> = { Specular: 'Rayleigh-Rice', Diffractive: 'Harvey-Shack', Diffuse: 'Beckmann' };
+
+const percent = (v: number) => `${(v * 100).toFixed(v < 0.001 ? 4 : 2)}%`;
+
+/**
+ * Deterministic explanation of a simulation result, fully offline: the regime follows from
+ * the computed g and every number quoted is taken from the input.
+ */
+export const explainScattering = (input: AnalysisInput): AIAnalysisResult => {
+  const { params, energy, lobe } = input;
+  const regime = input.computedRegime;
+  const theory = REGIME_THEORY[regime];
+  const budget = energy.budget;
+  const specularFraction = budget.hemispherical > 0 ? budget.specular / budget.hemispherical : 0;
+  const raNm = params.ra * 1000;
+  const lambdaNm = params.wavelength * 1000;
+  const ratio = (params.ra * 1.25) / params.wavelength;
+
+  const sentences = [
+    `${input.materialName}表面 Ra = ${raNm.toPrecision(4)} nm（σ ≈ ${(raNm * 1.25).toPrecision(4)} nm），波长 ${lambdaNm.toPrecision(4)} nm，入射角 ${params.incidentAngle}°，σ/λ = ${ratio.toExponential(2)}，Rayleigh 相位因子 g = ${input.phaseFactor.toExponential(3)}。`,
+    theory.text,
+    `当前求解模型为 ${input.activeModel}，反射率 R = ${percent(input.reflectance)}，其中镜面 ${percent(budget.specular)}、漫射 ${percent(budget.diffuse)}，TIS = ${percent(budget.tis)}。`,
+    `BRDF 峰值位于 ${lobe.peakAngle.toFixed(2)}°（${lobe.peakBRDF.toExponential(3)} sr⁻¹），半高全宽 ${lobe.fwhm.toFixed(2)}°；以镜面方向为中心，50% / 90% / 99% 能量分别集中在 ±${energy.e50.toFixed(2)}° / ±${energy.e90.toFixed(2)}° / ±${energy.e99.toFixed(2)}° 内。`,
+  ];
+  if (budget.clamped) sentences.push('漫射能量已按 R 截断，所选模型在此参数下超出了能量守恒的适用范围。');
+  // Only the first-order perturbation result has a limited range; the other models hold in any regime.
+  if (input.activeModel === 'Rayleigh-Rice' && regime !== 'Specular') {
+    sentences.push(`g 已超出一阶微扰的适用范围，此区间通常选用 ${REGIME_MODELS[regime]}，Rayleigh-Rice 结果会高估漫射能量。`);
+  }
+
+  return {
+    modelName: theory.modelName,
+    description: `${regime === 'Specular' ? '光滑' : regime === 'Diffuse' ? '粗糙' : '中等粗糙'}表面，${specularFraction > 0.5 ? '镜面反射为主' : '漫散射为主'}（镜面占反射能量 ${percent(specularFraction)}）。`,
+    mathematicalDistribution: theory.distribution,
+    physicalRegime: regime,
+    details: sentences.join(''),
+  };
+};
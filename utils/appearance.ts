@@ -0,0 +1,134 @@
+import { AppearanceMetrics, MaterialData, ResolvedCoating, ScatteringData, ScatteringOptions } from '../types';
+import { calculateScattering } from './physics';
+import { fresnelReflectance } from './fresnel';
+import { surfaceOpticsAt } from './thinFilm';
+
+const DEG = Math.PI / 180;
+
+/** Gloss meters are photopically weighted; the BRDF is evaluated at the peak of V(λ). */
+export const APPEARANCE_WAVELENGTH = 0.555;
+
+/** Index of the polished black-glass gloss standard (n at 587.6 nm), defined as 100 GU. */
+const BLACK_GLASS = { n: 1.567, k: 0 };
+
+/** Angular step of the simulated curves in degrees; the coherent beam is 2·step wide. */
+const APPEARANCE_STEP = 0.005;
+
+/**
+ * Receptor field in degrees: a band of angular offsets from the specular direction
+ * (inner..outer, in the plane of incidence, on both sides) by a full width across the plane.
+ */
+interface ReceptorField {
+  inner: number;
+  outer: number;
+  width: number;
+}
+
+/** Largest angular distance from specular a receptor field reaches, in degrees. */
+const fieldRadius = (field: ReceptorField) => Math.hypot(field.outer, field.width / 2);
+
+/** ISO 2813 receptor apertures (in-plane × perpendicular). */
+const GLOSS_GEOMETRIES: [number, ReceptorField][] = [
+  [20, { inner: 0, outer: 0.9, width: 3.6 }],
+  [60, { inner: 0, outer: 2.2, width: 11.7 }],
+  [85, { inner: 0, outer: 2.0, width: 6.0 }],
+];
+
+/** ISO 13803: haze fields 1.8°–2.7° either side of the 20° specular direction. */
+const HAZE_ISO_FIELD: ReceptorField = { inner: 1.8, outer: 2.7, width: 3.6 };
+
+/** ASTM E430 (30°): specular field, narrow-angle haze at 2° ± 0.2°, and the DOI fields. */
+const E430_SPECULAR: ReceptorField = { inner: 0, outer: 0.2, width: 0.4 };
+const E430_HAZE: ReceptorField = { inner: 1.8, outer: 2.2, width: 0.4 };
+const DOI_SPECULAR: ReceptorField = { inner: 0, outer: 0.05, width: 0.1 };
+const DOI_OFFSET: ReceptorField = { inner: 0.25, outer: 0.35, width: 0.1 };
+
+/**
+ * Length of the circle of radius r (centred on the specular direction) inside the
+ * rectangle |x| ≤ a, |y| ≤ b.
+ */
+const arcInRectangle = (r: number, a: number, b: number) => {
+  if (r <= 0) return 0;
+  if (r <= Math.min(a, b)) return 2 * Math.PI * r;
+  const from = Math.acos(Math.min(1, a / r));
+  const to = Math.asin(Math.min(1, b / r));
+  return 4 * r * Math.max(0, to - from);
+};
+
+/**
+ * Reflected power (per unit incident power) collected by a receptor field.
+ * Around the specular direction the BRDF is taken as rotationally symmetric, with the
+ * radial profile averaged from both sides of the in-plane curve; the field is then
+ * integrated ring by ring, weighting each ring by its arc length inside the field.
+ * The source aperture is treated as a point.
+ */
+const receptorPower = (curve: ScatteringData[], step: number, thetaInc: number, field: ReceptorField) => {
+  const valueAt = (angle: number) => {
+    const f = (angle - curve[0].angle) / step;
+    if (f < 0 || f > curve.length - 1) return 0;
+    const i0 = Math.floor(f);
+    const i1 = Math.min(curve.length - 1, i0 + 1);
+    const t = f - i0;
+    return curve[i0].intensity * (1 - t) + curve[i1].intensity * t;
+  };
+  const halfWidth = field.width / 2;
+  const outerRadius = Math.hypot(field.outer, halfWidth);
+  // The central sample stands for the disc of radius step/2, every other one for a ring of width step.
+  let sum = field.inner === 0 ? valueAt(thetaInc) * Math.PI * Math.pow((step / 2) * DEG, 2) : 0;
+  for (let r = step; r <= outerRadius; r += step) {
+    const arc = arcInRectangle(r * DEG, field.outer * DEG, halfWidth * DEG)
+      - arcInRectangle(r * DEG, field.inner * DEG, halfWidth * DEG);
+    if (arc <= 0) continue;
+    const profile = (valueAt(thetaInc + r) + valueAt(thetaInc - r)) / 2;
+    sum += profile * arc * step * DEG;
+  }
+  return sum * Math.cos(thetaInc * DEG);
+};
+
+/**
+ * Simulated gloss-meter readings for the surface: specular gloss at 20°/60°/85°
+ * (ISO 2813 / ASTM D523), reflection haze (ISO 13803 at 20°, ASTM E430 at 30°) and
+ * distinctness of image (ASTM E430: DOI = 100·(1 − R0.3 / Rs)).
+ * Gloss and haze are relative to the black-glass standard at the same geometry.
+ * With a material its index at `APPEARANCE_WAVELENGTH` is used; otherwise the manual
+ * reflectivity scales a perfect conductor. Instruments illuminate unpolarized.
+ */
+export const calculateAppearanceMetrics = (
+  ra: number,
+  modelType: string,
+  slopeFactor: number,
+  options: ScatteringOptions,
+  material?: MaterialData,
+  reflectivity: number = 1.0,
+  coating?: ResolvedCoating
+): AppearanceMetrics => {
+  // One curve per geometry, only over the widest receptor field read at that incidence.
+  const curveAt = (thetaInc: number, fields: ReceptorField[]) => {
+    const { reflectance, refractiveIndex, film } = surfaceOpticsAt(material, coating, APPEARANCE_WAVELENGTH, thetaInc, reflectivity);
+    const radius = Math.max(...fields.map(fieldRadius)) + 2 * APPEARANCE_STEP;
+    return calculateScattering(
+      ra, APPEARANCE_WAVELENGTH, thetaInc, modelType, APPEARANCE_STEP, reflectance, slopeFactor,
+      { ...options, refractiveIndex, coating: film, stokes: [1, 0, 0, 0] },
+      { from: thetaInc - radius, to: thetaInc + radius }
+    );
+  };
+  const reference = (thetaInc: number) => fresnelReflectance(BLACK_GLASS, thetaInc * DEG).R;
+
+  const [[, field20], [, field60], [, field85]] = GLOSS_GEOMETRIES;
+  const curve20 = curveAt(20, [field20, HAZE_ISO_FIELD]);
+  const curve30 = curveAt(30, [E430_SPECULAR, E430_HAZE, DOI_SPECULAR, DOI_OFFSET]);
+  const curves: Record<number, ScatteringData[]> = { 20: curve20, 60: curveAt(60, [field60]), 85: curveAt(85, [field85]) };
+
+  const [gloss20, gloss60, gloss85] = GLOSS_GEOMETRIES.map(([theta, field]) =>
+    (100 * receptorPower(curves[theta], APPEARANCE_STEP, theta, field)) / reference(theta));
+
+  const haze = (100 * receptorPower(curve20, APPEARANCE_STEP, 20, HAZE_ISO_FIELD)) / reference(20);
+
+  const hazeE430 = (100 * receptorPower(curve30, APPEARANCE_STEP, 30, E430_HAZE)) / reference(30);
+  const specular = receptorPower(curve30, APPEARANCE_STEP, 30, DOI_SPECULAR);
+  // The offset field covers both sides; DOI compares one side with the specular field.
+  const offset = receptorPower(curve30, APPEARANCE_STEP, 30, DOI_OFFSET) / 2;
+  const doi = specular > 0 ? Math.max(0, 100 * (1 - offset / specular)) : 0;
+
+  return { gloss20, gloss60, gloss85, haze, hazeE430, doi };
+};
@@ -0,0 +1,571 @@
+import {
+  ABgModel,
+  BRDFExchangeFile,
+  HemisphericalBRDF,
+  ImportedBSDF,
+  MaterialData,
+  MERLBRDF,
+  RenderBRDFTable,
+  ResolvedCoating,
+  ScatteringData,
+  ScatteringOptions,
+  SurfaceParameters,
+  TabulatedBSDF,
+} from '../types';
+import {
+  calculateHemisphericalBRDF,
+  calculatePhaseFactor,
+  calculateScattering,
+  calculateScatteringWithBudget,
+  resolveActiveModel,
+} from './physics';
+import { sampleHemisphere } from './hemisphere';
+import { solveLinear } from './linalg';
+import { surfaceOpticsAt } from './thinFilm';
+
+const DEG = Math.PI / 180;
+
+/**
+ * Everything needed to evaluate the model at an arbitrary incidence angle.
+ * With a material the Fresnel (or coating) reflectance follows the incidence angle.
+ */
+export interface ScatterSetup {
+  ra: number;
+  wavelength: number;
+  modelType: string;
+  slopeFactor: number;
+  options: ScatteringOptions;
+  material?: MaterialData;
+  coating?: ResolvedCoating; // Thin films on the material
+  reflectivity: number; // Manual reflectivity, used without a material
+}
+
+const setupAt = (setup: ScatterSetup, thetaInc: number) => {
+  const { reflectance, refractiveIndex, film } = surfaceOpticsAt(setup.material, setup.coating, setup.wavelength, thetaInc, setup.reflectivity);
+  return { reflectance, options: { ...setup.options, refractiveIndex, coating: film } };
+};
+
+const hemisphereAt = (setup: ScatterSetup, thetaInc: number, thetaStep: number, phiStep: number) => {
+  const { reflectance, options } = setupAt(setup, thetaInc);
+  return calculateHemisphericalBRDF(
+    setup.ra, setup.wavelength, thetaInc, setup.modelType, thetaStep, phiStep, reflectance, setup.slopeFactor, options
+  );
+};
+
+// ---------------------------------------------------------------------------
+// ABg
+// ---------------------------------------------------------------------------
+
+/** In-plane step of the curve the ABg model is fitted to, in degrees. */
+const ABG_STEP = 0.1;
+/** Half-width around specular left out of the ABg fit (the coherent beam), in degrees. */
+const ABG_EXCLUSION = 1;
+/** Log slope (decades per degree) beyond which near-specular points count as part of the coherent peak. */
+const ABG_PEAK_SLOPE = 0.75;
+/** Distance beyond the fixed exclusion searched for such a peak, in degrees. */
+const ABG_PEAK_SEARCH = 10;
+
+export const evaluateABg = (model: ABgModel, thetaInc: number, angle: number) =>
+  model.A / (model.B + Math.pow(Math.abs(Math.sin(angle * DEG) - Math.sin(thetaInc * DEG)), model.g));
+
+/**
+ * Fits the Harvey ABg model to the diffuse part of the in-plane BRDF (log10 least squares,
+ * Levenberg–Marquardt with analytic derivatives in log10 A, log10 B and g).
+ */
+export const fitABg = (setup: ScatterSetup, thetaInc: number): ABgModel => {
+  const { reflectance, options } = setupAt(setup, thetaInc);
+  const curve = calculateScattering(
+    setup.ra, setup.wavelength, thetaInc, setup.modelType, ABG_STEP, reflectance, setup.slopeFactor, options
+  );
+  const beta0 = Math.sin(thetaInc * DEG);
+  // Widen the exclusion on each side while the curve still falls like a coherent peak.
+  const logAt = (i: number) => Math.log10(Math.max(1e-30, curve[i].intensity));
+  const specularIndex = curve.reduce((best, d, i) => (Math.abs(d.angle - thetaInc) < Math.abs(curve[best].angle - thetaInc) ? i : best), 0);
+  const edge = (dir: 1 | -1) => {
+    const start = specularIndex + dir * Math.round(ABG_EXCLUSION / ABG_STEP);
+    const inRange = (i: number) => i + dir >= 0 && i + dir < curve.length;
+    const steep = (i: number) => Math.abs(logAt(i) - logAt(i + dir)) / ABG_STEP > ABG_PEAK_SLOPE;
+    let i = start;
+    while (inRange(i) && !steep(i) && Math.abs(i - start) * ABG_STEP < ABG_PEAK_SEARCH) i += dir;
+    if (!inRange(i) || !steep(i)) return curve[start].angle;
+    while (inRange(i) && steep(i)) i += dir;
+    return curve[i].angle;
+  };
+  const lower = edge(-1);
+  const upper = edge(1);
+  const points = curve
+    .filter(d => d.intensity > 0 && (d.angle <= lower || d.angle >= upper) && Math.abs(d.angle) < 90)
+    .map(d => ({ x: Math.max(1e-9, Math.abs(Math.sin(d.angle * DEG) - beta0)), y: Math.log10(d.intensity) }));
+  if (points.length < 3) throw new Error('Not enough diffuse scatter to fit an ABg model');
+
+  // Start from the near-specular level and a g = 2 roll-off.
+  const nearest = points.reduce((a, b) => (b.x < a.x ? b : a));
+  let p = [nearest.y + Math.log10(1e-4), -4, 2]; // log10 A, log10 B, g
+  const residuals = (q: number[]) => points.map(({ x, y }) => {
+    const B = Math.pow(10, q[1]);
+    return q[0] - Math.log10(B + Math.pow(x, q[2])) - y;
+  });
+  const cost = (r: number[]) => r.reduce((acc, v) => acc + v * v, 0);
+
+  let r = residuals(p);
+  let c = cost(r);
+  let lambda = 1e-2;
+  for (let iter = 0; iter < 100; iter++) {
+    const J = points.map(({ x }) => {
+      const B = Math.pow(10, p[1]);
+      const xg = Math.pow(x, p[2]);
+      const denom = B + xg;
+      return [1, -B / denom, -(xg * Math.log(x)) / (denom * Math.LN10)];
+    });
+    const jtj = [0, 1, 2].map(a => [0, 1, 2].map(b => J.reduce((acc, row) => acc + row[a] * row[b], 0)));
+    const jtr = [0, 1, 2].map(a => J.reduce((acc, row, i) => acc + row[a] * r[i], 0));
+    let improved = false;
+    while (lambda < 1e8) {
+      const delta = solveLinear(jtj.map((row, a) => row.map((v, b) => (a === b ? v * (1 + lambda) + 1e-12 : v))), jtr.map(v => -v));
+      const candidate = [p[0] + delta[0], Math.max(-12, Math.min(2, p[1] + delta[1])), Math.max(0.05, Math.min(6, p[2] + delta[2]))];
+      const rc = residuals(candidate);
+      const cc = cost(rc);
+      if (cc < c) {
+        const gain = c - cc;
+        p = candidate;
+        r = rc;
+        c = cc;
+        lambda = Math.max(1e-7, lambda / 3);
+        improved = true;
+        if (gain < 1e-10 * (1 + c)) iter = Infinity;
+        break;
+      }
+      lambda *= 4;
+    }
+    if (!improved) break;
+  }
+
+  return {
+    A: Math.pow(10, p[0]),
+    B: Math.pow(10, p[1]),
+    g: p[2],
+    wavelength: setup.wavelength,
+    thetaInc,
+    rmsLog: Math.sqrt(c / points.length),
+  };
+};
+
+/**
+ * ABg data block in the keyword style of Zemax / CODE V scatter files ('!' comments).
+ */
+export const formatABg = (model: ABgModel, name: string) => [
+  '! AluRough ABg scatter model: BSDF = A / (B + |beta - beta0|^g)',
+  `! Fitted at ${model.thetaInc} deg incidence, RMS log10 residual ${model.rmsLog.toExponential(3)}`,
+  `NAME ${name.replace(/\s+/g, '_').slice(0, 32)}`,
+  `WAVELENGTH ${model.wavelength}`,
+  `ANGLE ${model.thetaInc}`,
+  `A ${model.A.toExponential(8)}`,
+  `B ${model.B.toExponential(8)}`,
+  `G ${model.g.toFixed(8)}`,
+].join('\n');
+
+export const parseABg = (text: string): ABgModel => {
+  const fields: Record<string, number> = {};
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (!line || line.startsWith('!')) continue;
+    const [key, value] = line.split(/\s+/);
+    if (key && value !== undefined) fields[key.toUpperCase()] = Number(value);
+  }
+  if (![fields.A, fields.B, fields.G].every(Number.isFinite)) throw new Error('ABg file needs A, B and G entries');
+  return {
+    A: fields.A,
+    B: fields.B,
+    g: fields.G,
+    wavelength: fields.WAVELENGTH ?? 0,
+    thetaInc: fields.ANGLE ?? 0,
+    rmsLog: 0,
+  };
+};
+
+// ---------------------------------------------------------------------------
+// Tabulated BSDF (Zemax TabBSDF layout)
+// ---------------------------------------------------------------------------
+
+export const TABULATED_INCIDENCE = [0, 10, 20, 30, 40, 50, 60, 70, 80];
+const TABULATED_THETA_STEP = 1;
+const TABULATED_PHI_STEP = 2;
+
+/**
+ * Samples the full hemisphere at several incidence angles. The surface is treated as plane
+ * symmetric, so azimuths cover 0–180° from the specular side.
+ */
+export const tabulateBSDF = (setup: ScatterSetup, incidenceAngles: number[] = TABULATED_INCIDENCE): TabulatedBSDF => {
+  const radials = Array.from({ length: Math.floor(90 / TABULATED_THETA_STEP) + 1 }, (_, i) => i * TABULATED_THETA_STEP);
+  const azimuths = Array.from({ length: Math.floor(180 / TABULATED_PHI_STEP) + 1 }, (_, i) => i * TABULATED_PHI_STEP);
+  const tis: number[] = [];
+  const values = incidenceAngles.map(thetaInc => {
+    const grid = hemisphereAt(setup, thetaInc, TABULATED_THETA_STEP, TABULATED_PHI_STEP);
+    const { reflectance, options } = setupAt(setup, thetaInc);
+    tis.push(calculateScatteringWithBudget(
+      setup.ra, setup.wavelength, thetaInc, setup.modelType, TABULATED_THETA_STEP, reflectance, setup.slopeFactor, options
+    ).budget.diffuse);
+    return azimuths.map(phi => radials.map(theta => sampleHemisphere(grid, theta, phi)));
+  });
+  return { wavelength: setup.wavelength, incidenceAngles, azimuths, radials, tis, values };
+};
+
+const formatList = (values: number[]) => values.map(v => String(v)).join('\t');
+
+export const formatTabBSDF = (table: TabulatedBSDF, comments: string[] = []) => [
+  ...comments.map(c => `# ${c}`),
+  `# Wavelength ${table.wavelength} um; radial = polar scatter angle from the normal, azimuth 0 = specular side`,
+  '# BRDF in 1/sr including the specular beam; TIS = diffuse reflectance',
+  'Source  Simulated',
+  'Symmetry  PlaneSymmetrical',
+  'SpectralContent  Monochrome',
+  'ScatterType  BRDF',
+  'SampleRotation  1',
+  '0',
+  `AngleOfIncidence  ${table.incidenceAngles.length}`,
+  formatList(table.incidenceAngles),
+  `ScatterAzimuth  ${table.azimuths.length}`,
+  formatList(table.azimuths),
+  `ScatterRadial  ${table.radials.length}`,
+  formatList(table.radials),
+  'Monochrome',
+  'DataBegin',
+  ...table.values.flatMap((block, i) => [
+    `TIS  ${table.tis[i].toExponential(6)}`,
+    ...block.map(row => row.map(v => v.toExponential(5)).join('\t')),
+  ]),
+  'DataEnd',
+].join('\n');
+
+export const parseTabBSDF = (text: string): TabulatedBSDF => {
+  const lines = text.split(/\r?\n/).map(l => l.trim()).filter(l => l && !l.startsWith('#'));
+  let i = 0;
+  const readList = () => lines[i++].split(/\s+/).map(Number);
+  let incidenceAngles: number[] = [];
+  let azimuths: number[] = [];
+  let radials: number[] = [];
+  let wavelength = 0;
+  const wavelengthMatch = text.match(/# Wavelength\s+([\d.eE+-]+)/);
+  if (wavelengthMatch) wavelength = Number(wavelengthMatch[1]);
+
+  for (; i < lines.length && lines[i] !== 'DataBegin';) {
+    const [key] = lines[i++].split(/\s+/);
+    if (key === 'AngleOfIncidence') incidenceAngles = readList();
+    else if (key === 'ScatterAzimuth') azimuths = readList();
+    else if (key === 'ScatterRadial') radials = readList();
+    else if (key === 'SampleRotation') i++;
+  }
+  if (lines[i++] !== 'DataBegin' || !incidenceAngles.length || !azimuths.length || !radials.length) {
+    throw new Error('Not a tabulated BSDF file (missing angle lists or DataBegin)');
+  }
+
+  const tis: number[] = [];
+  const values = incidenceAngles.map(() => {
+    const [key, value] = lines[i++].split(/\s+/);
+    if (key !== 'TIS') throw new Error('Tabulated BSDF block must start with TIS');
+    tis.push(Number(value));
+    return azimuths.map(() => {
+      const row = readList();
+      if (row.length !== radials.length) throw new Error('Tabulated BSDF row length does not match ScatterRadial');
+      return row;
+    });
+  });
+  return { wavelength, incidenceAngles, azimuths, radials, tis, values };
+};
+
+/**
+ * In-plane slice of a tabulated BSDF, linearly interpolated between incidence angles.
+ */
+const tabulatedSlice = (table: TabulatedBSDF, thetaInc: number): ScatteringData[] => {
+  const { incidenceAngles, azimuths, radials, values } = table;
+  let k = 0;
+  while (k < incidenceAngles.length - 2 && incidenceAngles[k + 1] < thetaInc) k++;
+  const k1 = Math.min(incidenceAngles.length - 1, k + 1);
+  const span = incidenceAngles[k1] - incidenceAngles[k];
+  const t = span > 0 ? Math.min(1, Math.max(0, (thetaInc - incidenceAngles[k]) / span)) : 0;
+  const back = azimuths.length - 1; // 180°: the side opposite to specular
+  const row = (block: number[][], side: number, j: number) => block[side][j];
+  const data: ScatteringData[] = [];
+  for (let j = radials.length - 1; j > 0; j--) {
+    data.push({ angle: -radials[j], intensity: row(values[k], back, j) * (1 - t) + row(values[k1], back, j) * t });
+  }
+  radials.forEach((theta, j) => {
+    data.push({ angle: theta, intensity: row(values[k], 0, j) * (1 - t) + row(values[k1], 0, j) * t });
+  });
+  return data;
+};
+
+// ---------------------------------------------------------------------------
+// MERL isotropic BRDF
+// ---------------------------------------------------------------------------
+
+const MERL_THETA_H = 90;
+const MERL_THETA_D = 90;
+const MERL_PHI_D = 180;
+const MERL_SIZE = MERL_THETA_H * MERL_THETA_D * MERL_PHI_D;
+/** Stored value × scale = BRDF, per channel (red, green, blue). */
+const MERL_SCALE = [1 / 1500, 1.15 / 1500, 1.66 / 1500];
+/** Incidence step of the hemispherical grids the MERL table is resampled from, in degrees. */
+const MERL_INCIDENCE_STEP = 2;
+
+type Vec3 = [number, number, number];
+
+const rotate = (v: Vec3, axis: Vec3, angle: number): Vec3 => {
+  const c = Math.cos(angle);
+  const s = Math.sin(angle);
+  const dot = v[0] * axis[0] + v[1] * axis[1] + v[2] * axis[2];
+  const cross: Vec3 = [axis[1] * v[2] - axis[2] * v[1], axis[2] * v[0] - axis[0] * v[2], axis[0] * v[1] - axis[1] * v[0]];
+  return [0, 1, 2].map(i => v[i] * c + axis[i] * dot * (1 - c) + cross[i] * s) as Vec3;
+};
+
+const Y_AXIS: Vec3 = [0, 1, 0];
+const Z_AXIS: Vec3 = [0, 0, 1];
+
+const thetaHalfIndex = (thetaHalf: number) => {
+  if (thetaHalf <= 0) return 0;
+  const index = Math.floor(Math.sqrt((thetaHalf / (Math.PI / 2)) * MERL_THETA_H * MERL_THETA_H));
+  return Math.min(MERL_THETA_H - 1, Math.max(0, index));
+};
+
+/**
+ * MERL table index of an incident / outgoing direction pair (both pointing away from the surface).
+ */
+const merlIndex = (wi: Vec3, wo: Vec3) => {
+  const h: Vec3 = [wi[0] + wo[0], wi[1] + wo[1], wi[2] + wo[2]];
+  const norm = Math.hypot(...h) || 1;
+  const half: Vec3 = [h[0] / norm, h[1] / norm, h[2] / norm];
+  const thetaH = Math.acos(Math.min(1, Math.max(-1, half[2])));
+  const phiH = Math.atan2(half[1], half[0]);
+  const diff = rotate(rotate(wi, Z_AXIS, -phiH), Y_AXIS, -thetaH);
+  const thetaD = Math.acos(Math.min(1, Math.max(-1, diff[2])));
+  let phiD = Math.atan2(diff[1], diff[0]);
+  if (phiD < 0) phiD += Math.PI; // Reciprocity
+  const iThetaD = Math.min(MERL_THETA_D - 1, Math.max(0, Math.floor((thetaD / (Math.PI / 2)) * MERL_THETA_D)));
+  const iPhiD = Math.min(MERL_PHI_D - 1, Math.max(0, Math.floor((phiD / Math.PI) * MERL_PHI_D)));
+  return iPhiD + MERL_PHI_D * (iThetaD + MERL_THETA_D * thetaHalfIndex(thetaH));
+};
+
+const spherical = (theta: number, phi: number): Vec3 =>
+  [Math.sin(theta) * Math.cos(phi), Math.sin(theta) * Math.sin(phi), Math.cos(theta)];
+
+/**
+ * Resamples the model into the MERL half/difference-angle table. Monochrome: all three channels
+ * hold the same BRDF. The MERL layout assumes isotropy, so anisotropic surfaces are reduced to
+ * their slice with the plane of incidence along x.
+ * The 1° difference-angle bins and the nearest-cell lookup cannot follow the steep flank of a
+ * narrow specular lobe: within about ±5° of specular a smooth surface reads back up to a few
+ * times off (e.g. ×2.7 at ±5° for Ra = 10 nm, λ = 0.5 µm, θi = 30°). Use TabBSDF or JSON there.
+ */
+export const tabulateMERL = (setup: ScatterSetup): MERLBRDF => {
+  const grids: HemisphericalBRDF[] = [];
+  for (let theta = 0; theta <= 90; theta += MERL_INCIDENCE_STEP) grids.push(hemisphereAt(setup, Math.min(89.5, theta), 1, 2));
+
+  // Each grid is read at the same offset from its own specular direction (the scatter direction
+  // turned about y by the incidence difference), so the narrow lobe is not smeared across the
+  // incidence step; directions turned below the horizon are read unturned.
+  const fromGrid = (k: number, thetaI: number, wo: Vec3) => {
+    const turned = rotate(wo, Y_AXIS, (k * MERL_INCIDENCE_STEP - thetaI) * DEG);
+    const dir = turned[2] > 0 ? turned : wo;
+    return sampleHemisphere(grids[k], Math.acos(Math.min(1, dir[2])) / DEG, Math.atan2(dir[1], dir[0]) / DEG);
+  };
+  const brdf = (thetaI: number, wo: Vec3) => {
+    const f = thetaI / MERL_INCIDENCE_STEP;
+    const k = Math.min(grids.length - 2, Math.floor(f));
+    const t = f - k;
+    return fromGrid(k, thetaI, wo) * (1 - t) + fromGrid(k + 1, thetaI, wo) * t;
+  };
+
+  const values = new Float64Array(3 * MERL_SIZE);
+  for (let ih = 0; ih < MERL_THETA_H; ih++) {
+    const thetaH = (Math.pow(ih + 0.5, 2) / MERL_THETA_H) * DEG;
+    const half = spherical(thetaH, 0);
+    for (let id = 0; id < MERL_THETA_D; id++) {
+      const thetaD = (id + 0.5) * (90 / MERL_THETA_D) * DEG;
+      for (let ip = 0; ip < MERL_PHI_D; ip++) {
+        const phiD = (ip + 0.5) * (180 / MERL_PHI_D) * DEG;
+        const wi = rotate(spherical(thetaD, phiD), Y_AXIS, thetaH);
+        const dot = wi[0] * half[0] + wi[1] * half[1] + wi[2] * half[2];
+        const wo: Vec3 = [2 * dot * half[0] - wi[0], 2 * dot * half[1] - wi[1], 2 * dot * half[2] - wi[2]];
+        const index = ip + MERL_PHI_D * (id + MERL_THETA_D * ih);
+        let value = -1;
+        if (wi[2] > 0 && wo[2] > 0) {
+          const thetaI = Math.acos(wi[2]) / DEG;
+          // φs = 0 is the specular side, opposite to the incident azimuth.
+          const phiS = Math.atan2(wo[1], wo[0]) - Math.atan2(wi[1], wi[0]) - Math.PI;
+          value = brdf(thetaI, spherical(Math.acos(wo[2]), phiS));
+        }
+        for (let c = 0; c < 3; c++) values[c * MERL_SIZE + index] = value < 0 ? -1 : value / MERL_SCALE[c];
+      }
+    }
+  }
+  return { values };
+};
+
+export const encodeMERL = (merl: MERLBRDF): ArrayBuffer => {
+  const buffer = new ArrayBuffer(12 + merl.values.length * 8);
+  const view = new DataView(buffer);
+  view.setInt32(0, MERL_THETA_H, true);
+  view.setInt32(4, MERL_THETA_D, true);
+  view.setInt32(8, MERL_PHI_D, true);
+  for (let i = 0; i < merl.values.length; i++) view.setFloat64(12 + i * 8, merl.values[i], true);
+  return buffer;
+};
+
+export const decodeMERL = (buffer: ArrayBuffer): MERLBRDF => {
+  if (buffer.byteLength < 12) throw new Error('MERL file is too short');
+  const view = new DataView(buffer);
+  const dims = [view.getInt32(0, true), view.getInt32(4, true), view.getInt32(8, true)];
+  if (dims[0] !== MERL_THETA_H || dims[1] !== MERL_THETA_D || dims[2] !== MERL_PHI_D) {
+    throw new Error(`Unexpected MERL dimensions ${dims.join(' × ')}`);
+  }
+  if (buffer.byteLength !== 12 + 3 * MERL_SIZE * 8) throw new Error('MERL file size does not match its dimensions');
+  const values = new Float64Array(3 * MERL_SIZE);
+  for (let i = 0; i < values.length; i++) values[i] = view.getFloat64(12 + i * 8, true);
+  return { values };
+};
+
+/**
+ * BRDF (green channel) for incidence θi and scatter direction (θs, φs), in degrees.
+ */
+export const lookupMERL = (merl: MERLBRDF, thetaInc: number, thetaS: number, phiS: number) => {
+  // Incident direction at azimuth 180° so that φs = 0 (specular side) is the +x half-plane.
+  const wi = spherical(thetaInc * DEG, Math.PI);
+  const wo = spherical(thetaS * DEG, phiS * DEG);
+  const stored = merl.values[MERL_SIZE + merlIndex(wi, wo)];
+  return stored < 0 ? 0 : stored * MERL_SCALE[1];
+};
+
+// ---------------------------------------------------------------------------
+// Render table (3D view)
+// ---------------------------------------------------------------------------
+
+const RENDER_INCIDENCE_STEP = 4;
+const RENDER_MAX_INCIDENCE = 88;
+const RENDER_THETA_STEP = 2;
+const RENDER_PHI_STEP = 4;
+
+/**
+ * Samples the model for the 3D view's shader over incidence, scatter angle and azimuth from the
+ * specular side. Like MERL the table assumes plane symmetry, so anisotropic surfaces are reduced
+ * to their slice with the plane of incidence along x. The coherent beam is spread over the
+ * table resolution; the albedo keeps its exact share.
+ */
+export const tabulateRenderBRDF = (setup: ScatterSetup): RenderBRDFTable => {
+  const nIncidence = RENDER_MAX_INCIDENCE / RENDER_INCIDENCE_STEP + 1;
+  const nTheta = 90 / RENDER_THETA_STEP + 1;
+  const nPhi = 180 / RENDER_PHI_STEP + 1;
+  const values = new Float32Array(nIncidence * nTheta * nPhi);
+  const albedo = new Float32Array(nIncidence);
+  for (let k = 0; k < nIncidence; k++) {
+    const grid = hemisphereAt(setup, k * RENDER_INCIDENCE_STEP, RENDER_THETA_STEP, RENDER_PHI_STEP);
+    for (let i = 0; i < nTheta; i++) {
+      // The grid azimuths share the table's step, so the first half of each row is copied as is.
+      values.set(grid.values.subarray(i * grid.nPhi, i * grid.nPhi + nPhi), (k * nTheta + i) * nPhi);
+    }
+    albedo[k] = grid.budget.hemispherical;
+  }
+  return {
+    incidenceStep: RENDER_INCIDENCE_STEP,
+    thetaStep: RENDER_THETA_STEP,
+    phiStep: RENDER_PHI_STEP,
+    nIncidence,
+    nTheta,
+    nPhi,
+    values,
+    albedo,
+  };
+};
+
+// ---------------------------------------------------------------------------
+// JSON exchange file
+// ---------------------------------------------------------------------------
+
+const EXCHANGE_VERSION = 1;
+const EXCHANGE_STEP = 0.1;
+
+export const createExchangeFile = (
+  parameters: SurfaceParameters,
+  setup: ScatterSetup,
+  thetaInc: number
+): BRDFExchangeFile => {
+  const { reflectance, options } = setupAt(setup, thetaInc);
+  const g = calculatePhaseFactor(setup.ra, setup.wavelength, thetaInc);
+  const grid = hemisphereAt(setup, thetaInc, 1, 2);
+  const { data, budget } = calculateScatteringWithBudget(
+    setup.ra, setup.wavelength, thetaInc, setup.modelType, EXCHANGE_STEP, reflectance, setup.slopeFactor, options
+  );
+  return {
+    format: 'alurough-brdf',
+    version: EXCHANGE_VERSION,
+    parameters: { ...parameters, ra: setup.ra, incidentAngle: thetaInc },
+    activeModel: resolveActiveModel(setup.modelType, g),
+    phaseFactor: g,
+    budget,
+    data,
+    hemisphere: {
+      thetaStep: grid.thetaStep,
+      phiStep: grid.phiStep,
+      nTheta: grid.nTheta,
+      nPhi: grid.nPhi,
+      values: Array.from(grid.values),
+    },
+  };
+};
+
+export const parseExchangeFile = (text: string): BRDFExchangeFile => {
+  const file = JSON.parse(text) as BRDFExchangeFile;
+  if (file?.format !== 'alurough-brdf') throw new Error('Not an AluRough BRDF JSON file');
+  if (file.version > EXCHANGE_VERSION) throw new Error(`Unsupported BRDF JSON version ${file.version}`);
+  if (!Array.isArray(file.data)) throw new Error('BRDF JSON has no data');
+  return file;
+};
+
+// ---------------------------------------------------------------------------
+// Import dispatch
+// ---------------------------------------------------------------------------
+
+/**
+ * Reads any of the exported formats, chosen by extension (.abg, .bsdf, .binary, .json).
+ */
+export const parseBSDFFile = async (file: File): Promise<ImportedBSDF> => {
+  const name = file.name;
+  const ext = name.toLowerCase().split('.').pop();
+  if (ext === 'binary' || ext === 'merl') return { kind: 'merl', name, merl: decodeMERL(await file.arrayBuffer()) };
+  const text = await file.text();
+  if (ext === 'json') return { kind: 'json', name, file: parseExchangeFile(text) };
+  if (ext === 'bsdf') return { kind: 'tabbsdf', name, table: parseTabBSDF(text) };
+  if (ext === 'abg' || ext === 'dat') return { kind: 'abg', name, model: parseABg(text) };
+  throw new Error(`Unknown BSDF file type: .${ext}`);
+};
+
+/** Largest gap between the requested incidence and the one a JSON file holds, in degrees. */
+const EXCHANGE_INCIDENCE_TOLERANCE = 0.5;
+
+/**
+ * In-plane BRDF (sr⁻¹) of an imported file at the given incidence angle, for overlay and fitting.
+ * A JSON file holds a single incidence and is refused at any other.
+ */
+export const importedInPlaneSlice = (imported: ImportedBSDF, thetaInc: number, step: number = 0.5): ScatteringData[] => {
+  const angles: number[] = [];
+  for (let a = -90; a <= 90; a += step) angles.push(Number(a.toFixed(4)));
+  switch (imported.kind) {
+    case 'abg':
+      return angles.map(angle => ({ angle, intensity: evaluateABg(imported.model, thetaInc, angle) }));
+    case 'tabbsdf':
+      return tabulatedSlice(imported.table, thetaInc);
+    case 'merl':
+      return angles.map(angle => ({
+        angle,
+        intensity: lookupMERL(imported.merl, thetaInc, Math.abs(angle), angle >= 0 ? 0 : 180),
+      }));
+    case 'json': {
+      const stored = imported.file.parameters.incidentAngle;
+      if (!(Math.abs(stored - thetaInc) <= EXCHANGE_INCIDENCE_TOLERANCE)) {
+        throw new Error(`BRDF JSON was computed at θi = ${stored}°, not at ${thetaInc}°`);
+      }
+      return imported.file.data;
+    }
+    default:
+      return [];
+  }
+};
@@ -0,0 +1,82 @@
+import { ScatteringData } from '../types';
+
+const DEG = Math.PI / 180;
+
+// 'angle': θs; 'specular': θs − θi; 'harvey': |β − β₀| on a log axis, with β = sinθs.
+export type BRDFAxisMode = 'angle' | 'specular' | 'harvey';
+
+export interface AxisPoint {
+  x: number;
+  y: number;
+}
+
+/** Smallest |β − β₀| kept on the log Harvey axis. */
+export const HARVEY_MIN = 1e-5;
+
+/**
+ * Maps an in-plane curve (angles in degrees, positive on the specular side) onto the chart's
+ * x axis. Harvey space folds the curve about the specular direction, so it returns the two
+ * branches separately: `forward` (β > β₀) and `backward` (β < β₀).
+ */
+export const toAxisPoints = (
+  curve: ScatteringData[],
+  thetaInc: number,
+  mode: BRDFAxisMode
+): { forward: AxisPoint[]; backward: AxisPoint[] } => {
+  if (mode === 'angle') return { forward: curve.map(d => ({ x: d.angle, y: d.intensity })), backward: [] };
+  if (mode === 'specular') return { forward: curve.map(d => ({ x: Number((d.angle - thetaInc).toFixed(4)), y: d.intensity })), backward: [] };
+
+  const beta0 = Math.sin(thetaInc * DEG);
+  const forward: AxisPoint[] = [];
+  const backward: AxisPoint[] = [];
+  for (const d of curve) {
+    const delta = Math.sin(d.angle * DEG) - beta0;
+    if (Math.abs(delta) < HARVEY_MIN) continue;
+    (delta > 0 ? forward : backward).push({ x: Math.abs(delta), y: d.intensity });
+  }
+  backward.reverse();
+  return { forward, backward };
+};
+
+/**
+ * Value of a branch at x, linear in x and logarithmic in y between neighbours; undefined
+ * outside the branch.
+ */
+export const valueAt = (points: AxisPoint[], x: number) => {
+  if (!points.length || x < points[0].x || x > points[points.length - 1].x) return undefined;
+  let lo = 0;
+  let hi = points.length - 1;
+  while (hi - lo > 1) {
+    const mid = (lo + hi) >> 1;
+    if (points[mid].x <= x) lo = mid;
+    else hi = mid;
+  }
+  const a = points[lo];
+  const b = points[hi];
+  const t = b.x > a.x ? (x - a.x) / (b.x - a.x) : 0;
+  if (a.y > 0 && b.y > 0) return a.y * Math.pow(b.y / a.y, t);
+  return a.y + (b.y - a.y) * t;
+};
+
+/**
+ * Zooms a domain about `center` by `factor` (< 1 zooms in); log axes zoom in log space.
+ */
+export const zoomDomain = (domain: [number, number], center: number, factor: number, log: boolean): [number, number] => {
+  if (log) {
+    const [a, b, c] = [Math.log10(domain[0]), Math.log10(domain[1]), Math.log10(center)];
+    return [Math.pow(10, c - (c - a) * factor), Math.pow(10, c + (b - c) * factor)];
+  }
+  return [center - (center - domain[0]) * factor, center + (domain[1] - center) * factor];
+};
+
+/**
+ * Shifts a domain by `fraction` of its width (in log space for log axes).
+ */
+export const panDomain = (domain: [number, number], fraction: number, log: boolean): [number, number] => {
+  if (log) {
+    const shift = (Math.log10(domain[1]) - Math.log10(domain[0])) * fraction;
+    return [domain[0] * Math.pow(10, shift), domain[1] * Math.pow(10, shift)];
+  }
+  const shift = (domain[1] - domain[0]) * fraction;
+  return [domain[0] + shift, domain[1] + shift];
+};
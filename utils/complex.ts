@@ -0,0 +1,44 @@
+/**
+ * Minimal complex arithmetic for the Fresnel and thin-film calculations.
+ */
+export interface Complex {
+  re: number;
+  im: number;
+}
+
+export const complex = (re: number, im: number = 0): Complex => ({ re, im });
+
+export const cAdd = (a: Complex, b: Complex): Complex => ({ re: a.re + b.re, im: a.im + b.im });
+
+export const cSub = (a: Complex, b: Complex): Complex => ({ re: a.re - b.re, im: a.im - b.im });
+
+export const cMul = (a: Complex, b: Complex): Complex => ({
+  re: a.re * b.re - a.im * b.im,
+  im: a.re * b.im + a.im * b.re,
+});
+
+export const cDiv = (a: Complex, b: Complex): Complex => {
+  const d = b.re * b.re + b.im * b.im;
+  return { re: (a.re * b.re + a.im * b.im) / d, im: (a.im * b.re - a.re * b.im) / d };
+};
+
+export const cScale = (a: Complex, s: number): Complex => ({ re: a.re * s, im: a.im * s });
+
+export const cConj = (a: Complex): Complex => ({ re: a.re, im: -a.im });
+
+export const cAbs2 = (a: Complex) => a.re * a.re + a.im * a.im;
+
+/**
+ * Principal square root (non-negative real part).
+ */
+export const cSqrt = (a: Complex): Complex => {
+  const r = Math.hypot(a.re, a.im);
+  const re = Math.sqrt(Math.max(0, (r + a.re) / 2));
+  const im = Math.sqrt(Math.max(0, (r - a.re) / 2));
+  return { re, im: a.im < 0 ? -im : im };
+};
+
+export const cExp = (a: Complex): Complex => {
+  const m = Math.exp(a.re);
+  return { re: m * Math.cos(a.im), im: m * Math.sin(a.im) };
+};
@@ -0,0 +1,35 @@
+/**
+ * Triggers a browser download of in-memory content.
+ */
+export const downloadFile = (content: BlobPart, fileName: string, type: string = 'text/csv;charset=utf-8;') => {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.setAttribute("href", url);
+  link.setAttribute("download", fileName);
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Opens the browser's print dialog for a standalone HTML document, from which it can be
+ * saved as PDF. The document's title becomes the suggested file name.
+ */
+export const printDocument = (html: string) => {
+  const frame = document.createElement("iframe");
+  frame.style.position = "fixed";
+  frame.style.width = "0";
+  frame.style.height = "0";
+  frame.style.border = "0";
+  frame.onload = () => {
+    const win = frame.contentWindow;
+    if (!win) return;
+    win.onafterprint = () => frame.remove();
+    win.focus();
+    win.print();
+  };
+  frame.srcdoc = html;
+  document.body.appendChild(frame);
+};
@@ -0,0 +1,81 @@
+/**
+ * In-place iterative radix-2 complex FFT. `inverse` applies the 1/N scaling.
+ * The length of re/im must be a power of two.
+ */
+export const fft = (re: Float64Array, im: Float64Array, inverse: boolean = false) => {
+  const n = re.length;
+  if (n & (n - 1)) throw new Error(`FFT length ${n} is not a power of two`);
+
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+
+  for (let len = 2; len <= n; len <<= 1) {
+    const angle = ((inverse ? 2 : -2) * Math.PI) / len;
+    const wRe = Math.cos(angle);
+    const wIm = Math.sin(angle);
+    for (let i = 0; i < n; i += len) {
+      let curRe = 1;
+      let curIm = 0;
+      for (let k = 0; k < len / 2; k++) {
+        const a = i + k;
+        const b = a + len / 2;
+        const tRe = re[b] * curRe - im[b] * curIm;
+        const tIm = re[b] * curIm + im[b] * curRe;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+        const nextRe = curRe * wRe - curIm * wIm;
+        curIm = curRe * wIm + curIm * wRe;
+        curRe = nextRe;
+      }
+    }
+  }
+
+  if (inverse) {
+    for (let i = 0; i < n; i++) {
+      re[i] /= n;
+      im[i] /= n;
+    }
+  }
+};
+
+/**
+ * In-place 2D FFT of a row-major rows × cols array.
+ */
+export const fft2D = (re: Float64Array, im: Float64Array, rows: number, cols: number, inverse: boolean = false) => {
+  const rowRe = new Float64Array(cols);
+  const rowIm = new Float64Array(cols);
+  for (let r = 0; r < rows; r++) {
+    rowRe.set(re.subarray(r * cols, (r + 1) * cols));
+    rowIm.set(im.subarray(r * cols, (r + 1) * cols));
+    fft(rowRe, rowIm, inverse);
+    re.set(rowRe, r * cols);
+    im.set(rowIm, r * cols);
+  }
+  const colRe = new Float64Array(rows);
+  const colIm = new Float64Array(rows);
+  for (let c = 0; c < cols; c++) {
+    for (let r = 0; r < rows; r++) {
+      colRe[r] = re[r * cols + c];
+      colIm[r] = im[r * cols + c];
+    }
+    fft(colRe, colIm, inverse);
+    for (let r = 0; r < rows; r++) {
+      re[r * cols + c] = colRe[r];
+      im[r * cols + c] = colIm[r];
+    }
+  }
+};
+
+/**
+ * Signed FFT frequency of bin k for an N-point transform with sample spacing d.
+ */
+export const fftFrequency = (k: number, n: number, d: number) => (k < n / 2 ? k : k - n) / (n * d);
@@ -0,0 +1,236 @@
+import {
+  BRDFFitResult,
+  FitParameter,
+  FitParameterEstimate,
+  MeasuredBRDF,
+  ModelType,
+  ScatteringOptions,
+  SurfaceParameters,
+} from '../types';
+import { calculateScattering } from './physics';
+import { invertMatrix, solveLinear } from './linalg';
+
+/** Angular step of the model curves during fitting, in degrees. */
+const FIT_STEP = 0.1;
+const MAX_ITERATIONS = 40;
+/** Lowest intensity, relative to the peak, that takes part in the fit. */
+const DYNAMIC_RANGE = 1e-8;
+const LN10 = Math.LN10;
+
+/** Parameters that each model can identify from an in-plane BRDF. */
+export const FIT_PARAMETERS_BY_MODEL: Record<ModelType, FitParameter[]> = {
+  'Auto': ['ra', 'slopeFactor', 'reflectivity'],
+  'Rayleigh-Rice': ['ra', 'correlationLength', 'psdExponent', 'reflectivity'],
+  // The Beckmann slope scales with ra·slopeFactor, so only one of the two is identifiable.
+  'Beckmann': ['ra', 'reflectivity'],
+  'Harvey-Shack': ['ra', 'correlationLength', 'psdExponent', 'reflectivity'],
+  'Kirchhoff-Numerical': ['ra', 'correlationLength', 'reflectivity'],
+  // The microfacet widths scale with the PSD slope ∝ Ra·slopeFactor, so again only Ra is identified.
+  'Microfacet-Beckmann': ['ra', 'reflectivity'],
+  'Microfacet-GGX': ['ra', 'reflectivity'],
+  'Microfacet-StudentT': ['ra', 'reflectivity'],
+};
+
+export const FIT_PARAMETER_LABELS: Record<FitParameter, string> = {
+  ra: 'Ra (µm)',
+  slopeFactor: '斜率因子',
+  reflectivity: '反射率',
+  correlationLength: 'ℓ (µm)',
+  psdExponent: 'C',
+};
+
+/**
+ * Parses a measured in-plane BRDF: the first two numeric columns are angle (degrees) and
+ * intensity. Comment (#) and header lines are skipped, so the app's own BRDF export
+ * reads back directly.
+ */
+export const parseMeasuredBRDF = (text: string, name: string): MeasuredBRDF => {
+  const rows: [number, number][] = [];
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (!line || line.startsWith('#')) continue;
+    const fields = line.split(/[\s,;]+/).map(Number);
+    if (fields.length < 2 || fields.slice(0, 2).some(v => !Number.isFinite(v))) continue;
+    rows.push([fields[0], fields[1]]);
+  }
+  if (rows.length < 3) throw new Error('BRDF file needs at least three angle,intensity rows');
+  rows.sort((a, b) => a[0] - b[0]);
+  return { name, angles: rows.map(r => r[0]), intensity: rows.map(r => r[1]) };
+};
+
+/**
+ * Fit parameters live in a transformed space: positive quantities as log10, the PSD exponent
+ * directly (clamped to its valid range).
+ */
+const toInternal = (name: FitParameter, value: number) =>
+  name === 'psdExponent' ? value : Math.log10(Math.max(1e-9, value));
+
+const fromInternal = (name: FitParameter, x: number) => {
+  if (name === 'psdExponent') return Math.min(6, Math.max(1.05, x));
+  if (name === 'reflectivity') return Math.min(1, Math.pow(10, x));
+  return Math.pow(10, x);
+};
+
+/**
+ * Levenberg–Marquardt fit of a model to a measured in-plane BRDF, minimising log10 residuals so
+ * the specular peak and the wide-angle tail carry comparable weight. Points with non-positive
+ * intensity are ignored and both curves are floored at `DYNAMIC_RANGE` below the measured peak. The reflectivity scales the whole curve (the manual perfect-conductor
+ * path), so its Jacobian column is analytic; the others use forward differences.
+ * Uncertainties are the square roots of the diagonal of s²·(JᵀJ)⁻¹ at the optimum,
+ * propagated from the transformed parameters.
+ */
+export const fitBRDF = (
+  measured: MeasuredBRDF,
+  modelType: ModelType,
+  initial: SurfaceParameters,
+  parameters: FitParameter[] = FIT_PARAMETERS_BY_MODEL[modelType],
+  options: ScatteringOptions = {}
+): BRDFFitResult => {
+  const points = measured.angles
+    .map((angle, i) => ({ angle, value: measured.intensity[i] }))
+    .filter(p => p.value > 0 && Math.abs(p.angle) <= 90);
+  if (points.length <= parameters.length) throw new Error('Not enough positive data points for the selected parameters');
+  // Values below the dynamic range of a real instrument are compared at its noise floor.
+  const floor = points.reduce((m, p) => Math.max(m, p.value), 0) * DYNAMIC_RANGE;
+  const target = points.map(p => Math.log10(Math.max(floor, p.value)));
+
+  const names = parameters;
+  let x = names.map(name => toInternal(name, initial[name]));
+
+  const valueOf = (name: FitParameter, xs: number[]) => {
+    const k = names.indexOf(name);
+    return k >= 0 ? fromInternal(name, xs[k]) : initial[name];
+  };
+
+  // log10 BRDF of the model at the measured angles for reflectivity 1.
+  const shape = (xs: number[]) => {
+    const curve = calculateScattering(
+      valueOf('ra', xs),
+      initial.wavelength,
+      initial.incidentAngle,
+      modelType,
+      FIT_STEP,
+      1,
+      valueOf('slopeFactor', xs),
+      {
+        ...options,
+        refractiveIndex: undefined,
+        correlationLength: valueOf('correlationLength', xs),
+        psdExponent: valueOf('psdExponent', xs),
+      }
+    );
+    return points.map(p => {
+      const f = (p.angle + 90) / FIT_STEP;
+      const i0 = Math.min(curve.length - 1, Math.floor(f));
+      const i1 = Math.min(curve.length - 1, i0 + 1);
+      const t = f - i0;
+      const v = curve[i0].intensity * (1 - t) + curve[i1].intensity * t;
+      return Math.log10(Math.max(floor, v));
+    });
+  };
+  const predict = (xs: number[], base: number[]) =>
+    base.map(v => Math.max(Math.log10(floor), v + Math.log10(valueOf('reflectivity', xs))));
+  const sumSquares = (r: number[]) => r.reduce((acc, v) => acc + v * v, 0);
+
+  // Best log-scale offset for a given shape: the optimal reflectivity in closed form.
+  const bestReflectivity = (b: number[]) =>
+    Math.min(0, target.reduce((acc, v, i) => acc + v - b[i], 0) / target.length);
+  const kRa = names.indexOf('ra');
+  const kR = names.indexOf('reflectivity');
+  if (kRa >= 0) {
+    // Coarse scan of Ra over ±2 decades, so LM starts where the model lobe overlaps the data.
+    let best = { cost: Infinity, xs: x };
+    for (let decade = -2; decade <= 2; decade += 0.5) {
+      const xs = [...x];
+      xs[kRa] += decade;
+      const b = shape(xs);
+      if (kR >= 0) xs[kR] = bestReflectivity(b);
+      const c = sumSquares(predict(xs, b).map((v, i) => v - target[i]));
+      if (c < best.cost) best = { cost: c, xs };
+    }
+    x = best.xs;
+  } else if (kR >= 0) {
+    x[kR] = bestReflectivity(shape(x));
+  }
+
+  let base = shape(x);
+  let residuals = predict(x, base).map((v, i) => v - target[i]);
+  let cost = sumSquares(residuals);
+  let lambda = 1e-2;
+  let iterations = 0;
+  let converged = false;
+  let jacobian: number[][] = [];
+
+  for (; iterations < MAX_ITERATIONS; iterations++) {
+    jacobian = points.map(() => new Array(names.length).fill(0));
+    names.forEach((name, k) => {
+      if (name === 'reflectivity') {
+        // d log10(R·shape) / d log10 R = 1; steps beyond R = 1 are clamped.
+        points.forEach((_, i) => { jacobian[i][k] = 1; });
+        return;
+      }
+      const h = 1e-3;
+      const xs = [...x];
+      xs[k] += h;
+      const shifted = shape(xs);
+      points.forEach((_, i) => { jacobian[i][k] = (shifted[i] - base[i]) / h; });
+    });
+
+    const jtj = names.map((_, a) => names.map((_, b) => points.reduce((acc, __, i) => acc + jacobian[i][a] * jacobian[i][b], 0)));
+    const jtr = names.map((_, a) => points.reduce((acc, __, i) => acc + jacobian[i][a] * residuals[i], 0));
+
+    let improved = false;
+    while (lambda < 1e8) {
+      const damped = jtj.map((row, a) => row.map((v, b) => (a === b ? v * (1 + lambda) + 1e-12 : v)));
+      const delta = solveLinear(damped, jtr.map(v => -v));
+      const candidate = x.map((v, k) => toInternal(names[k], fromInternal(names[k], v + delta[k])));
+      const candidateBase = shape(candidate);
+      const candidateResiduals = predict(candidate, candidateBase).map((v, i) => v - target[i]);
+      const candidateCost = sumSquares(candidateResiduals);
+      if (candidateCost < cost) {
+        const gain = cost - candidateCost;
+        x = candidate;
+        base = candidateBase;
+        residuals = candidateResiduals;
+        cost = candidateCost;
+        lambda = Math.max(1e-7, lambda / 3);
+        improved = true;
+        if (gain < 1e-8 * (1 + cost)) converged = true;
+        break;
+      }
+      lambda *= 4;
+    }
+    if (!improved) {
+      converged = true;
+      break;
+    }
+    if (converged) break;
+  }
+
+  const dof = Math.max(1, points.length - names.length);
+  const s2 = cost / dof;
+  const jtj = names.map((_, a) => names.map((_, b) => points.reduce((acc, __, i) => acc + jacobian[i][a] * jacobian[i][b], 0)));
+  const covariance = invertMatrix(jtj);
+  const estimates: FitParameterEstimate[] = names.map((name, k) => {
+    const value = fromInternal(name, x[k]);
+    const sigma = Math.sqrt(Math.max(0, covariance[k][k] * s2));
+    // Log-parametrised values: dv = v·ln10·dx.
+    return { name, value, uncertainty: name === 'psdExponent' ? sigma : value * LN10 * sigma };
+  });
+
+  const mean = target.reduce((acc, v) => acc + v, 0) / target.length;
+  const total = target.reduce((acc, v) => acc + (v - mean) * (v - mean), 0);
+  const fittedLog = predict(x, base);
+
+  return {
+    modelType,
+    parameters: estimates,
+    fitted: points.map((p, i) => ({ angle: p.angle, intensity: Math.pow(10, fittedLog[i]) })),
+    residuals,
+    rmsLog: Math.sqrt(cost / points.length),
+    reducedChiSquared: s2,
+    rSquared: total > 0 ? 1 - cost / total : 0,
+    iterations,
+    converged,
+  };
+};
@@ -0,0 +1,29 @@
+import { RefractiveIndex } from '../types';
+import { Complex, cAbs2, cAdd, cDiv, cMul, cSqrt, cSub, complex } from './complex';
+
+/**
+ * Complex Fresnel amplitude coefficients for light incident from vacuum onto a
+ * medium with index N = n + ik at angle theta (radians).
+ */
+export const fresnelCoefficients = (index: RefractiveIndex, theta: number): { rs: Complex; rp: Complex } => {
+  const N = complex(index.n, index.k);
+  const N2 = cMul(N, N);
+  const sin = Math.sin(theta);
+  const cosI = complex(Math.cos(theta));
+  // N·cosθt = sqrt(N² − sin²θi)
+  const nCosT = cSqrt(cSub(N2, complex(sin * sin)));
+  const rs = cDiv(cSub(cosI, nCosT), cAdd(cosI, nCosT));
+  const n2CosI = cMul(N2, cosI);
+  const rp = cDiv(cSub(n2CosI, nCosT), cAdd(n2CosI, nCosT));
+  return { rs, rp };
+};
+
+/**
+ * Fresnel power reflectances for s, p and unpolarized light at theta (radians).
+ */
+export const fresnelReflectance = (index: RefractiveIndex, theta: number) => {
+  const { rs, rp } = fresnelCoefficients(index, theta);
+  const Rs = cAbs2(rs);
+  const Rp = cAbs2(rp);
+  return { Rs, Rp, R: (Rs + Rp) / 2 };
+};
@@ -0,0 +1,271 @@
+import { PSDSettings } from '../types';
+import { DEFAULT_PSD_SETTINGS, evaluatePSD2D } from './psd';
+
+/**
+ * Angle spread function of the generalized Harvey-Shack model: scattered radiance per unit
+ * direction-cosine area at (α − α0, β − β0), for a scatter direction with cosine cosθs.
+ * Excludes the specular (coherent) part.
+ */
+export type AngleSpreadFunction = (dAlpha: number, dBeta: number, cosS: number) => number;
+
+/** Log-spaced radii of the autocovariance table, in decades of the correlation length. */
+const ACV_DECADE_MIN = -6;
+const ACV_DECADE_MAX = 2;
+const ACV_DECADE_STEP = 0.01;
+
+/** Nodes in cosθs at which the transfer function is transformed; interpolated in between. */
+const SPREAD_NODES = 13;
+/** Log-spaced radial direction-cosine samples per node, plus ρ = 0. */
+const SPREAD_SAMPLES = 96;
+const SPREAD_RHO_MIN = 1e-5;
+const MAX_RADIAL_SAMPLES = 2048;
+/** Below this (2πσ̂)² the transfer function is linear in the ACV and transformed analytically. */
+const LINEAR_LIMIT = 1e-3;
+
+/** Bessel functions of the first kind (rational approximations, |error| < 1e-8). */
+const besselJ0 = (x: number) => {
+  const ax = Math.abs(x);
+  if (ax < 8) {
+    const y = x * x;
+    const p = 57568490574.0 + y * (-13362590354.0 + y * (651619640.7 + y * (-11214424.18 + y * (77392.33017 + y * -184.9052456))));
+    const q = 57568490411.0 + y * (1029532985.0 + y * (9494680.718 + y * (59272.64853 + y * (267.8532712 + y))));
+    return p / q;
+  }
+  const z = 8 / ax;
+  const y = z * z;
+  const xx = ax - 0.785398164;
+  const p = 1 + y * (-0.1098628627e-2 + y * (0.2734510407e-4 + y * (-0.2073370639e-5 + y * 0.2093887211e-6)));
+  const q = -0.1562499995e-1 + y * (0.1430488765e-3 + y * (-0.6911147651e-5 + y * (0.7621095161e-6 - y * 0.934935152e-7)));
+  return Math.sqrt(0.636619772 / ax) * (Math.cos(xx) * p - z * Math.sin(xx) * q);
+};
+
+const besselJ1 = (x: number) => {
+  const ax = Math.abs(x);
+  if (ax < 8) {
+    const y = x * x;
+    const p = x * (72362614232.0 + y * (-7895059235.0 + y * (242396853.1 + y * (-2972611.439 + y * (15704.48260 + y * -30.16036606)))));
+    const q = 144725228442.0 + y * (2300535178.0 + y * (18583304.74 + y * (99447.43394 + y * (376.9991397 + y))));
+    return p / q;
+  }
+  const z = 8 / ax;
+  const y = z * z;
+  const xx = ax - 2.356194491;
+  const p = 1 + y * (0.183105e-2 + y * (-0.3516396496e-4 + y * (0.2457520174e-5 + y * -0.240337019e-6)));
+  const q = 0.04687499995 + y * (-0.2002690873e-3 + y * (0.8449199096e-5 + y * (-0.88228987e-6 + y * 0.105787412e-6)));
+  const value = Math.sqrt(0.636619772 / ax) * (Math.cos(xx) * p - z * Math.sin(xx) * q);
+  return x < 0 ? -value : value;
+};
+
+const LANCZOS = [
+  676.5203681218851, -1259.1392167224028, 771.32342877765313, -176.61502916214059,
+  12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7,
+];
+
+const gamma = (z: number): number => {
+  if (z < 0.5) return Math.PI / (Math.sin(Math.PI * z) * gamma(1 - z));
+  const x = z - 1;
+  let sum = 0.99999999999980993;
+  LANCZOS.forEach((c, i) => { sum += c / (x + i + 1); });
+  const t = x + LANCZOS.length - 0.5;
+  return Math.sqrt(2 * Math.PI) * Math.pow(t, x + 0.5) * Math.exp(-t) * sum;
+};
+
+/**
+ * Modified Bessel function K_ν(u) = ∫ exp(−u·cosh t)·cosh(νt) dt; the trapezoid rule
+ * converges geometrically for this integrand.
+ */
+const besselK = (nu: number, u: number) => {
+  const h = 0.05;
+  let sum = 0.5 * Math.exp(-u);
+  for (let t = h; u * Math.cosh(t) < 700; t += h) {
+    const term = Math.exp(-u * Math.cosh(t)) * Math.cosh(nu * t);
+    sum += term;
+    if (term < 1e-17 * sum) break;
+  }
+  return h * sum;
+};
+
+/**
+ * ∫ x^−C (1 − J0(x)) dx from x0 to ∞, for the fractal structure function. Tabulated once
+ * per exponent: logarithmic below x = 1, linear above, the non-oscillating tail analytically.
+ */
+const createFractalTail = (C: number) => {
+  const X = 400;
+  const xs: number[] = [];
+  for (let u = -3; u < 0; u += 0.01) xs.push(Math.pow(10, u));
+  for (let x = 1; x <= X; x += 0.02) xs.push(x);
+  const f = (x: number) => Math.pow(x, -C) * (1 - besselJ0(x));
+  const tail = new Float64Array(xs.length);
+  tail[xs.length - 1] = Math.pow(X, 1 - C) / (C - 1);
+  for (let i = xs.length - 2; i >= 0; i--) {
+    tail[i] = tail[i + 1] + 0.5 * (f(xs[i]) + f(xs[i + 1])) * (xs[i + 1] - xs[i]);
+  }
+  return (x0: number) => {
+    if (x0 >= X) return Math.pow(x0, 1 - C) / (C - 1);
+    if (x0 <= xs[0]) {
+      // 1 − J0 ≈ x²/4 below the table.
+      const below = C === 3 ? Math.log(xs[0] / x0) / 4 : (Math.pow(xs[0], 3 - C) - Math.pow(x0, 3 - C)) / (4 * (3 - C));
+      return tail[0] + below;
+    }
+    let lo = 0;
+    let hi = xs.length - 1;
+    while (hi - lo > 1) {
+      const mid = (lo + hi) >> 1;
+      if (xs[mid] <= x0) lo = mid;
+      else hi = mid;
+    }
+    const t = (x0 - xs[lo]) / (xs[hi] - xs[lo]);
+    return tail[lo] * (1 - t) + tail[hi] * t;
+  };
+};
+
+/**
+ * Normalised autocovariance c(r) = ACV(r)/σ² of the isotropic PSD model, and the structure
+ * function d(r) = 1 − c(r) kept separately for precision near r = 0. Tabulated on log-spaced
+ * radii (µm); d is interpolated log-log, which is exact for the power-law behaviour at small r.
+ */
+const createAutocovariance = (settings: PSDSettings) => {
+  const l = Math.max(1e-6, settings.correlationLength);
+  let pair: (r: number) => [number, number];
+  switch (settings.psdModel) {
+    case 'Gaussian':
+      pair = r => [Math.exp(-(r * r) / (l * l)), -Math.expm1(-(r * r) / (l * l))];
+      break;
+    case 'Exponential':
+      pair = r => [Math.exp(-r / l), -Math.expm1(-r / l)];
+      break;
+    case 'Fractal': {
+      // d(r) = 2π∫ p(f)(1 − J0(2πfr)) f df, with p flat below f0 = 1/ℓ and ∝ f^−(C+1) above.
+      const C = Math.max(1.01, settings.psdExponent);
+      const f0 = 1 / l;
+      const a = (C - 1) / (Math.PI * Math.pow(f0, 1 - C) * (C + 1));
+      const tail = createFractalTail(C);
+      pair = r => {
+        const x0 = 2 * Math.PI * f0 * r;
+        const flat = Math.pow(f0, -(C + 1)) * (f0 * f0 / 2 - (f0 * besselJ1(x0)) / (2 * Math.PI * r));
+        const d = 2 * Math.PI * a * (flat + Math.pow(2 * Math.PI * r, C - 1) * tail(x0));
+        return [1 - d, d];
+      };
+      break;
+    }
+    case 'ABC':
+    default: {
+      // K-correlation: c = (2/Γ(ν))·(u/2)^ν·K_ν(u), ν = (C − 1)/2, u = 2πr/B = r/ℓ.
+      const nu = (Math.max(1.01, settings.psdExponent) - 1) / 2;
+      const norm = 2 / gamma(nu);
+      pair = r => {
+        const c = Math.min(1, norm * Math.pow(r / (2 * l), nu) * besselK(nu, r / l));
+        return [c, 1 - c];
+      };
+    }
+  }
+
+  const count = Math.round((ACV_DECADE_MAX - ACV_DECADE_MIN) / ACV_DECADE_STEP) + 1;
+  const radii = new Float64Array(count);
+  const c = new Float64Array(count);
+  const logD = new Float64Array(count);
+  for (let i = 0; i < count; i++) {
+    radii[i] = l * Math.pow(10, ACV_DECADE_MIN + i * ACV_DECADE_STEP);
+    const [ci, di] = pair(radii[i]);
+    c[i] = ci;
+    logD[i] = Math.log(Math.max(1e-300, di));
+  }
+
+  const locate = (r: number) => {
+    const f = (Math.log10(r / l) - ACV_DECADE_MIN) / ACV_DECADE_STEP;
+    const i = Math.max(0, Math.min(count - 2, Math.floor(f)));
+    return { i, t: f - i };
+  };
+  return {
+    radii,
+    c: (r: number) => {
+      if (r <= radii[0]) return 1;
+      if (r >= radii[count - 1]) return 0;
+      const { i, t } = locate(r);
+      return c[i] * (1 - t) + c[i + 1] * t;
+    },
+    d: (r: number) => {
+      if (r >= radii[count - 1]) return 1;
+      const { i, t } = locate(r);
+      return Math.exp(logD[i] * (1 - t) + logD[i + 1] * t);
+    },
+  };
+};
+
+/**
+ * Generalized Harvey-Shack (Krywonos) angle spread function. The surface transfer function
+ * H(x̂, ŷ) = exp{−(2πσ̂)²[1 − ACV(λx̂, λŷ)/σ²]} with σ̂ = σ(cosθi + cosθs)/λ carries the
+ * obliquity of both directions; its scattering part H − exp(−(2πσ̂)²) is Fourier-transformed
+ * into direction-cosine space. The first-order term is the PSD itself; the higher orders,
+ * which take over for moderately rough surfaces, are Hankel-transformed numerically at a set
+ * of cosθs nodes. Anisotropy stretches the ACV along y, as in `evaluatePSD2D`.
+ */
+export const createHarveyShackTransfer = (
+  sigma: number,
+  lambda: number,
+  thetaInc: number,
+  settings: PSDSettings = DEFAULT_PSD_SETTINGS
+): AngleSpreadFunction => {
+  const anisotropy = Math.max(1e-3, settings.anisotropy ?? 1);
+  const cosI = Math.cos(thetaInc);
+  const acv = createAutocovariance(settings);
+  const phase = (cosS: number) => Math.pow((2 * Math.PI * sigma * (cosI + cosS)) / lambda, 2);
+
+  const rhoMax = 2 + anisotropy;
+  const rho = new Float64Array(SPREAD_SAMPLES + 1);
+  for (let i = 1; i <= SPREAD_SAMPLES; i++) {
+    rho[i] = SPREAD_RHO_MIN * Math.pow(rhoMax / SPREAD_RHO_MIN, (i - 1) / (SPREAD_SAMPLES - 1));
+  }
+
+  // Hankel transform of the higher-order part R(r) = exp(−s·d(r)) − exp(−s)(1 + s·c(r)).
+  const higherOrders = (s: number) => {
+    const values = new Float64Array(SPREAD_SAMPLES + 1);
+    if (s < LINEAR_LIMIT) return values;
+    const remainder = (r: number) => Math.exp(-s * acv.d(r)) - Math.exp(-s) * (1 + s * acv.c(r));
+    const peak = -Math.expm1(-s) - s * Math.exp(-s);
+    let halfWidth = 0;
+    let extent = acv.radii[acv.radii.length - 1];
+    for (let i = 0; i < acv.radii.length; i++) {
+      const v = remainder(acv.radii[i]);
+      if (!halfWidth && v < peak / 2) halfWidth = acv.radii[i];
+      if (Math.abs(v) > 1e-9 * peak) extent = acv.radii[Math.min(acv.radii.length - 1, i + 1)];
+    }
+    const samples = Math.min(MAX_RADIAL_SAMPLES, Math.ceil(extent / Math.min(lambda / 16, (halfWidth || extent) / 16)));
+    const dr = extent / samples;
+    const radial = new Float64Array(samples + 1);
+    for (let j = 1; j <= samples; j++) {
+      radial[j] = remainder(j * dr) * j * dr * dr * (j === samples ? 0.5 : 1);
+    }
+    for (let i = 0; i <= SPREAD_SAMPLES; i++) {
+      // Beyond a quarter of the radial sampling rate the trapezoid rule would alias.
+      if (rho[i] * dr > lambda / 4) break;
+      const k = (2 * Math.PI * rho[i]) / lambda;
+      let sum = 0;
+      for (let j = 1; j <= samples; j++) sum += radial[j] * besselJ0(k * j * dr);
+      values[i] = (2 * Math.PI * sum) / (lambda * lambda);
+    }
+    return values;
+  };
+  const nodes = Array.from({ length: SPREAD_NODES }, (_, k) => higherOrders(phase(k / (SPREAD_NODES - 1))));
+
+  const lookup = (values: Float64Array, r: number) => {
+    if (r <= rho[1]) return values[0] + (values[1] - values[0]) * (r / rho[1]);
+    if (r >= rhoMax) return 0;
+    const f = 1 + ((SPREAD_SAMPLES - 1) * Math.log(r / SPREAD_RHO_MIN)) / Math.log(rhoMax / SPREAD_RHO_MIN);
+    const i = Math.min(SPREAD_SAMPLES - 1, Math.floor(f));
+    const t = f - i;
+    return values[i] * (1 - t) + values[i + 1] * t;
+  };
+
+  return (dAlpha, dBeta, cosS) => {
+    if (cosS <= 0) return 0;
+    const s = phase(cosS);
+    const firstOrder = Math.exp(-s) * s * evaluatePSD2D(dAlpha / lambda, dBeta / lambda, 1, settings) / (lambda * lambda);
+    const r = Math.hypot(dAlpha, anisotropy * dBeta);
+    const position = cosS * (SPREAD_NODES - 1);
+    const k = Math.min(SPREAD_NODES - 2, Math.floor(position));
+    const t = position - k;
+    const higher = lookup(nodes[k], r) * (1 - t) + lookup(nodes[k + 1], r) * t;
+    return Math.max(0, firstOrder + anisotropy * higher);
+  };
+};
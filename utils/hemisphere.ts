@@ -0,0 +1,72 @@
+import { HemisphericalBRDF, ScatteringData } from '../types';
+
+const DEG = Math.PI / 180;
+
+/**
+ * Bilinearly samples a hemispherical BRDF grid at (θs, φs) in degrees.
+ * φs wraps around; θs beyond 90° returns 0.
+ */
+export const sampleHemisphere = (grid: HemisphericalBRDF, thetaDeg: number, phiDeg: number) => {
+  if (thetaDeg < 0) {
+    thetaDeg = -thetaDeg;
+    phiDeg += 180;
+  }
+  if (thetaDeg > 90) return 0;
+  const ft = Math.min(grid.nTheta - 1, thetaDeg / grid.thetaStep);
+  const i0 = Math.floor(ft);
+  const i1 = Math.min(grid.nTheta - 1, i0 + 1);
+  const tt = ft - i0;
+
+  const fp = ((((phiDeg % 360) + 360) % 360) / grid.phiStep);
+  const j0 = Math.floor(fp) % grid.nPhi;
+  const j1 = (j0 + 1) % grid.nPhi;
+  const tp = fp - Math.floor(fp);
+
+  const v = (i: number, j: number) => grid.values[i * grid.nPhi + j];
+  const top = v(i0, j0) * (1 - tp) + v(i0, j1) * tp;
+  const bottom = v(i1, j0) * (1 - tp) + v(i1, j1) * tp;
+  return top * (1 - tt) + bottom * tt;
+};
+
+/**
+ * Slice through the surface normal at azimuth φ. Negative angles lie at φ + 180°.
+ * The φ = 0 slice is the in-plane curve of `calculateScattering`.
+ */
+export const azimuthalSlice = (grid: HemisphericalBRDF, phiDeg: number, step: number = 1): ScatteringData[] => {
+  const data: ScatteringData[] = [];
+  for (let a = -90; a <= 90; a += step) {
+    data.push({ angle: a, intensity: sampleHemisphere(grid, a, phiDeg) });
+  }
+  return data;
+};
+
+/**
+ * Cross-plane slice: the great circle through the specular direction perpendicular
+ * to the plane of incidence. The angle is the rotation ψ away from specular.
+ */
+export const crossPlaneSlice = (grid: HemisphericalBRDF, step: number = 1): ScatteringData[] => {
+  const cosI = Math.cos(grid.thetaInc * DEG);
+  const sinI = Math.sin(grid.thetaInc * DEG);
+  const data: ScatteringData[] = [];
+  for (let psi = -90; psi <= 90; psi += step) {
+    const c = Math.cos(psi * DEG);
+    const s = Math.sin(psi * DEG);
+    const thetaS = Math.acos(Math.min(1, c * cosI)) / DEG;
+    const phiS = Math.atan2(s, c * sinI) / DEG;
+    data.push({ angle: psi, intensity: sampleHemisphere(grid, thetaS, phiS) });
+  }
+  return data;
+};
+
+/**
+ * Perceptually ordered false-colour map (viridis-like) for t ∈ [0, 1].
+ */
+export const falseColor = (t: number): [number, number, number] => {
+  const stops: [number, number, number][] = [
+    [68, 1, 84], [59, 82, 139], [33, 145, 140], [94, 201, 98], [253, 231, 37],
+  ];
+  const x = Math.min(1, Math.max(0, t)) * (stops.length - 1);
+  const k = Math.min(stops.length - 2, Math.floor(x));
+  const f = x - k;
+  return [0, 1, 2].map(c => Math.round(stops[k][c] + (stops[k + 1][c] - stops[k][c]) * f)) as [number, number, number];
+};
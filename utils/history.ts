@@ -0,0 +1,43 @@
+import { UndoHistory } from '../types';
+
+/** Most undo steps kept. */
+const HISTORY_LIMIT = 100;
+/** Changes closer together than this (a slider drag, typing) merge into one undo step. */
+const COALESCE_MS = 600;
+
+export const createHistory = <T>(present: T): UndoHistory<T> => ({ past: [], present, future: [], committedAt: 0 });
+
+/**
+ * Makes `next` the present state. A change that follows the previous one within the
+ * coalescing window replaces it instead of adding a step; any change clears the redo stack.
+ */
+export const commitHistory = <T>(history: UndoHistory<T>, next: T, now: number): UndoHistory<T> => {
+  if (next === history.present) return history;
+  const coalesce = history.past.length > 0 && history.future.length === 0 && now - history.committedAt < COALESCE_MS;
+  return {
+    past: coalesce ? history.past : [...history.past, history.present].slice(-HISTORY_LIMIT),
+    present: next,
+    future: [],
+    committedAt: now,
+  };
+};
+
+export const undoHistory = <T>(history: UndoHistory<T>): UndoHistory<T> => {
+  if (!history.past.length) return history;
+  return {
+    past: history.past.slice(0, -1),
+    present: history.past[history.past.length - 1],
+    future: [history.present, ...history.future],
+    committedAt: 0,
+  };
+};
+
+export const redoHistory = <T>(history: UndoHistory<T>): UndoHistory<T> => {
+  if (!history.future.length) return history;
+  return {
+    past: [...history.past, history.present],
+    present: history.future[0],
+    future: history.future.slice(1),
+    committedAt: 0,
+  };
+};
@@ -0,0 +1,32 @@
+/**
+ * Solves the linear system A·x = b with Gaussian elimination and partial pivoting.
+ */
+export const solveLinear = (A: number[][], b: number[]) => {
+  const n = b.length;
+  const M = A.map((row, i) => [...row, b[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) {
+      if (Math.abs(M[r][col]) > Math.abs(M[pivot][col])) pivot = r;
+    }
+    [M[col], M[pivot]] = [M[pivot], M[col]];
+    const p = M[col][col];
+    if (Math.abs(p) < 1e-300) continue;
+    for (let r = 0; r < n; r++) {
+      if (r === col) continue;
+      const f = M[r][col] / p;
+      for (let c = col; c <= n; c++) M[r][c] -= f * M[col][c];
+    }
+  }
+  return M.map((row, i) => (Math.abs(row[i]) < 1e-300 ? 0 : row[n] / row[i]));
+};
+
+/**
+ * Inverse of a square matrix, column by column through `solveLinear`.
+ * Singular directions come out as zero columns.
+ */
+export const invertMatrix = (A: number[][]) => {
+  const n = A.length;
+  const columns = Array.from({ length: n }, (_, j) => solveLinear(A, Array.from({ length: n }, (_, i) => (i === j ? 1 : 0))));
+  return Array.from({ length: n }, (_, i) => columns.map(col => col[i]));
+};
@@ -0,0 +1,114 @@
+import { DiffractionOrder, GeneratedSurface, MachiningTexture, ToolMarkProfile } from '../types';
+
+const DEG = Math.PI / 180;
+
+/** Samples of one period in the order efficiency integrals. */
+const PERIOD_SAMPLES = 2048;
+/** Highest order kept on either side; fine feeds at short wavelengths have thousands. */
+const MAX_ORDER = 512;
+/** Orders below this share of the coherent reflectance are dropped. */
+const MIN_EFFICIENCY = 1e-12;
+
+export const TOOL_MARK_PROFILES: { id: ToolMarkProfile; name: string }[] = [
+  { id: 'scallop', name: '车削圆弧刀痕' },
+  { id: 'sinusoidal', name: '正弦 (轧制)' },
+  { id: 'triangular', name: 'V 形刀痕' },
+  { id: 'sawtooth', name: '锯齿 (闪耀)' },
+];
+
+export const DEFAULT_MACHINING: MachiningTexture = {
+  enabled: false,
+  profile: 'scallop',
+  period: 20,
+  depth: 0.2,
+  layAngle: 90,
+};
+
+/**
+ * Height of the tool marks (µm, centred on half the depth) at distance `s` along the feed.
+ * A scallop is the arc left by a round-nosed tool, with its radius fixed by period and depth.
+ */
+export const toolMarkHeight = (texture: MachiningTexture, s: number) => {
+  const { period, depth } = texture;
+  const t = s / period - Math.floor(s / period);
+  switch (texture.profile) {
+    case 'sinusoidal':
+      return (depth / 2) * Math.cos(2 * Math.PI * t);
+    case 'triangular':
+      return depth * (Math.abs(2 * t - 1) - 0.5);
+    case 'sawtooth':
+      return depth * (t - 0.5);
+    default: {
+      if (depth <= 0) return 0;
+      const radius = (period * period / 4 + depth * depth) / (2 * depth);
+      const u = (t - 0.5) * period;
+      return radius - Math.sqrt(Math.max(0, radius * radius - u * u)) - depth / 2;
+    }
+  }
+};
+
+/**
+ * Unit grating vector in the surface plane, across the lay: (sinψ, −cosψ) for lay angle ψ,
+ * so marks across the plane of incidence (ψ = 90°) diffract within it.
+ */
+const gratingVector = (texture: MachiningTexture) => [Math.sin(texture.layAngle * DEG), -Math.cos(texture.layAngle * DEG)];
+
+/**
+ * Sample spacing (µm) of a synthetic surface showing the marks: at least a few periods across
+ * the grid and at least eight samples per period, otherwise the random-roughness spacing.
+ */
+export const toolMarkSpacing = (texture: MachiningTexture, size: number, spacing: number) =>
+  Math.min(Math.max(spacing, (4 * texture.period) / size), texture.period / 8);
+
+/**
+ * Adds the tool marks to a surface; columns run along x (the plane of incidence), rows along y.
+ */
+export const addToolMarks = (surface: GeneratedSurface, texture: MachiningTexture): GeneratedSurface => {
+  const [gx, gy] = gratingVector(texture);
+  return {
+    ...surface,
+    heights: surface.heights.map((row, r) =>
+      row.map((h, c) => h + toolMarkHeight(texture, c * surface.dx * gx + r * surface.dy * gy))),
+  };
+};
+
+/**
+ * Propagating orders of the marks at wavelength `lambda` (µm) and incidence `thetaInc` (degrees).
+ * Directions follow the grating equation in direction cosines, α + iβ = sinθi + m·(λ/Λ)·ĝ.
+ * Efficiencies are the scalar (Kirchhoff) ones of the mark profile, with the phase
+ * k·(cosθi + cosθm)·h of each order, renormalised over the propagating orders so that the
+ * evanescent ones are redistributed (as the angle spread function of Harvey-Shack).
+ */
+export const calculateDiffractionOrders = (texture: MachiningTexture, lambda: number, thetaInc: number): DiffractionOrder[] => {
+  const sinI = Math.sin(thetaInc * DEG);
+  const cosI = Math.cos(thetaInc * DEG);
+  const [gx, gy] = gratingVector(texture);
+  const f = lambda / Math.max(1e-6, texture.period);
+  const k = (2 * Math.PI) / lambda;
+  const heights = Array.from({ length: PERIOD_SAMPLES }, (_, j) => toolMarkHeight(texture, ((j + 0.5) / PERIOD_SAMPLES) * texture.period));
+  const maxOrder = Math.min(MAX_ORDER, Math.floor(2 / f));
+
+  const orders: DiffractionOrder[] = [];
+  for (let m = -maxOrder; m <= maxOrder; m++) {
+    const alpha = sinI + m * f * gx;
+    const beta = m * f * gy;
+    const cos2 = 1 - alpha * alpha - beta * beta;
+    if (cos2 < 0) continue;
+    const cosM = Math.sqrt(cos2);
+    const q = k * (cosI + cosM);
+    let re = 0;
+    let im = 0;
+    for (let j = 0; j < PERIOD_SAMPLES; j++) {
+      const phase = q * heights[j] - (2 * Math.PI * m * j) / PERIOD_SAMPLES;
+      re += Math.cos(phase);
+      im += Math.sin(phase);
+    }
+    orders.push({ order: m, direction: [alpha, beta, cosM], efficiency: (re * re + im * im) / (PERIOD_SAMPLES * PERIOD_SAMPLES) });
+  }
+
+  const total = orders.reduce((acc, o) => acc + o.efficiency, 0);
+  if (total <= 0) return [{ order: 0, direction: [sinI, 0, cosI], efficiency: 1 }];
+  return orders
+    .map(o => ({ ...o, efficiency: o.efficiency / total }))
+    .filter(o => o.efficiency >= MIN_EFFICIENCY);
+};
@@ -0,0 +1,181 @@
+import { MaterialData, NKPoint, RefractiveIndex } from '../types';
+
+const HC_EV_UM = 1.23984193; // Photon energy (eV) × wavelength (µm)
+
+/** Material id that keeps the manual reflectivity slider instead of Fresnel reflectance. */
+export const MANUAL_MATERIAL_ID = 'manual';
+
+/**
+ * Lorentz–Drude dielectric function of aluminium (Rakić et al., Appl. Opt. 37, 1998).
+ * `drudeDamping` (eV) replaces Γ0 to model the extra electron scattering of alloys.
+ */
+const aluminumPermittivity = (wavelength: number, drudeDamping: number) => {
+  const wp = 14.98;
+  const f0 = 0.523;
+  const oscillators = [
+    [0.227, 0.333, 0.162],
+    [0.05, 0.312, 1.544],
+    [0.166, 1.351, 1.808],
+    [0.03, 3.382, 3.473],
+  ];
+  const w = HC_EV_UM / wavelength;
+  let re = 1;
+  let im = 0;
+
+  const dRe = w * w;
+  const dIm = w * drudeDamping;
+  const dDen = dRe * dRe + dIm * dIm;
+  re -= (f0 * wp * wp * dRe) / dDen;
+  im += (f0 * wp * wp * dIm) / dDen;
+
+  for (const [f, gamma, wj] of oscillators) {
+    const lRe = wj * wj - w * w;
+    const lIm = -w * gamma;
+    const lDen = lRe * lRe + lIm * lIm;
+    re += (f * wp * wp * lRe) / lDen;
+    im -= (f * wp * wp * lIm) / lDen;
+  }
+  return { re, im };
+};
+
+const permittivityToIndex = (re: number, im: number): RefractiveIndex => {
+  const m = Math.hypot(re, im);
+  return { n: Math.sqrt(Math.max(0, (m + re) / 2)), k: Math.sqrt(Math.max(0, (m - re) / 2)) };
+};
+
+/**
+ * Log-spaced wavelength grid (µm) used for the built-in tables.
+ */
+const wavelengthGrid = (min: number, max: number, count: number) =>
+  Array.from({ length: count }, (_, i) => min * Math.pow(max / min, i / (count - 1)));
+
+const tabulate = (min: number, max: number, fn: (wavelength: number) => RefractiveIndex): NKPoint[] =>
+  wavelengthGrid(min, max, 160).map(wavelength => ({ wavelength, ...fn(wavelength) }));
+
+/**
+ * Alloys share the aluminium interband structure; their Drude damping is scaled
+ * with the room-temperature DC resistivity relative to pure Al (2.65 µΩ·cm).
+ */
+const aluminumTable = (resistivity: number) =>
+  tabulate(0.1, 15, wavelength => {
+    const eps = aluminumPermittivity(wavelength, 0.047 * (resistivity / 2.65));
+    return permittivityToIndex(eps.re, eps.im);
+  });
+
+/**
+ * Anodic alumina approximated by the ordinary-ray Sellmeier dispersion of sapphire
+ * (Malitson 1962, valid 0.2–5.5 µm), non-absorbing.
+ */
+const aluminaTable = () =>
+  tabulate(0.2, 5.5, wavelength => {
+    const l2 = wavelength * wavelength;
+    const n2 = 1
+      + (1.4313493 * l2) / (l2 - 0.0726631 ** 2)
+      + (0.65054713 * l2) / (l2 - 0.1193242 ** 2)
+      + (5.3414021 * l2) / (l2 - 18.028251 ** 2);
+    return { n: Math.sqrt(n2), k: 0 };
+  });
+
+/**
+ * Three-term Sellmeier dispersion n² = 1 + Σ B·λ²/(λ² − C²), non-absorbing.
+ */
+const sellmeierTable = (min: number, max: number, terms: [number, number][]) =>
+  tabulate(min, max, wavelength => {
+    const l2 = wavelength * wavelength;
+    const n2 = 1 + terms.reduce((acc, [B, C]) => acc + (B * l2) / (l2 - C * C), 0);
+    return { n: Math.sqrt(n2), k: 0 };
+  });
+
+/** Coating dielectrics: fused silica (Malitson 1965) and MgF₂ ordinary ray (Dodge 1984). */
+const silicaTable = () => sellmeierTable(0.21, 6.7, [[0.6961663, 0.0684043], [0.4079426, 0.1162414], [0.8974794, 9.896161]]);
+const magnesiumFluorideTable = () => sellmeierTable(0.2, 7, [[0.48755108, 0.04338408], [0.39875031, 0.09461442], [2.3120353, 23.793604]]);
+
+/**
+ * Rutile TiO₂, ordinary ray (DeVore 1951, 0.43–1.5 µm): n² = 5.913 + 0.2441/(λ² − 0.0803).
+ */
+const titaniaTable = () =>
+  tabulate(0.43, 1.5, wavelength => ({ n: Math.sqrt(5.913 + 0.2441 / (wavelength * wavelength - 0.0803)), k: 0 }));
+
+export const BUILTIN_MATERIALS: MaterialData[] = [
+  { id: 'al-pure', name: '纯铝 (Al 99.99)', source: 'builtin', table: aluminumTable(2.65) },
+  { id: 'al-6061', name: '6061-T6 铝合金', source: 'builtin', table: aluminumTable(3.99) },
+  { id: 'al-7075', name: '7075-T6 铝合金', source: 'builtin', table: aluminumTable(5.15) },
+  { id: 'al-5083', name: '5083-H116 铝合金', source: 'builtin', table: aluminumTable(5.9) },
+  { id: 'al2o3-anodized', name: '阳极氧化 Al₂O₃', source: 'builtin', table: aluminaTable() },
+  { id: 'sio2', name: 'SiO₂ 熔融石英', source: 'builtin', table: silicaTable() },
+  { id: 'mgf2', name: 'MgF₂', source: 'builtin', table: magnesiumFluorideTable() },
+  { id: 'tio2', name: 'TiO₂ 金红石', source: 'builtin', table: titaniaTable() },
+];
+
+export const findMaterial = (id: string, userMaterials: MaterialData[] = []) =>
+  [...BUILTIN_MATERIALS, ...userMaterials].find(m => m.id === id);
+
+const isNKPoint = (point: unknown) => {
+  const p = point as Record<string, unknown> | null;
+  return typeof p === 'object' && p !== null && [p.wavelength, p.n, p.k].every(v => typeof v === 'number' && Number.isFinite(v));
+};
+
+/**
+ * User materials stored in a project or scenario file. Entries without an id, a name and a
+ * non-empty n,k table are left out, each with a warning under `path`.
+ */
+export const migrateMaterials = (raw: unknown, warnings: string[], path: string): MaterialData[] => {
+  if (raw === undefined) return [];
+  if (!Array.isArray(raw)) {
+    warnings.push(`${path}: expected a list, ignored`);
+    return [];
+  }
+  return raw.flatMap((m, i) => {
+    if (typeof m?.id !== 'string' || typeof m.name !== 'string' || !Array.isArray(m.table) || !m.table.length || !m.table.every(isNKPoint)) {
+      warnings.push(`${path}[${i}]: not a material with id, name and n,k table, ignored`);
+      return [];
+    }
+    return [{ id: m.id, name: m.name, source: 'user' as const, table: m.table }];
+  });
+};
+
+/**
+ * Linearly interpolates n and k at the given wavelength; outside the table the
+ * nearest tabulated value is used.
+ */
+export const interpolateNK = (material: MaterialData, wavelength: number): RefractiveIndex => {
+  const table = material.table;
+  if (wavelength <= table[0].wavelength) return { n: table[0].n, k: table[0].k };
+  const last = table[table.length - 1];
+  if (wavelength >= last.wavelength) return { n: last.n, k: last.k };
+
+  let lo = 0;
+  let hi = table.length - 1;
+  while (hi - lo > 1) {
+    const mid = (lo + hi) >> 1;
+    if (table[mid].wavelength <= wavelength) lo = mid;
+    else hi = mid;
+  }
+  const a = table[lo];
+  const b = table[hi];
+  const t = (wavelength - a.wavelength) / (b.wavelength - a.wavelength);
+  return { n: a.n + (b.n - a.n) * t, k: a.k + (b.k - a.k) * t };
+};
+
+/**
+ * Parses a user n,k table: columns wavelength, n, k (k optional).
+ * Wavelengths above 50 are taken to be in nm and converted to µm.
+ */
+export const parseMaterialCSV = (text: string, name: string): MaterialData => {
+  const rows: NKPoint[] = [];
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (!line || line.startsWith('#')) continue;
+    const fields = line.split(/[\s,;]+/).map(Number);
+    if (fields.length < 2 || fields.slice(0, 2).some(v => !Number.isFinite(v))) continue;
+    rows.push({ wavelength: fields[0], n: fields[1], k: Number.isFinite(fields[2]) ? fields[2] : 0 });
+  }
+  if (rows.length < 2) throw new Error('Material table needs at least two wavelength,n,k rows');
+
+  const inNm = rows.every(r => r.wavelength > 50);
+  const table = rows
+    .map(r => ({ ...r, wavelength: inNm ? r.wavelength / 1000 : r.wavelength }))
+    .sort((a, b) => a.wavelength - b.wavelength);
+
+  return { id: `user:${name}`, name, source: 'user', table };
+};
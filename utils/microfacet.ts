@@ -0,0 +1,187 @@
+/** Normal distribution of a microfacet model. Student-t spans GGX (γ = 2) to Beckmann (γ → ∞). */
+export type MicrofacetDistribution = 'Beckmann' | 'GGX' | 'Student-t';
+
+export interface MicrofacetSettings {
+  distribution: MicrofacetDistribution;
+  alphaX: number; // Slope-space width along x (in the plane of incidence)
+  alphaY: number; // Slope-space width along y
+  gamma: number; // Student-t tail parameter, > 1.5
+}
+
+type Vector3 = [number, number, number];
+
+export interface MicrofacetLobe {
+  /** Single-scattering BRDF (sr⁻¹) for unit Fresnel, and cos θd = l·h for the Fresnel term. */
+  evaluate: (l: Vector3, o: Vector3) => { value: number; cosD: number };
+  /** Kulla-Conty multiple-scattering lobe (sr⁻¹) for unit Fresnel. */
+  multipleScattering: (muI: number, muO: number) => number;
+  /** Directional albedo of the single-scattering lobe for unit Fresnel, at cos θ = mu. */
+  albedo: (mu: number) => number;
+  /** Hemispherical average 2∫E(µ)µ dµ. */
+  averageAlbedo: () => number;
+}
+
+/** Student-t Λ table: log-spaced a = 1/(α tanθ) between these decades. */
+const LAMBDA_DECADE_MIN = -3;
+const LAMBDA_DECADE_MAX = 3;
+const LAMBDA_SAMPLES = 121;
+/** Albedo table: cosθ nodes, and the slope-plane quadrature per node. */
+const ALBEDO_NODES = 24;
+const ALBEDO_RADIAL = 96;
+const ALBEDO_AZIMUTHAL = 64;
+
+/** Complementary error function (Numerical Recipes erfcc, fractional error < 1.2e-7). */
+const erfc = (x: number) => {
+  const z = Math.abs(x);
+  const t = 1 / (1 + 0.5 * z);
+  const r = t * Math.exp(-z * z - 1.26551223 + t * (1.00002368 + t * (0.37409196 + t * (0.09678418
+    + t * (-0.18628806 + t * (0.27886807 + t * (-1.13520398 + t * (1.48851587 + t * (-0.82215223 + t * 0.17087277)))))))));
+  return x >= 0 ? r : 2 - r;
+};
+
+/** ∫ cos^power t dt over [t0, π/2] (Simpson). */
+const cosinePowerIntegral = (t0: number, power: number) => {
+  const n = 128;
+  const h = (Math.PI / 2 - t0) / n;
+  if (h <= 0) return 0;
+  let sum = 0;
+  for (let i = 0; i <= n; i++) {
+    const w = i === 0 || i === n ? 1 : i % 2 ? 4 : 2;
+    sum += w * Math.pow(Math.max(0, Math.cos(t0 + i * h)), power);
+  }
+  return (sum * h) / 3;
+};
+
+/**
+ * Smith Λ of the Student-t distribution for unit α. The 1D slope marginal is
+ * p(s) = K(1 + s²/c)^(1/2−γ) with c = γ − 1, so Λ(a) = (∫ₐ s p − a∫ₐ p)/a has a closed-form
+ * first moment and a tail probability that is tabulated once per γ.
+ */
+const createStudentTLambda = (gamma: number) => {
+  const c = gamma - 1;
+  const power = 2 * gamma - 3;
+  const K = 1 / (Math.sqrt(c) * 2 * cosinePowerIntegral(0, power));
+  const moment = (a: number) => (K * c / 2) * Math.pow(1 + (a * a) / c, 1.5 - gamma) / (gamma - 1.5);
+  const exact = (a: number) => Math.max(0, (moment(a) - a * K * Math.sqrt(c) * cosinePowerIntegral(Math.atan(a / Math.sqrt(c)), power)) / a);
+  const step = (LAMBDA_DECADE_MAX - LAMBDA_DECADE_MIN) / (LAMBDA_SAMPLES - 1);
+  const table = Array.from({ length: LAMBDA_SAMPLES }, (_, i) => exact(Math.pow(10, LAMBDA_DECADE_MIN + i * step)));
+  const moment0 = moment(0);
+  return (a: number) => {
+    const u = (Math.log10(a) - LAMBDA_DECADE_MIN) / step;
+    // Beyond the table: the grazing limit Λ ≈ E[s⁺]/a − 1/2, and no shadowing near the normal.
+    if (u <= 0) return Math.max(table[0], moment0 / a - 0.5);
+    if (u >= LAMBDA_SAMPLES - 1) return 0;
+    const i = Math.floor(u);
+    const t = u - i;
+    return table[i] * (1 - t) + table[i + 1] * t;
+  };
+};
+
+/**
+ * Microfacet reflection lobe of Walter et al. (2007): f = F·D·G₂ / (4 cosθi cosθo) with the
+ * height-correlated Smith shadowing-masking G₂ = 1/(1 + Λ(l) + Λ(o)). Anisotropic widths
+ * stretch the slope distribution; Λ uses the width along each direction's azimuth. The
+ * directional albedo for unit Fresnel feeds the Kulla-Conty energy compensation; it is
+ * tabulated on first use only.
+ */
+export const createMicrofacetLobe = (settings: MicrofacetSettings): MicrofacetLobe => {
+  const ax = Math.max(1e-4, settings.alphaX);
+  const ay = Math.max(1e-4, settings.alphaY);
+  const gamma = Math.max(1.51, settings.gamma);
+  const studentT = settings.distribution === 'Student-t' ? createStudentTLambda(gamma) : undefined;
+
+  // Slope density P₂₂(sx, sy), normalised over the slope plane.
+  const slopeDensity = (sx: number, sy: number) => {
+    const t = (sx / ax) * (sx / ax) + (sy / ay) * (sy / ay);
+    const norm = 1 / (Math.PI * ax * ay);
+    if (settings.distribution === 'Beckmann') return norm * Math.exp(-t);
+    if (settings.distribution === 'GGX') return norm / ((1 + t) * (1 + t));
+    return norm * Math.pow(1 + t / (gamma - 1), -gamma);
+  };
+
+  const smithLambda = (w: Vector3) => {
+    const sin2 = w[0] * w[0] + w[1] * w[1];
+    if (sin2 < 1e-14) return 0;
+    const alpha = Math.sqrt((w[0] * w[0] * ax * ax + w[1] * w[1] * ay * ay) / sin2);
+    const a = w[2] / (alpha * Math.sqrt(sin2));
+    if (settings.distribution === 'Beckmann') {
+      return Math.max(0, Math.exp(-a * a) / (2 * a * Math.sqrt(Math.PI)) - erfc(a) / 2);
+    }
+    if (settings.distribution === 'GGX') return (Math.sqrt(1 + 1 / (a * a)) - 1) / 2;
+    return studentT!(a);
+  };
+
+  const evaluate = (l: Vector3, o: Vector3) => {
+    if (l[2] <= 0 || o[2] <= 0) return { value: 0, cosD: 1 };
+    const hx = l[0] + o[0];
+    const hy = l[1] + o[1];
+    const hz = l[2] + o[2];
+    const norm = Math.hypot(hx, hy, hz);
+    const cosD = Math.min(1, (l[0] * hx + l[1] * hy + l[2] * hz) / norm);
+    const cosM = hz / norm;
+    const D = slopeDensity(-hx / hz, -hy / hz) / Math.pow(cosM, 4);
+    const G2 = 1 / (1 + smithLambda(l) + smithLambda(o));
+    return { value: (D * G2) / (4 * l[2] * o[2]), cosD };
+  };
+
+  // E(µ) = ∫ P₂₂(s) G₂ (l·h) / (µ cosθh) d²s over the slopes that reflect into the hemisphere,
+  // with s = (αx r cosψ, αy r sinψ) and r = tan u for the heavy tails.
+  const albedoAt = (mu: number) => {
+    const l: Vector3 = [-Math.sqrt(1 - mu * mu), 0, mu];
+    const du = (Math.PI / 2) / ALBEDO_RADIAL;
+    const dpsi = (2 * Math.PI) / ALBEDO_AZIMUTHAL;
+    let sum = 0;
+    for (let i = 0; i < ALBEDO_RADIAL; i++) {
+      const u = (i + 0.5) * du;
+      const r = Math.tan(u);
+      const jacobian = ax * ay * r / (Math.cos(u) * Math.cos(u));
+      for (let j = 0; j < ALBEDO_AZIMUTHAL; j++) {
+        const psi = (j + 0.5) * dpsi;
+        const sx = ax * r * Math.cos(psi);
+        const sy = ay * r * Math.sin(psi);
+        const n = Math.hypot(sx, sy, 1);
+        const h: Vector3 = [-sx / n, -sy / n, 1 / n];
+        const lh = l[0] * h[0] + l[2] * h[2];
+        if (lh <= 0) continue;
+        const o: Vector3 = [2 * lh * h[0] - l[0], 2 * lh * h[1], 2 * lh * h[2] - l[2]];
+        if (o[2] <= 0) continue;
+        const G2 = 1 / (1 + smithLambda(l) + smithLambda(o));
+        sum += slopeDensity(sx, sy) * G2 * lh / (mu * h[2]) * jacobian * du * dpsi;
+      }
+    }
+    return Math.min(1, sum);
+  };
+
+  let table: number[] | undefined;
+  let average: number | undefined;
+  const albedo = (mu: number) => {
+    table ??= Array.from({ length: ALBEDO_NODES }, (_, i) => albedoAt((i + 1) / ALBEDO_NODES));
+    const u = mu * ALBEDO_NODES - 1;
+    if (u <= 0) return table[0];
+    const i = Math.min(ALBEDO_NODES - 2, Math.floor(u));
+    const t = Math.min(1, u - i);
+    return table[i] * (1 - t) + table[i + 1] * t;
+  };
+  // 2∫E(µ)µ dµ by the midpoint rule on a finer grid.
+  const averageAlbedo = () => {
+    if (average === undefined) {
+      average = 0;
+      for (let i = 0; i < 64; i++) average += (2 * albedo((i + 0.5) / 64) * (i + 0.5)) / (64 * 64);
+    }
+    return average;
+  };
+
+  const multipleScattering = (muI: number, muO: number) => {
+    const eAvg = averageAlbedo();
+    return eAvg < 1 ? ((1 - albedo(muI)) * (1 - albedo(muO))) / (Math.PI * (1 - eAvg)) : 0;
+  };
+
+  return { evaluate, multipleScattering, albedo, averageAlbedo };
+};
+
+/**
+ * Fresnel factor of the multiple-scattering lobe (Kulla & Conty 2017): each extra bounce is
+ * weighted by the hemispherical-average reflectance, F_avg²·E_avg / (1 − F_avg(1 − E_avg)).
+ */
+export const multipleScatteringFresnel = (averageFresnel: number, averageAlbedo: number) =>
+  (averageFresnel * averageFresnel * averageAlbedo) / Math.max(1e-12, 1 - averageFresnel * (1 - averageAlbedo));
@@ -0,0 +1,147 @@
+import { InterfaceCorrelation, JobParameter, MaterialData, ModelType, NumericRange, PolarizationState, PSDModel, SurfaceParameters } from '../types';
+import { DEFAULT_SEED } from './synthesis';
+import { EMPTY_COATING } from './thinFilm';
+import { DEFAULT_MACHINING, TOOL_MARK_PROFILES } from './machining';
+import { MANUAL_MATERIAL_ID, findMaterial } from './materials';
+
+export const MODEL_TYPES: ModelType[] = [
+  'Auto', 'Rayleigh-Rice', 'Beckmann', 'Harvey-Shack', 'Kirchhoff-Numerical',
+  'Microfacet-Beckmann', 'Microfacet-GGX', 'Microfacet-StudentT',
+];
+export const PSD_MODELS: PSDModel[] = ['Gaussian', 'Exponential', 'ABC', 'Fractal'];
+export const POLARIZATION_STATES: PolarizationState[] = ['unpolarized', 's', 'p', 'stokes'];
+export const INTERFACE_CORRELATIONS: InterfaceCorrelation[] = ['correlated', 'uncorrelated'];
+
+/** Valid ranges of the numeric parameters, matching the sliders of the app. */
+export const PARAMETER_RANGES: Record<JobParameter, NumericRange> = {
+  ra: { min: 0.000001, max: 3.2, unit: 'µm' },
+  wavelength: { min: 0.01, max: 12, unit: 'µm' },
+  incidentAngle: { min: 0, max: 90, openMax: true, unit: '°' },
+  reflectivity: { min: 0, max: 1, unit: '' },
+  slopeFactor: { min: 0.1, max: 3, unit: '' },
+  correlationLength: { min: 0.1, max: 1000, unit: 'µm' },
+  psdExponent: { min: 1.1, max: 4, unit: '' },
+  anisotropy: { min: 0.1, max: 10, unit: '' },
+  seed: { min: 0, max: 2 ** 32 - 1, unit: '' },
+  microfacetGamma: { min: 1.5, max: 100, openMin: true, unit: '' },
+};
+
+export const describeRange = (r: NumericRange) =>
+  `${r.openMin ? '(' : '['}${r.min}, ${r.max}${r.openMax ? ')' : ']'}${r.unit ? ` ${r.unit}` : ''}`;
+
+export const inRange = (r: NumericRange, value: number) =>
+  (r.openMin ? value > r.min : value >= r.min) && (r.openMax ? value < r.max : value <= r.max);
+
+/** Starting point of the app, of batch jobs and of every file written before a field existed. */
+export const DEFAULT_PARAMETERS: SurfaceParameters = {
+  material: 'al-6061',
+  ra: 0.8,
+  wavelength: 0.5,
+  incidentAngle: 0,
+  modelType: 'Auto',
+  reflectivity: 0.9,
+  slopeFactor: 1.0,
+  microfacetGamma: 3,
+  multipleScattering: false,
+  psdModel: 'ABC',
+  correlationLength: 5,
+  psdExponent: 2,
+  anisotropy: 1,
+  seed: DEFAULT_SEED,
+  polarization: 'unpolarized',
+  stokes: [1, 0, 0, 0],
+  coating: EMPTY_COATING,
+  machining: DEFAULT_MACHINING,
+};
+
+const kindOf = (value: unknown) => (Array.isArray(value) ? 'array' : value === null ? 'null' : typeof value);
+
+const isRecord = (value: unknown): value is Record<string, unknown> => kindOf(value) === 'object';
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const oneOf = (list: readonly string[], value: unknown) => (list.includes(value as string) ? null : `must be one of ${list.join(', ')}`);
+
+/**
+ * Why a stored value cannot be used for the parameter, or null when it can. `materials`,
+ * when given, are the user materials the source may reference besides the built-in ones.
+ */
+const checkParameter = (key: keyof SurfaceParameters, value: unknown, materials?: MaterialData[]): string | null => {
+  const known = (id: unknown) => !materials || (typeof id === 'string' && findMaterial(id, materials) !== undefined);
+  switch (key) {
+    case 'modelType':
+      return oneOf(MODEL_TYPES, value);
+    case 'psdModel':
+      return oneOf(PSD_MODELS, value);
+    case 'polarization':
+      return oneOf(POLARIZATION_STATES, value);
+    case 'material':
+      if (typeof value !== 'string') return 'expected string';
+      return value === MANUAL_MATERIAL_ID || known(value) ? null : `unknown material "${value}"`;
+    case 'stokes':
+      if (!Array.isArray(value) || value.length !== 4 || !value.every(isNumber)) return 'expected four numbers [S0, S1, S2, S3]';
+      return value[0] > 0 && Math.hypot(value[1], value[2], value[3]) <= value[0] * (1 + 1e-9) ? null : 'degree of polarization must not exceed 1';
+    case 'coating': {
+      if (!isRecord(value) || !Array.isArray(value.layers)) return 'expected { layers, correlation }';
+      const correlation = oneOf(INTERFACE_CORRELATIONS, value.correlation);
+      if (correlation) return `correlation ${correlation}`;
+      for (const [i, layer] of value.layers.entries()) {
+        if (!isRecord(layer) || !isNumber(layer.thickness) || layer.thickness < 0 || !isNumber(layer.ra) || layer.ra < 0) {
+          return `layer ${i + 1} needs a material and non-negative thickness and ra`;
+        }
+        if (typeof layer.material !== 'string' || layer.material === MANUAL_MATERIAL_ID || !known(layer.material)) {
+          return `layer ${i + 1} has unknown material "${layer.material}"`;
+        }
+      }
+      return null;
+    }
+    case 'machining': {
+      if (!isRecord(value) || typeof value.enabled !== 'boolean') return 'expected { enabled, profile, period, depth, layAngle }';
+      const profile = oneOf(TOOL_MARK_PROFILES.map(p => p.id), value.profile);
+      if (profile) return `profile ${profile}`;
+      return isNumber(value.period) && value.period > 0 && isNumber(value.depth) && value.depth >= 0 && isNumber(value.layAngle)
+        ? null
+        : 'expected a positive period, a non-negative depth and a layAngle';
+    }
+    default: {
+      const fallback = DEFAULT_PARAMETERS[key];
+      if (kindOf(value) !== kindOf(fallback)) return `expected ${kindOf(fallback)}`;
+      if (typeof value !== 'number') return null;
+      if (!Number.isFinite(value)) return 'expected a finite number';
+      const range = PARAMETER_RANGES[key as JobParameter];
+      if (range && !inRange(range, value)) return `${value} is outside ${describeRange(range)}`;
+      return key === 'seed' && !Number.isInteger(value) ? 'expected an integer' : null;
+    }
+  }
+};
+
+/**
+ * Brings a stored parameter set (project file, scenario, link) up to the current schema:
+ * fields added since it was written take their defaults and unknown fields are dropped.
+ * A field that is invalid (wrong kind, out of range, unknown enum value or material, malformed
+ * coating or machining) also takes its default, and the problem is added to `warnings` under `path`.
+ * Material ids are only checked when `materials` is given.
+ */
+export const migrateParameters = (
+  raw: unknown,
+  warnings: string[] = [],
+  materials?: MaterialData[],
+  path = 'params'
+): SurfaceParameters => {
+  if (!isRecord(raw)) throw new Error('Parameters must be an object');
+  const result: Record<string, unknown> = {};
+  for (const [key, fallback] of Object.entries(DEFAULT_PARAMETERS)) {
+    const value = raw[key];
+    const problem = value === undefined ? null : checkParameter(key as keyof SurfaceParameters, value, materials);
+    if (problem) warnings.push(`${path}.${key}: ${problem} (using the default)`);
+    result[key] = value === undefined || problem ? fallback : value;
+  }
+  return result as unknown as SurfaceParameters;
+};
+
+/** Fields of `params` that differ from the defaults, for compact links. */
+export const parameterChanges = (params: SurfaceParameters): Partial<SurfaceParameters> =>
+  Object.fromEntries(
+    Object.entries(params).filter(([key, value]) =>
+      JSON.stringify(value) !== JSON.stringify(DEFAULT_PARAMETERS[key as keyof SurfaceParameters]))
+  ) as Partial<SurfaceParameters>;
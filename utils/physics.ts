@@ -1,60 +1,492 @@
+import {
+  DiffractionOrder,
+  EnergyBudget,
+  EnergyConcentration,
+  HemisphericalBRDF,
+  ModelType,
+  MuellerMatrix,
+  PolarizedScatteringData,
+  FilmStack,
+  PSDSettings,
+  RefractiveIndex,
+  ScatteringData,
+  ScatteringOptions,
+  StokesVector,
+  SynthesisOptions,
+} from '../types';
+import { DEFAULT_PSD_SETTINGS, bandLimitedSlope, evaluatePSD2D } from './psd';
+import { generateRandomSurface, surfaceCrossSection } from './synthesis';
+import { calculateKirchhoffScattering } from './kirchhoff';
+import { AngleSpreadFunction, createHarveyShackTransfer } from './harveyShack';
+import { MicrofacetDistribution, MicrofacetLobe, createMicrofacetLobe, multipleScatteringFresnel } from './microfacet';
+import { fresnelReflectance } from './fresnel';
+import { calculateDiffractionOrders } from './machining';
+import { stackReflectance, stackScatteringMueller, stackSpecularJones } from './thinFilm';
+import {
+  DEPOLARIZER,
+  PERFECT_CONDUCTOR,
+  addMueller,
+  jonesToMueller,
+  muellerChannels,
+  muellerResponse,
+  scaleMueller,
+  scatteringJones,
+} from './polarization';
 
 /**
- * Generates a synthetic 1D surface profile based on Ra.
+ * FFT grid for `size` samples: the next power of two, cropped back afterwards, so any
+ * positive integer size works (the heights keep the scale of the full periodic grid).
  */
-export const generateSurfaceProfile = (ra: number, length: number = 200) => {
-  const rq = ra * 1.25;
-  const points = [];
-  let prev = 0;
-  const alpha = 0.15; 
-  
-  for (let i = 0; i < length; i++) {
-    const noise = (Math.random() - 0.5) * 4 * rq;
-    const val = prev * (1 - alpha) + noise * alpha;
-    points.push({ x: i, y: val });
-    prev = val;
-  }
-  return points;
+const synthesisSize = (size: number) => {
+  if (!Number.isInteger(size) || size < 1) throw new Error(`Surface size must be a positive integer, got ${size}`);
+  return 2 ** Math.ceil(Math.log2(size));
+};
+
+/**
+ * Generates a synthetic 1D surface profile based on Ra: the centre-row cross-section of
+ * the seeded 2D surface from `generateSurfaceProfile3D` with the same options.
+ */
+export const generateSurfaceProfile = (ra: number, length: number = 128, options: SynthesisOptions = {}) => {
+  return surfaceCrossSection(generateRandomSurface(ra * 1.25, synthesisSize(length), options)).slice(0, length);
 };
 
 /**
  * Generates a synthetic 2D surface grid based on Ra for 3D visualization.
+ * Deterministic for a given seed; see `generateRandomSurface`.
  */
-export const generateSurfaceProfile3D = (ra: number, size: number = 64) => {
-  const rq = ra * 1.25;
-  const grid: number[][] = [];
-  
-  for (let i = 0; i < size; i++) {
-    grid[i] = [];
-    for (let j = 0; j < size; j++) {
-      let height = (Math.random() - 0.5) * 2 * rq;
-      grid[i][j] = height;
+export const generateSurfaceProfile3D = (ra: number, size: number = 128, options: SynthesisOptions = {}) => {
+  const heights = generateRandomSurface(ra * 1.25, synthesisSize(size), options).heights;
+  return heights.length === size ? heights : heights.slice(0, size).map(row => row.slice(0, size));
+};
+
+const DEG = Math.PI / 180;
+
+interface ScatterContext {
+  model: ModelType;
+  ra: number;
+  sigma: number;
+  lambda: number;
+  thetaRad: number;
+  g: number;
+  reflectivity: number;
+  slopeFactor: number;
+  psd: PSDSettings;
+  polarIndex: RefractiveIndex; // Index used for the polarization factors
+  polarScale: number; // 1 for a real material, the manual reflectivity for the conductor fallback
+  coating?: FilmStack; // Thin films on a real material
+  stokes: StokesVector;
+  specularMueller: MuellerMatrix;
+  beamWidth: number; // Angular half-width of the sampled specular beam in radians
+  orders: DiffractionOrder[]; // Coherent beams: the specular one, or the grating orders of tool marks
+  machined: boolean;
+  numerical?: { step: number; values: number[] }; // In-plane Kirchhoff ensemble curve from −90°
+  spread?: AngleSpreadFunction; // Generalized Harvey-Shack angle spread function
+  microfacet?: MicrofacetContext;
+  diffuseScale: number; // Converts the model shape to absolute BRDF (sr⁻¹), see `normalizeEnergy`
+  energy: EnergyBudget;
+}
+
+interface MicrofacetContext {
+  lobe: MicrofacetLobe;
+  fresnel: number[]; // Reflectance against the angle to the facet normal, per degree from 0 to 90
+  multipleScale: number; // Fresnel factor of the multiple-scattering lobe, 0 when disabled
+}
+
+const MICROFACET_DISTRIBUTIONS: Partial<Record<ModelType, MicrofacetDistribution>> = {
+  'Microfacet-Beckmann': 'Beckmann',
+  'Microfacet-GGX': 'GGX',
+  'Microfacet-StudentT': 'Student-t',
+};
+
+/** Coarsest angular step of the numerical Kirchhoff ensemble, in degrees. */
+const NUMERICAL_STEP = 0.25;
+
+/** Rings (in angular distance from specular) and azimuth sectors of the hemispherical quadrature. */
+const ENERGY_RINGS = 200;
+const ENERGY_SECTORS = 144;
+
+/**
+ * Rayleigh phase factor g = (4πσ cosθi / λ)² with σ ≈ 1.25·Ra.
+ */
+export const calculatePhaseFactor = (ra: number, lambda: number, thetaInc: number) => {
+  const sigma = ra * 1.25;
+  return Math.pow((4 * Math.PI * sigma * Math.cos(thetaInc * DEG)) / Math.max(0.0001, lambda), 2);
+};
+
+/**
+ * Resolves 'Auto' to a concrete model from the phase factor g.
+ */
+export const resolveActiveModel = (modelType: string, g: number): ModelType => {
+  if (modelType !== 'Auto') return modelType as ModelType;
+  if (g < 0.01) return 'Rayleigh-Rice';
+  if (g > 15) return 'Beckmann';
+  return 'Harvey-Shack';
+};
+
+/**
+ * Microfacet lobe of a surface: the slope widths come from the PSD over spatial frequencies up
+ * to 1/λ (finer structure diffracts rather than reflecting geometrically), scaled by slopeFactor,
+ * with α = √2 × the RMS slope per axis. The Fresnel term of the material (or its coating) is
+ * tabulated against the angle to the facet normal.
+ */
+const createMicrofacetContext = (
+  distribution: MicrofacetDistribution,
+  sigma: number,
+  lambda: number,
+  slopeFactor: number,
+  psd: PSDSettings,
+  options: ScatteringOptions,
+  polarIndex: RefractiveIndex,
+  polarScale: number,
+  coating: FilmStack | undefined
+): MicrofacetContext => {
+  const slope = bandLimitedSlope(sigma, psd, 1 / lambda);
+  const lobe = createMicrofacetLobe({
+    distribution,
+    alphaX: Math.SQRT2 * slope.x * slopeFactor,
+    alphaY: Math.SQRT2 * slope.y * slopeFactor,
+    gamma: options.microfacetGamma ?? 3,
+  });
+  const fresnel = Array.from({ length: 91 }, (_, i) => (coating
+    ? stackReflectance(polarIndex, coating, lambda, i * DEG).R
+    : fresnelReflectance(polarIndex, i * DEG).R * polarScale));
+  let multipleScale = 0;
+  if (options.multipleScattering) {
+    let average = 0;
+    for (let i = 0; i < 64; i++) {
+      const mu = (i + 0.5) / 64;
+      average += (2 * mu * interpolateFresnel(fresnel, Math.acos(mu) / DEG)) / 64;
     }
+    multipleScale = multipleScatteringFresnel(average, lobe.averageAlbedo());
   }
+  return { lobe, fresnel, multipleScale };
+};
 
-  const smoothed: number[][] = [];
-  for (let i = 0; i < size; i++) {
-    smoothed[i] = [];
-    for (let j = 0; j < size; j++) {
-      let sum = 0;
-      let count = 0;
-      for (let di = -1; di <= 1; di++) {
-        for (let dj = -1; dj <= 1; dj++) {
-          const ni = i + di;
-          const nj = j + dj;
-          if (ni >= 0 && ni < size && nj >= 0 && nj < size) {
-            sum += grid[ni][nj];
-            count++;
-          }
-        }
-      }
-      smoothed[i][j] = sum / count;
+const interpolateFresnel = (fresnel: number[], angle: number) => {
+  const i = Math.min(89, Math.floor(angle));
+  const t = Math.min(1, angle - i);
+  return fresnel[i] * (1 - t) + fresnel[i + 1] * t;
+};
+
+const createScatterContext = (
+  ra: number,
+  lambda: number,
+  thetaInc: number,
+  modelType: string,
+  step: number,
+  reflectivity: number,
+  slopeFactor: number,
+  options: ScatteringOptions
+): ScatterContext => {
+  const g = calculatePhaseFactor(ra, lambda, thetaInc);
+  const thetaRad = thetaInc * DEG;
+  const polarIndex = options.refractiveIndex ?? PERFECT_CONDUCTOR;
+  const polarScale = options.refractiveIndex ? 1 : reflectivity;
+  const coating = options.refractiveIndex && options.coating?.layers.length ? options.coating : undefined;
+  const model = resolveActiveModel(modelType, g);
+  let numerical: ScatterContext['numerical'];
+  if (model === 'Kirchhoff-Numerical') {
+    const numStep = Math.max(step, NUMERICAL_STEP);
+    const curve = calculateKirchhoffScattering(ra, lambda, thetaInc, numStep, 1, options, true);
+    numerical = { step: numStep, values: curve.map(d => d.intensity) };
+  }
+  const psd = { ...DEFAULT_PSD_SETTINGS, ...options };
+  const distribution = MICROFACET_DISTRIBUTIONS[model];
+  const machined = !!options.machining?.enabled;
+  const ctx: ScatterContext = {
+    model,
+    numerical,
+    spread: model === 'Harvey-Shack' ? createHarveyShackTransfer(ra * 1.25, Math.max(0.0001, lambda), thetaRad, psd) : undefined,
+    microfacet: distribution
+      ? createMicrofacetContext(distribution, ra * 1.25, Math.max(0.0001, lambda), slopeFactor, psd, options, polarIndex, polarScale, coating)
+      : undefined,
+    ra,
+    sigma: ra * 1.25,
+    lambda: Math.max(0.0001, lambda),
+    thetaRad,
+    g,
+    reflectivity,
+    slopeFactor,
+    psd,
+    polarIndex,
+    polarScale,
+    coating,
+    stokes: options.stokes ?? [1, 0, 0, 0],
+    specularMueller: coating
+      ? jonesToMueller(stackSpecularJones(polarIndex, coating, Math.max(0.0001, lambda), thetaRad))
+      : scaleMueller(jonesToMueller(scatteringJones(polarIndex, thetaRad, thetaRad, 0)), polarScale),
+    beamWidth: 2 * step * DEG,
+    orders: machined
+      ? calculateDiffractionOrders(options.machining!, Math.max(0.0001, lambda), thetaInc)
+      : [{ order: 0, direction: [Math.sin(thetaRad), 0, Math.cos(thetaRad)], efficiency: 1 }],
+    machined,
+    diffuseScale: 1,
+    energy: { fresnel: 0, specular: 0, diffuse: 0, hemispherical: 0, tis: 0, clamped: false },
+  };
+  normalizeEnergy(ctx);
+  return ctx;
+};
+
+const scatterGeometry = (ctx: ScatterContext, thetaS: number, phiS: number) => {
+  const cosS = Math.cos(thetaS);
+  const sinS = Math.sin(thetaS);
+  const dirX = sinS * Math.cos(phiS);
+  const dirY = sinS * Math.sin(phiS);
+  // Angular deviation from the specular direction.
+  const cosDev = dirX * Math.sin(ctx.thetaRad) + cosS * Math.cos(ctx.thetaRad);
+  return { cosS, dirX, dirY, dev: Math.acos(Math.min(1, Math.max(-1, cosDev))) };
+};
+
+/**
+ * Linear interpolation of the numerical in-plane curve at a signed angle in degrees.
+ */
+const interpolateNumerical = (numerical: NonNullable<ScatterContext['numerical']>, angle: number) => {
+  const f = (angle + 90) / numerical.step;
+  const i0 = Math.max(0, Math.min(numerical.values.length - 1, Math.floor(f)));
+  const i1 = Math.min(numerical.values.length - 1, i0 + 1);
+  const t = Math.min(1, Math.max(0, f - i0));
+  return numerical.values[i0] * (1 - t) + numerical.values[i1] * t;
+};
+
+/**
+ * Unpolarized BRDF shape of the scalar (non-perturbative) models, before `diffuseScale`.
+ */
+const scalarBrdfAt = (ctx: ScatterContext, cosS: number, dev: number, thetaS: number, phiS: number) => {
+  if (ctx.numerical) {
+    // The ensemble is computed in the plane of incidence; elsewhere the curve is
+    // sampled at the same angular distance from specular on both sides and averaged.
+    const sinPhi = Math.sin(phiS);
+    if (Math.abs(sinPhi) < 1e-9) {
+      return interpolateNumerical(ctx.numerical, (Math.cos(phiS) >= 0 ? thetaS : -thetaS) / DEG);
+    }
+    const specular = ctx.thetaRad / DEG;
+    const d = dev / DEG;
+    return (interpolateNumerical(ctx.numerical, specular + d) + interpolateNumerical(ctx.numerical, specular - d)) / 2;
+  }
+
+  if (ctx.microfacet) {
+    const { lobe, fresnel, multipleScale } = ctx.microfacet;
+    const sinS = Math.sin(thetaS);
+    const cosI = Math.cos(ctx.thetaRad);
+    const { value, cosD } = lobe.evaluate(
+      [-Math.sin(ctx.thetaRad), 0, cosI],
+      [sinS * Math.cos(phiS), sinS * Math.sin(phiS), cosS]
+    );
+    const single = value * interpolateFresnel(fresnel, Math.acos(cosD) / DEG);
+    return multipleScale > 0 && cosS > 0 ? single + multipleScale * lobe.multipleScattering(cosI, cosS) : single;
+  }
+
+  if (ctx.model === 'Beckmann') {
+    // m is the RMS slope. We modulate it with slopeFactor.
+    const m = Math.max(0.005, (ctx.ra / 5) * ctx.slopeFactor);
+    if (cosS <= 0) return 0;
+    // Half-vector form D·G / (4 cosθi cosθs) with the Cook-Torrance shadowing, which stays
+    // bounded at grazing scatter. The facet width m/√2 keeps exp(−δ²/2m²) near specular.
+    const sinS = Math.sin(thetaS);
+    const cosI = Math.cos(ctx.thetaRad);
+    const hx = sinS * Math.cos(phiS) - Math.sin(ctx.thetaRad);
+    const hy = sinS * Math.sin(phiS);
+    const hz = cosS + cosI;
+    const norm = Math.hypot(hx, hy, hz);
+    const cosH = hz / norm;
+    const cosVH = (sinS * Math.cos(phiS) * hx + sinS * Math.sin(phiS) * hy + cosS * hz) / norm;
+    const alpha2 = (m * m) / 2;
+    const tan2H = (1 - cosH * cosH) / (cosH * cosH);
+    const D = Math.exp(-tan2H / alpha2) / (Math.PI * alpha2 * Math.pow(cosH, 4));
+    const G = Math.min(1, (2 * cosH * cosS) / cosVH, (2 * cosH * cosI) / cosVH);
+    return (D * G) / (4 * Math.max(1e-6, cosI) * cosS);
+  }
+
+  // Generalized Harvey-Shack: the BRDF is proportional to the angle spread function in
+  // direction-cosine space; the specular part is the separate coherent beam.
+  const sinS = Math.sin(thetaS);
+  return ctx.spread!(sinS * Math.cos(phiS) - Math.sin(ctx.thetaRad), sinS * Math.sin(phiS), cosS);
+};
+
+/**
+ * Mueller matrix of the diffuse (incoherent) part before `diffuseScale` is applied.
+ * φs = 0 is the plane of incidence on the specular side.
+ * Rayleigh-Rice uses the vector perturbation factors Q_αβ directly (summed over the interfaces
+ * of a coating); the scalar models distribute their BRDF over the same polarization structure
+ * (Mueller matrix normalised to M00).
+ */
+const diffuseMuellerAt = (ctx: ScatterContext, thetaS: number, phiS: number): MuellerMatrix => {
+  const { cosS, dirX, dirY, dev } = scatterGeometry(ctx, thetaS, phiS);
+  const M = ctx.coating
+    ? stackScatteringMueller(ctx.polarIndex, ctx.coating, ctx.ra, ctx.lambda, ctx.thetaRad, thetaS, phiS)
+    : jonesToMueller(scatteringJones(ctx.polarIndex, ctx.thetaRad, thetaS, phiS));
+
+  if (ctx.model === 'Rayleigh-Rice') {
+    // First-order vector perturbation: BRDF = (16π²/λ⁴) cosθi cos²θs Q PSD(fx, fy).
+    const { thetaRad, lambda } = ctx;
+    const fx = (dirX - Math.sin(thetaRad)) / lambda;
+    const fy = dirY / lambda;
+    const diffuse = (16 * Math.PI * Math.PI / Math.pow(lambda, 4)) * Math.cos(thetaRad) * cosS * cosS
+      * ctx.polarScale * evaluatePSD2D(fx, fy, ctx.sigma, ctx.psd);
+    return scaleMueller(M, diffuse);
+  }
+
+  const scalar = scalarBrdfAt(ctx, cosS, dev, thetaS, phiS);
+  return M[0] > 0 ? scaleMueller(M, scalar / M[0]) : scaleMueller(DEPOLARIZER, scalar);
+};
+
+/**
+ * Diffuse response to the incident polarization of the context, before `diffuseScale`.
+ */
+const diffuseShapeAt = (ctx: ScatterContext, thetaS: number, phiS: number) => {
+  const unpolarized = ctx.stokes[1] === 0 && ctx.stokes[2] === 0 && ctx.stokes[3] === 0;
+  if (ctx.model !== 'Rayleigh-Rice' && unpolarized) {
+    const { cosS, dev } = scatterGeometry(ctx, thetaS, phiS);
+    return scalarBrdfAt(ctx, cosS, dev, thetaS, phiS);
+  }
+  return muellerResponse(diffuseMuellerAt(ctx, thetaS, phiS), ctx.stokes);
+};
+
+/**
+ * Models with a model-independent coherent beam: the perturbative ones, numerical Kirchhoff
+ * (whose ensemble curve is the incoherent part only), and any machined surface.
+ */
+const hasCoherentBeam = (ctx: ScatterContext) =>
+  ctx.model === 'Rayleigh-Rice' || ctx.model === 'Harvey-Shack' || ctx.model === 'Kirchhoff-Numerical' || ctx.machined;
+
+/**
+ * Coherent beams (sr⁻¹ per unit specular reflectance), each spread over the sampling resolution
+ * so that its cosine-weighted solid-angle integral is exp(−g) times its order efficiency. Zero
+ * for the models whose specular lobe is part of their diffuse shape.
+ */
+const specularBeamAt = (ctx: ScatterContext, thetaS: number, phiS: number) => {
+  if (!hasCoherentBeam(ctx)) return 0;
+  const { cosS, dirX, dirY } = scatterGeometry(ctx, thetaS, phiS);
+  // Beyond this deviation the Gaussian underflows to zero.
+  const cosCutoff = Math.cos(Math.min(Math.PI, 27.3 * ctx.beamWidth));
+  let sum = 0;
+  for (const { direction, efficiency } of ctx.orders) {
+    const cosDev = dirX * direction[0] + dirY * direction[1] + cosS * direction[2];
+    if (cosDev < cosCutoff) continue;
+    sum += efficiency * Math.exp(-Math.pow(Math.acos(Math.min(1, cosDev)) / ctx.beamWidth, 2));
+  }
+  return Math.exp(-ctx.g) * sum / (Math.PI * ctx.beamWidth * ctx.beamWidth * Math.max(1e-6, cosS));
+};
+
+/**
+ * Absolute Mueller-matrix BRDF (sr⁻¹) in the scatter direction (θs, φs), both in radians.
+ */
+const brdfMuellerAt = (ctx: ScatterContext, thetaS: number, phiS: number): MuellerMatrix => {
+  const diffuse = scaleMueller(diffuseMuellerAt(ctx, thetaS, phiS), ctx.diffuseScale);
+  if (!hasCoherentBeam(ctx)) return diffuse;
+  return addMueller(diffuse, scaleMueller(ctx.specularMueller, specularBeamAt(ctx, thetaS, phiS)));
+};
+
+/**
+ * Absolute BRDF (sr⁻¹) for the incident polarization of the context.
+ */
+const brdfAt = (ctx: ScatterContext, thetaS: number, phiS: number) =>
+  ctx.diffuseScale * diffuseShapeAt(ctx, thetaS, phiS)
+  + specularBeamAt(ctx, thetaS, phiS) * ctx.energy.fresnel;
+
+/**
+ * Integrates f(θs, φs)·cosθs over the visible hemisphere on rings of angular distance δ
+ * around the specular direction. Ring edges grow quadratically (π·(i/N)²), so narrow lobes
+ * near specular are resolved; each ring is split into equal azimuth sectors of exact solid angle.
+ * Returns the energy of every ring and its outer edge in radians.
+ */
+const integrateAroundSpecular = (thetaRad: number, f: (thetaS: number, phiS: number) => number) => {
+  const sinI = Math.sin(thetaRad);
+  const cosI = Math.cos(thetaRad);
+  const rings = new Float64Array(ENERGY_RINGS);
+  const edges = new Float64Array(ENERGY_RINGS);
+  for (let i = 0; i < ENERGY_RINGS; i++) {
+    const d0 = Math.PI * Math.pow(i / ENERGY_RINGS, 2);
+    const d1 = Math.PI * Math.pow((i + 1) / ENERGY_RINGS, 2);
+    const dev = (d0 + d1) / 2;
+    const cosDev = Math.cos(dev);
+    const sinDev = Math.sin(dev);
+    const solidAngle = (Math.cos(d0) - Math.cos(d1)) * (2 * Math.PI / ENERGY_SECTORS);
+    let sum = 0;
+    for (let j = 0; j < ENERGY_SECTORS; j++) {
+      const psi = ((j + 0.5) * 2 * Math.PI) / ENERGY_SECTORS;
+      // Direction = cosδ·specular + sinδ·(cosψ·in-plane normal + sinψ·ŷ).
+      const z = cosDev * cosI - sinDev * Math.cos(psi) * sinI;
+      if (z <= 0) continue;
+      const x = cosDev * sinI + sinDev * Math.cos(psi) * cosI;
+      const y = sinDev * Math.sin(psi);
+      sum += f(Math.acos(Math.min(1, z)), Math.atan2(y, x)) * z * solidAngle;
     }
+    rings[i] = sum;
+    edges[i] = d1;
   }
+  return { rings, edges };
+};
 
-  return smoothed;
+/**
+ * Puts the context on an absolute scale and fills its energy budget.
+ * Rayleigh-Rice is already absolute: its specular reflectance is exp(−g)·R and the diffuse part
+ * is integrated; should the two exceed the Fresnel reflectance R (outside the smooth-surface
+ * limit) the diffuse part is scaled down to R − specular. The scalar models only give a shape,
+ * which is normalised so the directional-hemispherical reflectance equals R (a lossless rough
+ * surface only redistributes the reflected light); their coherent part is the Debye-Waller
+ * share exp(−g)·R. For generalized Harvey-Shack that share is the beam and the angle spread
+ * function is renormalised to R − specular, which redistributes the evanescent part (the
+ * constant K of Krywonos); numerical Kirchhoff, whose ensemble curve is the incoherent part
+ * only, is renormalised the same way. The microfacet models are absolute already: shadowing-masking and
+ * the Fresnel term set their albedo, so light lost to them lowers the hemispherical reflectance.
+ */
+const normalizeEnergy = (ctx: ScatterContext) => {
+  const fresnel = muellerResponse(ctx.specularMueller, ctx.stokes);
+  const { rings } = integrateAroundSpecular(ctx.thetaRad, (t, p) => diffuseShapeAt(ctx, t, p));
+  const shape = rings.reduce((acc, v) => acc + v, 0);
+  // Only the models with a coherent beam reflect specularly; the others hold all of R in their lobe.
+  const specular = hasCoherentBeam(ctx) ? Math.exp(-ctx.g) * fresnel : 0;
+  let clamped = false;
+
+  if (ctx.model === 'Rayleigh-Rice') {
+    if (specular + shape > fresnel && shape > 0) {
+      ctx.diffuseScale = Math.max(0, fresnel - specular) / shape;
+      clamped = true;
+    }
+  } else if (ctx.model === 'Harvey-Shack' || ctx.model === 'Kirchhoff-Numerical') {
+    ctx.diffuseScale = shape > 0 ? Math.max(0, fresnel - specular) / shape : 0;
+  } else if (ctx.microfacet) {
+    ctx.diffuseScale = 1;
+  } else {
+    ctx.diffuseScale = shape > 0 ? fresnel / shape : 0;
+  }
+  // Tool marks take the coherent share out of the shape of the other models into their orders.
+  if (ctx.machined && ctx.model !== 'Rayleigh-Rice' && ctx.model !== 'Harvey-Shack' && ctx.model !== 'Kirchhoff-Numerical') ctx.diffuseScale *= 1 - Math.exp(-ctx.g);
+
+  const hemispherical = hasCoherentBeam(ctx) ? specular + shape * ctx.diffuseScale : ctx.microfacet ? shape : fresnel;
+  const diffuse = Math.max(0, hemispherical - specular);
+  ctx.energy = { fresnel, specular, diffuse, hemispherical, tis: hemispherical > 0 ? diffuse / hemispherical : 0, clamped };
 };
 
+/**
+ * The in-plane curve is the φs = 0 / 180° slice of the hemisphere. A window evaluates the grid
+ * points from −90° in steps of `step` that fall within it.
+ */
+const inPlaneCurve = (ctx: ScatterContext, step: number, window?: { from: number; to: number }) => {
+  const data: ScatteringData[] = [];
+  if (window) {
+    const first = Math.max(0, Math.ceil((window.from + 90) / step - 1e-9));
+    const last = Math.min(Math.floor(180 / step + 1e-9), Math.floor((window.to + 90) / step + 1e-9));
+    for (let k = first; k <= last; k++) {
+      const a = -90 + k * step;
+      data.push({ angle: Number(a.toFixed(4)), intensity: Math.max(0, brdfAt(ctx, Math.abs(a) * DEG, a >= 0 ? 0 : Math.PI)) });
+    }
+    return data;
+  }
+  for (let a = -90; a <= 90; a += step) {
+    const intensity = brdfAt(ctx, Math.abs(a) * DEG, a >= 0 ? 0 : Math.PI);
+    data.push({ angle: Number(a.toFixed(4)), intensity: Math.max(0, intensity) });
+  }
+  return data;
+};
+
+/**
+ * In-plane BRDF in sr⁻¹ from −90° to 90° (positive angles on the specular side), or only
+ * within `window` (degrees) on the same grid.
+ * With a material the reflectance follows from its Fresnel coefficients; otherwise
+ * `reflectivity` scales a perfect conductor.
+ */
 export const calculateScattering = (
   ra: number, 
   lambda: number, 
@@ -62,79 +494,200 @@ export const calculateScattering = (
   modelType: string = 'Auto', 
   step: number = 1,
   reflectivity: number = 1.0,
-  slopeFactor: number = 1.0
+  slopeFactor: number = 1.0,
+  options: ScatteringOptions = {},
+  window?: { from: number; to: number }
 ) => {
-  const sigma = ra * 1.25; 
-  const thetaRad = (thetaInc * Math.PI) / 180;
-  const safeLambda = Math.max(0.0001, lambda);
-  const g = Math.pow((4 * Math.PI * sigma * Math.cos(thetaRad)) / safeLambda, 2);
-  
-  const data: { angle: number; intensity: number }[] = [];
-  const specularAngle = thetaInc;
-  
-  let activeModel = modelType;
-  if (activeModel === 'Auto') {
-    if (g < 0.01) activeModel = 'Rayleigh-Rice';
-    else if (g > 15) activeModel = 'Beckmann';
-    else activeModel = 'Harvey-Shack';
-  }
+  const ctx = createScatterContext(ra, lambda, thetaInc, modelType, step, reflectivity, slopeFactor, options);
+  return inPlaneCurve(ctx, step, window);
+};
 
-  for (let a = -90; a <= 90; a += step) {
-    const aRad = (a * Math.PI) / 180;
-    const diff = Math.abs(a - specularAngle);
-    let intensity = 0;
-
-    if (activeModel === 'Rayleigh-Rice') {
-      const peakWidth = Math.max(step * 2, 0.2 * (lambda / Math.max(0.00001, ra * 1000)));
-      const specular = Math.exp(-g) * Math.exp(-Math.pow(diff / peakWidth, 2));
-      const diffuse = (1 - Math.exp(-g)) * Math.pow(Math.cos(aRad), 4);
-      intensity = specular + diffuse * 0.05;
-    } else if (activeModel === 'Beckmann') {
-      // m is the RMS slope. We modulate it with slopeFactor.
-      const m = Math.max(0.005, (ra / 5) * slopeFactor); 
-      const cosA = Math.cos(aRad);
-      if (cosA > 0) {
-        const exponent = -Math.pow(Math.tan(aRad - thetaRad), 2) / (2 * m * m);
-        intensity = (1 / (Math.PI * m * m * Math.pow(cosA, 4))) * Math.exp(exponent);
+/**
+ * In-plane BRDF in sr⁻¹ on an adaptive angle grid: a coarse pass, then bisection wherever
+ * log-linear interpolation between neighbours misses the midpoint by more than `tolerance`
+ * decades, down to `minStep`. The specular neighbourhood is always sampled at `minStep`, so
+ * the result matches `calculateScattering(…, minStep, …)` at a fraction of the points:
+ * dense around the peak, sparse in the diffuse wings.
+ */
+export const calculateAdaptiveScattering = (
+  ra: number,
+  lambda: number,
+  thetaInc: number,
+  modelType: string = 'Auto',
+  minStep: number = 0.001,
+  reflectivity: number = 1.0,
+  slopeFactor: number = 1.0,
+  options: ScatteringOptions = {},
+  sampling: { coarseStep?: number; tolerance?: number } = {}
+): ScatteringData[] => {
+  const { coarseStep = 0.5, tolerance = 0.01 } = sampling;
+  const ctx = createScatterContext(ra, lambda, thetaInc, modelType, minStep, reflectivity, slopeFactor, options);
+  const snap = (a: number) => Number((-90 + Math.round((a + 90) / minStep) * minStep).toFixed(4));
+  const evaluate = (a: number) => Math.max(0, brdfAt(ctx, Math.abs(a) * DEG, a >= 0 ? 0 : Math.PI));
+  const log = (v: number) => Math.log10(Math.max(1e-30, v));
+
+  const seeds = new Set<number>();
+  for (let a = -90; a <= 90 + 1e-9; a += coarseStep) seeds.add(snap(Math.min(90, a)));
+  seeds.add(90);
+  // The sampled beam is a few `minStep` wide; seed it so bisection cannot step over it.
+  const beamSamples = Math.ceil((4 * ctx.beamWidth) / (minStep * DEG));
+  for (let k = -beamSamples; k <= beamSamples; k++) {
+    const a = snap(thetaInc + k * minStep);
+    if (a >= -90 && a <= 90) seeds.add(a);
+  }
+  // Likewise every grating order close enough to the plane of incidence to show in it.
+  if (ctx.machined) {
+    for (const { direction } of ctx.orders) {
+      if (Math.abs(direction[1]) > Math.sin(4 * ctx.beamWidth)) continue;
+      const centre = Math.asin(Math.max(-1, Math.min(1, direction[0]))) / DEG;
+      for (let k = -beamSamples; k <= beamSamples; k++) {
+        const a = snap(centre + k * minStep);
+        if (a >= -90 && a <= 90) seeds.add(a);
       }
+    }
+  }
+
+  const points = [...seeds].sort((x, y) => x - y).map(angle => ({ angle, intensity: evaluate(angle) }));
+  const data: ScatteringData[] = [points[0]];
+  const refine = (a: ScatteringData, b: ScatteringData) => {
+    const mid = snap((a.angle + b.angle) / 2);
+    if (mid <= a.angle || mid >= b.angle) return;
+    const m = { angle: mid, intensity: evaluate(mid) };
+    const t = (mid - a.angle) / (b.angle - a.angle);
+    if (Math.abs(log(m.intensity) - (log(a.intensity) * (1 - t) + log(b.intensity) * t)) > tolerance) {
+      refine(a, m);
+      data.push(m);
+      refine(m, b);
     } else {
-      const spec = Math.exp(-g) * Math.exp(-Math.pow(diff / (1.5 * slopeFactor), 2));
-      const diffu = (1 - Math.exp(-g)) * Math.pow(Math.cos(aRad), 1.5);
-      intensity = spec + diffu * 0.3;
+      data.push(m);
     }
-    
-    data.push({ angle: Number(a.toFixed(4)), intensity: Math.max(0, intensity) });
+  };
+  for (let i = 1; i < points.length; i++) {
+    if (points[i].angle - points[i - 1].angle > minStep * 1.5) refine(points[i - 1], points[i]);
+    data.push(points[i]);
   }
-  
-  const rawMaxIntensity = data.reduce((max, item) => (item.intensity > max ? item.intensity : max), 0);
-  
-  return data.map(d => ({ 
-    ...d, 
-    intensity: (d.intensity / (rawMaxIntensity || 1)) * reflectivity 
-  }));
-};
-
-export const calculateEnergyConcentration = (data: { angle: number; intensity: number }[], step: number) => {
-  const total = data.reduce((acc, d) => acc + d.intensity, 0);
-  if (total === 0) return { e50: 0, e90: 0, e99: 0 };
-
-  const sorted = [...data].sort((a, b) => b.intensity - a.intensity);
-  
-  let currentSum = 0;
-  let e50Count = 0, e90Count = 0, e99Count = 0;
-  
-  for (let i = 0; i < sorted.length; i++) {
-    currentSum += sorted[i].intensity;
-    const ratio = currentSum / total;
-    if (!e50Count && ratio >= 0.50) e50Count = i + 1;
-    if (!e90Count && ratio >= 0.90) e90Count = i + 1;
-    if (!e99Count && ratio >= 0.99) e99Count = i + 1;
-    if (e99Count) break;
-  }
-  
-  return { 
-    e50: Number((e50Count * step).toFixed(4)), 
-    e90: Number((e90Count * step).toFixed(4)), 
-    e99: Number((e99Count * step).toFixed(4)) 
+  return data;
+};
+
+/**
+ * `calculateScattering` together with the energy budget of the same evaluation,
+ * so sweeps need only one hemispherical integration per configuration.
+ */
+export const calculateScatteringWithBudget = (
+  ra: number,
+  lambda: number,
+  thetaInc: number,
+  modelType: string = 'Auto',
+  step: number = 1,
+  reflectivity: number = 1.0,
+  slopeFactor: number = 1.0,
+  options: ScatteringOptions = {}
+): { data: ScatteringData[]; budget: EnergyBudget } => {
+  const ctx = createScatterContext(ra, lambda, thetaInc, modelType, step, reflectivity, slopeFactor, options);
+  return { data: inPlaneCurve(ctx, step), budget: ctx.energy };
+};
+
+/**
+ * Cosine-weighted scatter function BRDF·cosθs of an in-plane curve.
+ */
+export const toCosineWeighted = (data: { angle: number; intensity: number }[]) =>
+  data.map(d => ({ angle: d.angle, intensity: d.intensity * Math.cos(d.angle * DEG) }));
+
+/**
+ * In-plane polarization-resolved BRDF in sr⁻¹: s/p channels (incident → scattered) and the
+ * full Mueller matrix per angle. The response to the incident Stokes vector reproduces
+ * `calculateScattering`.
+ */
+export const calculatePolarizedScattering = (
+  ra: number,
+  lambda: number,
+  thetaInc: number,
+  modelType: string = 'Auto',
+  step: number = 1,
+  reflectivity: number = 1.0,
+  slopeFactor: number = 1.0,
+  options: ScatteringOptions = {}
+): PolarizedScatteringData[] => {
+  const ctx = createScatterContext(ra, lambda, thetaInc, modelType, step, reflectivity, slopeFactor, options);
+  const data: PolarizedScatteringData[] = [];
+  for (let a = -90; a <= 90; a += step) {
+    const mueller = brdfMuellerAt(ctx, Math.abs(a) * DEG, a >= 0 ? 0 : Math.PI);
+    data.push({ angle: Number(a.toFixed(4)), ...muellerChannels(mueller), mueller });
+  }
+  return data;
+};
+
+/**
+ * Evaluates the active model over the whole scattering hemisphere (θs ∈ [0°, 90°], φs ∈ [0°, 360°)).
+ * Values are absolute BRDF in sr⁻¹, like `calculateScattering`.
+ */
+export const calculateHemisphericalBRDF = (
+  ra: number,
+  lambda: number,
+  thetaInc: number,
+  modelType: string = 'Auto',
+  thetaStep: number = 1,
+  phiStep: number = 2,
+  reflectivity: number = 1.0,
+  slopeFactor: number = 1.0,
+  options: ScatteringOptions = {}
+): HemisphericalBRDF => {
+  const ctx = createScatterContext(ra, lambda, thetaInc, modelType, thetaStep, reflectivity, slopeFactor, options);
+  const nTheta = Math.floor(90 / thetaStep) + 1;
+  const nPhi = Math.round(360 / phiStep);
+  const values = new Float32Array(nTheta * nPhi);
+
+  for (let i = 0; i < nTheta; i++) {
+    const thetaS = Math.min(90, i * thetaStep) * DEG;
+    for (let j = 0; j < nPhi; j++) {
+      values[i * nPhi + j] = Math.max(0, brdfAt(ctx, thetaS, j * phiStep * DEG));
+    }
+  }
+
+  return { thetaInc, activeModel: ctx.model, thetaStep, phiStep, nTheta, nPhi, values, budget: ctx.energy };
+};
+
+/**
+ * Energy budget of the active model (TIS, specular and hemispherical reflectance) and the
+ * encircled-energy half-angles: the cone around the specular direction that holds 50 / 90 / 99 %
+ * of the reflected power, weighted by BRDF·cosθs·dΩ over the whole hemisphere.
+ */
+export const calculateEnergyConcentration = (
+  ra: number,
+  lambda: number,
+  thetaInc: number,
+  modelType: string = 'Auto',
+  reflectivity: number = 1.0,
+  slopeFactor: number = 1.0,
+  options: ScatteringOptions = {}
+): EnergyConcentration => {
+  const ctx = createScatterContext(ra, lambda, thetaInc, modelType, NUMERICAL_STEP, reflectivity, slopeFactor, options);
+  const { rings, edges } = integrateAroundSpecular(ctx.thetaRad, (t, p) => ctx.diffuseScale * diffuseShapeAt(ctx, t, p));
+  // The coherent beam sits entirely inside the innermost ring; grating orders in the ring of
+  // their angular distance from specular.
+  if (hasCoherentBeam(ctx)) {
+    for (const { direction, efficiency } of ctx.orders) {
+      const dev = Math.acos(Math.min(1, direction[0] * Math.sin(ctx.thetaRad) + direction[2] * Math.cos(ctx.thetaRad)));
+      const ring = edges.findIndex(edge => edge >= dev);
+      rings[ring < 0 ? rings.length - 1 : ring] += ctx.energy.specular * efficiency;
+    }
+  }
+  const total = rings.reduce((acc, v) => acc + v, 0);
+  if (total <= 0) return { e50: 0, e90: 0, e99: 0, budget: ctx.energy };
+
+  const halfAngle = (fraction: number) => {
+    let cumulative = 0;
+    for (let i = 0; i < rings.length; i++) {
+      const next = cumulative + rings[i] / total;
+      if (next >= fraction) {
+        const inner = i === 0 ? 0 : edges[i - 1];
+        const t = rings[i] > 0 ? (fraction - cumulative) / (rings[i] / total) : 0;
+        return Number(((inner + (edges[i] - inner) * t) / DEG).toFixed(4));
+      }
+      cumulative = next;
+    }
+    return 180;
   };
+
+  return { e50: halfAngle(0.5), e90: halfAngle(0.9), e99: halfAngle(0.99), budget: ctx.energy };
 };
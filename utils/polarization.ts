@@ -0,0 +1,111 @@
+import { MuellerMatrix, PolarizationState, RefractiveIndex, StokesVector } from '../types';
+import { Complex, cAbs2, cAdd, cConj, cDiv, cMul, cScale, cSqrt, cSub, complex } from './complex';
+
+/** Jones matrix [[J11, J12], [J21, J22]] acting on (Es, Ep). */
+export type JonesMatrix = [[Complex, Complex], [Complex, Complex]];
+
+/**
+ * Index used when no material is selected: a near-perfect conductor whose
+ * results are scaled by the manual reflectivity.
+ */
+export const PERFECT_CONDUCTOR: RefractiveIndex = { n: 0, k: 1e4 };
+
+/**
+ * First-order vector perturbation polarization amplitudes (Elson / Church, see Stover,
+ * "Optical Scattering", ch. 5) for incident angle θi and scatter direction (θs, φs), in radians.
+ * Q_αβ = |q_αβ|² with α the incident and β the scattered polarization; at the specular
+ * direction q_ss = −rs and q_pp = rp, so Q reduces to the Fresnel reflectance.
+ * Returned as a Jones matrix: J11 = q_ss, J12 = q_ps, J21 = q_sp, J22 = q_pp.
+ */
+export const scatteringJones = (index: RefractiveIndex, thetaI: number, thetaS: number, phiS: number): JonesMatrix => {
+  const N = complex(index.n, index.k);
+  const eps = cMul(N, N);
+  const epsMinus1 = cSub(eps, complex(1));
+  const sinI = Math.sin(thetaI);
+  const sinS = Math.sin(thetaS);
+  const cosI = complex(Math.cos(thetaI));
+  const cosS = complex(Math.cos(thetaS));
+  const rootI = cSqrt(cSub(eps, complex(sinI * sinI)));
+  const rootS = cSqrt(cSub(eps, complex(sinS * sinS)));
+
+  const sI = cAdd(cosI, rootI);
+  const sS = cAdd(cosS, rootS);
+  const pI = cAdd(cMul(eps, cosI), rootI);
+  const pS = cAdd(cMul(eps, cosS), rootS);
+  const cosPhi = Math.cos(phiS);
+  const sinPhi = Math.sin(phiS);
+
+  const ss = cDiv(cScale(epsMinus1, cosPhi), cMul(sI, sS));
+  const sp = cDiv(cScale(cMul(epsMinus1, rootS), sinPhi), cMul(sI, pS));
+  const ps = cDiv(cScale(cMul(epsMinus1, rootI), sinPhi), cMul(pI, sS));
+  const ppNum = cSub(cScale(cMul(rootS, rootI), cosPhi), cScale(eps, sinI * sinS));
+  const pp = cDiv(cMul(epsMinus1, ppNum), cMul(pI, pS));
+
+  return [[ss, ps], [sp, pp]];
+};
+
+/**
+ * Converts a Jones matrix to the equivalent (non-depolarizing) Mueller matrix, row-major.
+ * Stokes convention: S1 = |Es|² − |Ep|², S2 = 2Re(Es Ep*), S3 = −2Im(Es Ep*).
+ */
+export const jonesToMueller = (J: JonesMatrix): MuellerMatrix => {
+  const [[a, b], [c, d]] = J;
+  const a2 = cAbs2(a), b2 = cAbs2(b), c2 = cAbs2(c), d2 = cAbs2(d);
+  const ab = cMul(a, cConj(b));
+  const cd = cMul(c, cConj(d));
+  const ac = cMul(a, cConj(c));
+  const bd = cMul(b, cConj(d));
+  const ad = cMul(a, cConj(d));
+  const bc = cMul(b, cConj(c));
+
+  return [
+    (a2 + b2 + c2 + d2) / 2, (a2 - b2 + c2 - d2) / 2, ab.re + cd.re, ab.im + cd.im,
+    (a2 + b2 - c2 - d2) / 2, (a2 - b2 - c2 + d2) / 2, ab.re - cd.re, ab.im - cd.im,
+    ac.re + bd.re, ac.re - bd.re, ad.re + bc.re, ad.im - bc.im,
+    -(ac.im + bd.im), -(ac.im - bd.im), -(ad.im + bc.im), ad.re - bc.re,
+  ];
+};
+
+export const scaleMueller = (M: MuellerMatrix, s: number): MuellerMatrix => M.map(v => v * s);
+
+export const addMueller = (A: MuellerMatrix, B: MuellerMatrix): MuellerMatrix => A.map((v, i) => v + B[i]);
+
+/** Pure depolarizer with unit transmittance. */
+export const DEPOLARIZER: MuellerMatrix = [1, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0];
+
+/**
+ * Normalised Stokes vector of the incident beam.
+ */
+export const incidentStokes = (state: PolarizationState, custom: StokesVector = [1, 0, 0, 0]): StokesVector => {
+  switch (state) {
+    case 's': return [1, 1, 0, 0];
+    case 'p': return [1, -1, 0, 0];
+    case 'stokes': {
+      const s0 = custom[0] || 1;
+      const [s1, s2, s3] = [custom[1] / s0, custom[2] / s0, custom[3] / s0];
+      // Clamp the degree of polarization to 1.
+      const dop = Math.hypot(s1, s2, s3);
+      const k = dop > 1 ? 1 / dop : 1;
+      return [1, s1 * k, s2 * k, s3 * k];
+    }
+    case 'unpolarized':
+    default:
+      return [1, 0, 0, 0];
+  }
+};
+
+/**
+ * Scattered intensity per unit incident intensity for the given incident Stokes vector.
+ */
+export const muellerResponse = (M: MuellerMatrix, S: StokesVector) =>
+  (M[0] * S[0] + M[1] * S[1] + M[2] * S[2] + M[3] * S[3]) / (S[0] || 1);
+
+/**
+ * Linear s/p channel intensities (incident → scattered) contained in a Mueller matrix.
+ */
+export const muellerChannels = (M: MuellerMatrix) => ({
+  ss: (M[0] + M[1] + M[4] + M[5]) / 2,
+  sp: (M[0] + M[1] - M[4] - M[5]) / 2,
+  ps: (M[0] - M[1] + M[4] - M[5]) / 2,
+  pp: (M[0] - M[1] - M[4] + M[5]) / 2,
+});
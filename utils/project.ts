@@ -0,0 +1,174 @@
+import {
+  AIAnalysisResult,
+  MaterialData,
+  MeasuredData,
+  MeasurementFormat,
+  PhysicalRegime,
+  ProjectFile,
+  Scenario,
+  SurfaceParameters,
+  SurfaceProcessingOptions,
+} from '../types';
+import { migrateParameters, parameterChanges } from './parameters';
+import { migrateMaterials } from './materials';
+import { migrateScenarios } from './scenarios';
+
+export const PROJECT_FILE_VERSION = 1;
+/** Version of the parameter encoding in links. */
+const LINK_VERSION = 1;
+
+export const DEFAULT_PROCESSING: SurfaceProcessingOptions = { level: true, formOrder: 0, cutoff: 800 };
+
+type RawProject = Record<string, unknown>;
+
+const MEASUREMENT_FORMATS: MeasurementFormat[] = ['profile-csv', 'xyz-grid', 'sdf', 'zygo-xyz'];
+const PHYSICAL_REGIMES: PhysicalRegime[] = ['Specular', 'Diffractive', 'Diffuse'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNumberList = (value: unknown, minLength: number): value is number[] =>
+  Array.isArray(value) && value.length >= minLength && value.every(v => typeof v === 'number' && Number.isFinite(v));
+
+/** A profile with matching x and z, or a rectangular height map with positive spacings. */
+const isMeasurement = (raw: Record<string, unknown>) => {
+  if (typeof raw.name !== 'string' || !MEASUREMENT_FORMATS.includes(raw.format as MeasurementFormat)) return false;
+  if (raw.kind === 'profile') return isNumberList(raw.x, 2) && isNumberList(raw.z, 2) && raw.x.length === raw.z.length;
+  if (raw.kind !== 'areal' || !Array.isArray(raw.heights) || raw.heights.length < 2) return false;
+  const cols = (raw.heights[0] as unknown[])?.length;
+  return raw.heights.every(row => isNumberList(row, 2) && row.length === cols)
+    && typeof raw.dx === 'number' && raw.dx > 0 && typeof raw.dy === 'number' && raw.dy > 0;
+};
+
+const migrateMeasurement = (raw: unknown, warnings: string[]): MeasuredData | null => {
+  if (raw === undefined || raw === null) return null;
+  if (isRecord(raw) && isMeasurement(raw)) return raw as unknown as MeasuredData;
+  warnings.push('measurement: not a readable profile or height map, ignored');
+  return null;
+};
+
+const migrateProcessing = (raw: unknown, warnings: string[]): SurfaceProcessingOptions => {
+  if (raw === undefined) return DEFAULT_PROCESSING;
+  const source = isRecord(raw) ? raw : {};
+  const checks: Record<keyof SurfaceProcessingOptions, (v: unknown) => boolean> = {
+    level: v => typeof v === 'boolean',
+    formOrder: v => typeof v === 'number' && Number.isInteger(v) && v >= 0 && v <= 3,
+    cutoff: v => typeof v === 'number' && Number.isFinite(v) && v >= 0,
+  };
+  const result = { ...DEFAULT_PROCESSING };
+  for (const key of Object.keys(checks) as (keyof SurfaceProcessingOptions)[]) {
+    const value = source[key];
+    if (value === undefined) continue;
+    if (checks[key](value)) (result as Record<string, unknown>)[key] = value;
+    else warnings.push(`processing.${key}: invalid (using the default)`);
+  }
+  return result;
+};
+
+const migrateAnalysis = (raw: unknown, warnings: string[]): AIAnalysisResult | null => {
+  if (raw === undefined || raw === null) return null;
+  if (
+    isRecord(raw)
+    && ['modelName', 'description', 'mathematicalDistribution', 'details'].every(k => typeof raw[k] === 'string')
+    && PHYSICAL_REGIMES.includes(raw.physicalRegime as PhysicalRegime)
+  ) {
+    return raw as unknown as AIAnalysisResult;
+  }
+  warnings.push('analysis: not a readable analysis, ignored');
+  return null;
+};
+
+/**
+ * Upgrades from version n to n + 1, applied in turn when an older project is opened. Changes
+ * that only add parameters need no entry: `migrateParameters` fills in their defaults.
+ */
+const PROJECT_MIGRATIONS: Record<number, (project: RawProject) => RawProject> = {};
+
+export const createProjectFile = (session: {
+  params: SurfaceParameters;
+  materials: MaterialData[];
+  measurement: MeasuredData | null;
+  processing: SurfaceProcessingOptions;
+  analysis: AIAnalysisResult | null;
+  scenarios: Scenario[];
+  baseline: string;
+}): ProjectFile => ({
+  format: 'alurough-project',
+  version: PROJECT_FILE_VERSION,
+  savedAt: new Date().toISOString(),
+  ...session,
+});
+
+/**
+ * Reads a project file of this or any earlier version. Invalid fields take their defaults
+ * (or are left out) rather than loading a broken session; each is reported in `warnings`.
+ */
+export const parseProjectFile = (text: string, warnings: string[] = []): ProjectFile => {
+  let project = JSON.parse(text) as RawProject;
+  if (project?.format !== 'alurough-project') throw new Error('Not an AluRough project file');
+  const version = Number(project.version);
+  if (!Number.isInteger(version) || version < 1) throw new Error('Project file has no valid version');
+  if (version > PROJECT_FILE_VERSION) throw new Error(`Project file version ${version} is newer than this app (${PROJECT_FILE_VERSION})`);
+  for (let v = version; v < PROJECT_FILE_VERSION; v++) {
+    const migrate = PROJECT_MIGRATIONS[v];
+    if (!migrate) throw new Error(`No migration from project version ${v}`);
+    project = migrate(project);
+  }
+  const materials = migrateMaterials(project.materials, warnings, 'materials');
+  const scenarios: Scenario[] = migrateScenarios(project.scenarios, warnings, materials, 'scenarios');
+  let baseline = typeof project.baseline === 'string' ? project.baseline : 'current';
+  if (baseline !== 'current' && !scenarios.some(s => s.id === baseline)) {
+    warnings.push(`baseline: unknown scenario "${baseline}", using the current parameters`);
+    baseline = 'current';
+  }
+  return {
+    format: 'alurough-project',
+    version: PROJECT_FILE_VERSION,
+    savedAt: typeof project.savedAt === 'string' ? project.savedAt : '',
+    params: migrateParameters(project.params, warnings, materials),
+    materials,
+    measurement: migrateMeasurement(project.measurement, warnings),
+    processing: migrateProcessing(project.processing, warnings),
+    analysis: migrateAnalysis(project.analysis, warnings),
+    scenarios,
+    baseline,
+  };
+};
+
+const toBase64Url = (text: string) => {
+  let binary = '';
+  for (const byte of new TextEncoder().encode(text)) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (encoded: string) => {
+  const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, c => c.charCodeAt(0)));
+};
+
+/**
+ * URL fragment (without '#') holding the parameters that differ from the defaults.
+ */
+export const encodeParametersToHash = (params: SurfaceParameters) =>
+  `v=${LINK_VERSION}&p=${toBase64Url(JSON.stringify(parameterChanges(params)))}`;
+
+/**
+ * Parameters from a URL fragment written by `encodeParametersToHash`; undefined when the
+ * fragment holds none. Links from older versions are migrated like project files, with
+ * invalid values reported in `warnings`.
+ */
+export const decodeParametersFromHash = (hash: string, warnings: string[] = []): SurfaceParameters | undefined => {
+  const query = new URLSearchParams(hash.replace(/^#/, ''));
+  const encoded = query.get('p');
+  if (!encoded) return undefined;
+  const version = Number(query.get('v') ?? LINK_VERSION);
+  if (version > LINK_VERSION) throw new Error(`Link version ${version} is newer than this app`);
+  let changes: unknown;
+  try {
+    changes = JSON.parse(fromBase64Url(encoded));
+  } catch {
+    throw new Error('Link parameters are not readable');
+  }
+  if (typeof changes !== 'object' || changes === null || Array.isArray(changes)) throw new Error('Link parameters are not readable');
+  return migrateParameters(changes, warnings);
+};
@@ -0,0 +1,75 @@
+import { PSDSettings } from '../types';
+
+export const DEFAULT_PSD_SETTINGS: PSDSettings = {
+  psdModel: 'ABC',
+  correlationLength: 5,
+  psdExponent: 2,
+  anisotropy: 1,
+};
+
+/**
+ * Resolves the K-correlation (ABC) parameters of a surface with RMS height sigma.
+ * B = 2π·ℓ and A is fixed by the normalisation σ² = 2πA / (B²(C − 1)),
+ * so C = 2 reproduces the exponential autocovariance exactly.
+ */
+export const abcParameters = (sigma: number, correlationLength: number, exponent: number) => {
+  const B = 2 * Math.PI * Math.max(1e-6, correlationLength);
+  const C = Math.max(1.01, exponent);
+  const A = (sigma * sigma * B * B * (C - 1)) / (2 * Math.PI);
+  return { A, B, C };
+};
+
+/**
+ * Isotropic 2D power spectral density in µm⁴ at radial spatial frequency f (µm⁻¹).
+ * Every model integrates over the frequency plane to σ².
+ */
+export const evaluatePSD = (f: number, sigma: number, settings: PSDSettings = DEFAULT_PSD_SETTINGS) => {
+  const l = Math.max(1e-6, settings.correlationLength);
+  const s2 = sigma * sigma;
+
+  switch (settings.psdModel) {
+    case 'Gaussian':
+      return Math.PI * s2 * l * l * Math.exp(-Math.pow(Math.PI * l * f, 2));
+    case 'Exponential':
+      return (2 * Math.PI * s2 * l * l) / Math.pow(1 + Math.pow(2 * Math.PI * l * f, 2), 1.5);
+    case 'Fractal': {
+      // Inverse power law A·f^-(C+1) above f0 = 1/ℓ, flat below it so σ stays finite.
+      const C = Math.max(1.01, settings.psdExponent);
+      const f0 = 1 / l;
+      const A = (s2 * (C - 1)) / (Math.PI * Math.pow(f0, 1 - C) * (C + 1));
+      return A * Math.pow(Math.max(f, f0), -(C + 1));
+    }
+    case 'ABC':
+    default: {
+      const { A, B, C } = abcParameters(sigma, l, settings.psdExponent);
+      return A / Math.pow(1 + Math.pow(B * f, 2), (C + 1) / 2);
+    }
+  }
+};
+
+/**
+ * Anisotropic 2D PSD: the isotropic model stretched so that the correlation length is ℓ
+ * along x and ℓ·anisotropy along y, keeping the same σ².
+ */
+export const evaluatePSD2D = (fx: number, fy: number, sigma: number, settings: PSDSettings = DEFAULT_PSD_SETTINGS) => {
+  const a = Math.max(1e-3, settings.anisotropy ?? 1);
+  return a * evaluatePSD(Math.hypot(fx, a * fy), sigma, settings);
+};
+
+/**
+ * RMS surface slopes along x and y from the PSD, counting spatial frequencies up to fMax
+ * (µm⁻¹): ⟨|∇h|²⟩ = ∫ (2πf)² PSD(f) 2πf df, split equally between the axes and divided by
+ * the anisotropy² along y.
+ */
+export const bandLimitedSlope = (sigma: number, settings: PSDSettings, fMax: number) => {
+  const samples = 480;
+  const logMax = Math.log(fMax);
+  const h = (12 * Math.LN10) / samples;
+  let meanSquare = 0;
+  for (let i = 0; i < samples; i++) {
+    const f = Math.exp(logMax - (i + 0.5) * h);
+    meanSquare += 8 * Math.pow(Math.PI, 3) * Math.pow(f, 4) * evaluatePSD(f, sigma, settings) * h;
+  }
+  const a = Math.max(1e-3, settings.anisotropy ?? 1);
+  return { x: Math.sqrt(meanSquare / 2), y: Math.sqrt(meanSquare / 2) / a };
+};
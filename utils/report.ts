@@ -0,0 +1,229 @@
+import { ScatteringData, SimulationReportInput, SurfaceParameters } from '../types';
+import { PROJECT_FILE_VERSION } from './project';
+import { TOOL_MARK_PROFILES } from './machining';
+
+interface ChartOptions {
+  logY: boolean;
+  xLabel: string;
+  yLabel: string;
+  color: string;
+  xDomain?: [number, number];
+  xTicks?: number[];
+}
+
+const CHART_WIDTH = 720;
+const CHART_HEIGHT = 300;
+const MARGIN = { left: 64, right: 16, top: 12, bottom: 40 };
+/** Decades below the peak shown on the log BRDF chart. */
+const LOG_DECADES = 8;
+const ANGLE_TICKS = [-90, -60, -30, 0, 30, 60, 90];
+/** Resolution of the BRDF table in the data appendix, degrees. */
+const APPENDIX_STEP = 1;
+
+const escapeHTML = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const formatNumber = (v: number) => (v !== 0 && (Math.abs(v) < 1e-3 || Math.abs(v) >= 1e5) ? v.toExponential(3) : Number(v.toPrecision(5)).toString());
+
+/** Labels of every surface parameter, so the table stays complete as fields are added. */
+const PARAMETER_ROWS: Record<keyof SurfaceParameters, [string, (p: SurfaceParameters) => string]> = {
+  material: ['材料', p => p.material],
+  ra: ['表面粗糙度 Ra', p => `${formatNumber(p.ra * 1000)} nm`],
+  wavelength: ['波长 λ', p => `${formatNumber(p.wavelength * 1000)} nm`],
+  incidentAngle: ['入射角 θi', p => `${p.incidentAngle}°`],
+  modelType: ['散射模型 (选择)', p => p.modelType],
+  reflectivity: ['反射率 (手动材料)', p => formatNumber(p.reflectivity)],
+  slopeFactor: ['微表面斜率因子', p => formatNumber(p.slopeFactor)],
+  microfacetGamma: ['尾部参数 γ', p => formatNumber(p.microfacetGamma)],
+  multipleScattering: ['多次散射补偿', p => (p.multipleScattering ? '开' : '关')],
+  psdModel: ['PSD 模型', p => p.psdModel],
+  correlationLength: ['相关长度 ℓ', p => `${formatNumber(p.correlationLength)} μm`],
+  psdExponent: ['谱指数 C', p => formatNumber(p.psdExponent)],
+  anisotropy: ['各向异性 ℓy / ℓx', p => formatNumber(p.anisotropy)],
+  seed: ['随机种子', p => String(p.seed)],
+  polarization: ['入射偏振态', p => p.polarization],
+  stokes: ['Stokes 矢量', p => `[${p.stokes.join(', ')}]`],
+  coating: ['薄膜膜系', p => (p.coating.layers.length
+    ? `${p.coating.layers.map(l => `${l.material} ${formatNumber(l.thickness * 1000)} nm (Ra ${formatNumber(l.ra * 1000)} nm)`).join(' / ')}, ${p.coating.correlation}`
+    : '无')],
+  machining: ['机加工纹理', p => (p.machining.enabled
+    ? `${TOOL_MARK_PROFILES.find(t => t.id === p.machining.profile)?.name ?? p.machining.profile}, 周期 ${formatNumber(p.machining.period)} μm, 深度 ${formatNumber(p.machining.depth * 1000)} nm, 纹理方向 ${p.machining.layAngle}°`
+    : '无')],
+};
+
+const niceTicks = (min: number, max: number, count: number) => {
+  const raw = (max - min) / count;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(raw)));
+  const step = [1, 2, 5, 10].map(m => m * magnitude).find(s => s >= raw) ?? raw;
+  const ticks: number[] = [];
+  for (let t = Math.ceil(min / step) * step; t <= max + step * 1e-9; t += step) ticks.push(Number(t.toPrecision(12)));
+  return ticks;
+};
+
+/** Line chart as inline SVG, so the report needs no script or external resource. */
+const lineChartSVG = (points: { x: number; y: number }[], options: ChartOptions) => {
+  const plotW = CHART_WIDTH - MARGIN.left - MARGIN.right;
+  const plotH = CHART_HEIGHT - MARGIN.top - MARGIN.bottom;
+  const [x0, x1] = options.xDomain ?? [Math.min(...points.map(p => p.x)), Math.max(...points.map(p => p.x))];
+  const yMaxRaw = Math.max(...points.map(p => p.y));
+  let yTicks: number[];
+  let toY: (y: number) => number;
+  if (options.logY) {
+    const top = Math.ceil(Math.log10(yMaxRaw > 0 ? yMaxRaw : 1));
+    const bottom = top - LOG_DECADES;
+    yTicks = Array.from({ length: LOG_DECADES + 1 }, (_, i) => Math.pow(10, bottom + i));
+    toY = y => Number((MARGIN.top + plotH * (1 - (Math.log10(Math.max(y, Math.pow(10, bottom))) - bottom) / LOG_DECADES)).toFixed(1));
+  } else {
+    const yMin = Math.min(0, ...points.map(p => p.y));
+    const yMax = yMaxRaw > yMin ? yMaxRaw : yMin + 1;
+    yTicks = niceTicks(yMin, yMax, 5);
+    const lo = Math.min(yMin, yTicks[0]);
+    const hi = Math.max(yMax, yTicks[yTicks.length - 1]);
+    toY = y => Number((MARGIN.top + plotH * (1 - (y - lo) / (hi - lo))).toFixed(1));
+  }
+  const toX = (x: number) => Number((MARGIN.left + plotW * ((x - x0) / (x1 - x0 || 1))).toFixed(1));
+  const path = points
+    .filter(p => p.x >= x0 && p.x <= x1)
+    .map((p, i) => `${i ? 'L' : 'M'}${toX(p.x)},${toY(p.y)}`)
+    .join('');
+  const xTicks = options.xTicks ?? niceTicks(x0, x1, 6);
+  const grid = [
+    ...xTicks.map(t => `<line x1="${toX(t)}" x2="${toX(t)}" y1="${MARGIN.top}" y2="${MARGIN.top + plotH}" class="grid"/><text x="${toX(t)}" y="${MARGIN.top + plotH + 16}" text-anchor="middle">${formatNumber(t)}</text>`),
+    ...yTicks.map(t => `<line x1="${MARGIN.left}" x2="${MARGIN.left + plotW}" y1="${toY(t)}" y2="${toY(t)}" class="grid"/><text x="${MARGIN.left - 6}" y="${toY(t) + 3}" text-anchor="end">${options.logY ? t.toExponential(0) : formatNumber(t)}</text>`),
+  ].join('');
+  return `<svg viewBox="0 0 ${CHART_WIDTH} ${CHART_HEIGHT}" class="chart" xmlns="http://www.w3.org/2000/svg">
+<rect x="${MARGIN.left}" y="${MARGIN.top}" width="${plotW}" height="${plotH}" class="frame"/>${grid}
+<path d="${path}" fill="none" stroke="${options.color}" stroke-width="1.5"/>
+<text x="${MARGIN.left + plotW / 2}" y="${CHART_HEIGHT - 6}" text-anchor="middle" class="axis">${escapeHTML(options.xLabel)}</text>
+<text transform="translate(14 ${MARGIN.top + plotH / 2}) rotate(-90)" text-anchor="middle" class="axis">${escapeHTML(options.yLabel)}</text>
+</svg>`;
+};
+
+const resampleCurve = (curve: ScatteringData[], step: number) => {
+  const rows: ScatteringData[] = [];
+  let j = 0;
+  for (let angle = -90; angle <= 90 + 1e-9; angle += step) {
+    while (j < curve.length - 2 && curve[j + 1].angle < angle) j++;
+    const a = curve[j];
+    const b = curve[Math.min(j + 1, curve.length - 1)];
+    const t = b.angle > a.angle ? Math.min(1, Math.max(0, (angle - a.angle) / (b.angle - a.angle))) : 0;
+    rows.push({ angle: Number(angle.toFixed(6)), intensity: a.intensity + (b.intensity - a.intensity) * t });
+  }
+  return rows;
+};
+
+const table = (rows: [string, string][]) =>
+  `<table>${rows.map(([k, v]) => `<tr><th>${escapeHTML(k)}</th><td>${escapeHTML(v)}</td></tr>`).join('')}</table>`;
+
+const REPORT_STYLE = `
+body { font-family: -apple-system, "Segoe UI", "PingFang SC", "Microsoft YaHei", sans-serif; color: #0f172a; max-width: 800px; margin: 32px auto; padding: 0 24px; font-size: 13px; line-height: 1.5; }
+h1 { font-size: 22px; margin-bottom: 4px; } h2 { font-size: 15px; border-bottom: 1px solid #cbd5e1; padding-bottom: 4px; margin-top: 28px; }
+.meta { color: #64748b; font-size: 11px; }
+table { border-collapse: collapse; width: 100%; margin: 8px 0; } th, td { border: 1px solid #e2e8f0; padding: 3px 8px; text-align: left; font-size: 12px; }
+th { background: #f8fafc; font-weight: 600; width: 40%; } td { font-family: ui-monospace, Menlo, monospace; }
+.data th, .data td { width: auto; text-align: right; font-family: ui-monospace, Menlo, monospace; font-weight: normal; font-size: 10px; padding: 1px 6px; }
+.chart { width: 100%; height: auto; font-size: 10px; } .chart .grid { stroke: #e2e8f0; } .chart .frame { fill: none; stroke: #94a3b8; } .chart .axis { font-size: 11px; }
+.snapshot { width: 100%; border: 1px solid #e2e8f0; border-radius: 8px; background: #020617; }
+.analysis { background: #f8fafc; border-left: 3px solid #6366f1; padding: 8px 12px; }
+code, pre { font-family: ui-monospace, Menlo, monospace; font-size: 11px; word-break: break-all; white-space: pre-wrap; }
+section { break-inside: avoid; } .appendix { break-before: page; break-inside: auto; }
+@media print { body { margin: 0; max-width: none; } a { color: inherit; } }
+`;
+
+/**
+ * Standalone HTML report of a simulation: parameters, summary statistics, the BRDF on linear
+ * and log axes, the surface snapshot and profile, the analysis and a data appendix. Charts
+ * are inline SVG and the 3D snapshot a data URL, so the file renders offline and prints to
+ * PDF as is. The embedded project file reopens the exact session.
+ */
+export const createSimulationReport = (input: SimulationReportInput) => {
+  const { params, energy, analysis } = input;
+  const budget = energy.budget;
+  const measured = input.measurementName !== null;
+  const curvePoints = input.curve.map(d => ({ x: d.angle, y: d.intensity }));
+
+  const summary: [string, string][] = [
+    ['材料', input.materialName],
+    ['有效粗糙度 Ra', `${formatNumber(input.effectiveRa * 1000)} nm${measured ? ` (实测: ${input.measurementName})` : ''}`],
+    ['实际求解模型', input.activeModel],
+    ['Rayleigh 相位因子 g', input.phaseFactor.toExponential(4)],
+    ['反射率 R', formatNumber(input.reflectance)],
+    ['镜面反射', budget.specular.toExponential(4)],
+    ['漫射反射', budget.diffuse.toExponential(4)],
+    ['半球反射', budget.hemispherical.toExponential(4)],
+    ['TIS', budget.tis.toExponential(4)],
+    ['E50 / E90 / E99 半角', `${energy.e50.toFixed(3)}° / ${energy.e90.toFixed(3)}° / ${energy.e99.toFixed(3)}°`],
+    ...(budget.clamped ? [['能量截断', '漫射已按 R 截断'] as [string, string]] : []),
+  ];
+
+  const reproducibility: [string, string][] = [
+    ['应用版本', input.appVersion],
+    ['项目文件版本', String(PROJECT_FILE_VERSION)],
+    ['随机种子', measured ? `${params.seed} (未使用：表面来自实测数据)` : String(params.seed)],
+    ['生成时间', input.generatedAt],
+  ];
+
+  const appendix = input.curve.length
+    ? resampleCurve(input.curve, APPENDIX_STEP).map(d => `<tr><td>${d.angle}</td><td>${d.intensity.toExponential(6)}</td></tr>`).join('')
+    : '';
+
+  return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+<meta charset="utf-8">
+<title>AluRough 仿真报告 ${escapeHTML(input.generatedAt.slice(0, 10))}</title>
+<style>${REPORT_STYLE}</style>
+</head>
+<body>
+<h1>AluRough 表面散射仿真报告</h1>
+<p class="meta">${escapeHTML(input.materialName)} · λ = ${formatNumber(params.wavelength * 1000)} nm · θi = ${params.incidentAngle}° · ${escapeHTML(input.activeModel)} · ${escapeHTML(input.generatedAt)}</p>
+
+<section>
+<h2>1. 仿真参数</h2>
+${table((Object.keys(PARAMETER_ROWS) as (keyof SurfaceParameters)[]).map(key => [PARAMETER_ROWS[key][0], PARAMETER_ROWS[key][1](params)]))}
+</section>
+
+<section>
+<h2>2. 散射统计</h2>
+${table(summary)}
+</section>
+
+<section>
+<h2>3. 面内 BRDF</h2>
+${curvePoints.length ? `${lineChartSVG(curvePoints, { logY: false, xLabel: 'θs (°)', yLabel: 'BRDF (sr⁻¹)', color: '#059669', xDomain: [-90, 90], xTicks: ANGLE_TICKS })}
+${lineChartSVG(curvePoints, { logY: true, xLabel: 'θs (°)', yLabel: 'BRDF (sr⁻¹, log)', color: '#059669', xDomain: [-90, 90], xTicks: ANGLE_TICKS })}` : '<p>无 BRDF 数据</p>'}
+</section>
+
+<section>
+<h2>4. 表面形貌</h2>
+${input.surfaceSnapshot ? `<img class="snapshot" src="${input.surfaceSnapshot}" alt="3D surface">` : '<p>无三维快照</p>'}
+${input.profile.length > 1 ? lineChartSVG(input.profile, { logY: false, xLabel: measured ? '位置 (μm) · 实测轮廓' : '位置 (μm) · 中心截面', yLabel: '高度 (μm)', color: '#6366f1' }) : ''}
+</section>
+
+<section>
+<h2>5. 物理分析</h2>
+${analysis ? `<div class="analysis">
+<p><strong>${escapeHTML(analysis.modelName)}</strong> · ${escapeHTML(analysis.physicalRegime)}</p>
+<p>${escapeHTML(analysis.description)}</p>
+<p><code>${escapeHTML(analysis.mathematicalDistribution)}</code></p>
+<p>${escapeHTML(analysis.details)}</p>
+</div>` : '<p>未运行分析</p>'}
+</section>
+
+<section>
+<h2>6. 可复现性</h2>
+${table(reproducibility)}
+<p>参数链接：<a href="${escapeHTML(input.link)}"><code>${escapeHTML(input.link)}</code></a></p>
+<p class="meta">完整项目文件嵌入在本报告的 <code>#alurough-project</code> 中，另存为 .json 后可在应用中“打开项目”重现此结果。</p>
+</section>
+
+<section class="appendix">
+<h2>附录：BRDF 数据 (${APPENDIX_STEP}° 间隔, sr⁻¹)</h2>
+<table class="data"><tr><th>θs (°)</th><th>BRDF</th></tr>${appendix}</table>
+</section>
+
+<script type="application/json" id="alurough-project">${JSON.stringify(input.project).replace(/</g, '\\u003c')}</script>
+</body>
+</html>
+`;
+};
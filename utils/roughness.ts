@@ -0,0 +1,236 @@
+import {
+  ArealRoughness,
+  MeasuredProfile,
+  MeasuredSurface,
+  ProfileRoughness,
+  SurfaceProcessingOptions,
+} from '../types';
+import { solveLinear } from './linalg';
+
+// Gaussian weighting constant of ISO 16610-21: α = sqrt(ln 2 / π)
+const GAUSSIAN_ALPHA = Math.sqrt(Math.LN2 / Math.PI);
+
+/**
+ * Least-squares fit of the given basis functions; returns the residual heights.
+ */
+const removeFit = (samples: number, basisAt: (i: number) => number[], z: (i: number) => number) => {
+  const nTerms = basisAt(0).length;
+  const ata = Array.from({ length: nTerms }, () => new Array(nTerms).fill(0));
+  const atb = new Array(nTerms).fill(0);
+  for (let i = 0; i < samples; i++) {
+    const basis = basisAt(i);
+    const zi = z(i);
+    for (let r = 0; r < nTerms; r++) {
+      atb[r] += basis[r] * zi;
+      for (let c = 0; c < nTerms; c++) ata[r][c] += basis[r] * basis[c];
+    }
+  }
+  const coeffs = solveLinear(ata, atb);
+  const residual = new Array(samples);
+  for (let i = 0; i < samples; i++) {
+    const basis = basisAt(i);
+    residual[i] = z(i) - basis.reduce((acc, v, k) => acc + v * coeffs[k], 0);
+  }
+  return residual as number[];
+};
+
+/**
+ * Removes a least-squares polynomial of the given order from a profile
+ * (order 1 = leveling, order ≥ 2 = form removal).
+ */
+export const removeProfilePolynomial = (x: number[], z: number[], order: number) => {
+  const x0 = x[0];
+  const span = (x[x.length - 1] - x0) || 1;
+  const basisAt = (i: number) => {
+    const u = (2 * (x[i] - x0)) / span - 1;
+    return Array.from({ length: order + 1 }, (_, k) => Math.pow(u, k));
+  };
+  return removeFit(z.length, basisAt, i => z[i]);
+};
+
+/**
+ * Removes a least-squares polynomial surface of the given total order
+ * (order 1 = plane leveling, order ≥ 2 = form removal).
+ */
+export const removeSurfacePolynomial = (heights: number[][], order: number) => {
+  const rows = heights.length;
+  const cols = heights[0].length;
+  const basisAt = (idx: number) => {
+    const u = cols > 1 ? (2 * (idx % cols)) / (cols - 1) - 1 : 0;
+    const v = rows > 1 ? (2 * Math.floor(idx / cols)) / (rows - 1) - 1 : 0;
+    const terms: number[] = [];
+    for (let total = 0; total <= order; total++) {
+      for (let j = 0; j <= total; j++) terms.push(Math.pow(u, total - j) * Math.pow(v, j));
+    }
+    return terms;
+  };
+  const flat = removeFit(rows * cols, basisAt, idx => heights[Math.floor(idx / cols)][idx % cols]);
+  return Array.from({ length: rows }, (_, r) => flat.slice(r * cols, (r + 1) * cols));
+};
+
+/**
+ * ISO 16610-21 Gaussian profile filter. Returns the mean line (long-wave component)
+ * for cut-off `cutoff`; the roughness profile is z minus this line.
+ * Ends are handled by renormalising the truncated weighting function.
+ */
+export const gaussianMeanLine = (z: number[], dx: number, cutoff: number) => {
+  // Weights beyond the profile are never used, so a long cut-off on a short profile stays cheap.
+  const halfWidth = Math.min(z.length, Math.max(1, Math.ceil(cutoff / dx)));
+  const weights = Array.from({ length: 2 * halfWidth + 1 }, (_, k) => {
+    const xk = (k - halfWidth) * dx;
+    return Math.exp(-Math.PI * Math.pow(xk / (GAUSSIAN_ALPHA * cutoff), 2));
+  });
+
+  return z.map((_, i) => {
+    let sum = 0;
+    let wsum = 0;
+    for (let k = -halfWidth; k <= halfWidth; k++) {
+      const j = i + k;
+      if (j < 0 || j >= z.length) continue;
+      const w = weights[k + halfWidth];
+      sum += w * z[j];
+      wsum += w;
+    }
+    return sum / wsum;
+  });
+};
+
+/**
+ * ISO 16610-61 areal Gaussian filter, applied separably along rows and columns.
+ * Returns the long-wave (L-) surface.
+ */
+export const gaussianMeanSurface = (heights: number[][], dx: number, dy: number, cutoff: number) => {
+  const rowFiltered = heights.map(row => gaussianMeanLine(row, dx, cutoff));
+  const rows = heights.length;
+  const cols = heights[0].length;
+  const result = Array.from({ length: rows }, () => new Array<number>(cols));
+  for (let c = 0; c < cols; c++) {
+    const column = gaussianMeanLine(rowFiltered.map(row => row[c]), dy, cutoff);
+    for (let r = 0; r < rows; r++) result[r][c] = column[r];
+  }
+  return result;
+};
+
+/**
+ * Height moments shared by the profile and areal parameter sets.
+ */
+const heightMoments = (values: number[]) => {
+  const n = values.length;
+  const mean = values.reduce((acc, v) => acc + v, 0) / n;
+  let absSum = 0, m2 = 0, m3 = 0, m4 = 0, max = -Infinity, min = Infinity;
+  for (const raw of values) {
+    const v = raw - mean;
+    absSum += Math.abs(v);
+    m2 += v * v;
+    m3 += v * v * v;
+    m4 += v * v * v * v;
+    if (v > max) max = v;
+    if (v < min) min = v;
+  }
+  const q = Math.sqrt(m2 / n);
+  return {
+    a: absSum / n,
+    q,
+    sk: q > 0 ? m3 / n / Math.pow(q, 3) : 0,
+    ku: q > 0 ? m4 / n / Math.pow(q, 4) : 0,
+    p: max,
+    v: -min,
+  };
+};
+
+/**
+ * ISO 4287 profile parameters. Rz is the mean peak-to-valley height over
+ * five consecutive sampling lengths.
+ */
+export const calculateProfileRoughness = (z: number[]): ProfileRoughness => {
+  const m = heightMoments(z);
+  const segments = 5;
+  const segLen = Math.floor(z.length / segments);
+  let rz = m.p + m.v;
+  if (segLen >= 2) {
+    let sum = 0;
+    for (let s = 0; s < segments; s++) {
+      let max = -Infinity, min = Infinity;
+      for (let i = s * segLen; i < (s + 1) * segLen; i++) {
+        if (z[i] > max) max = z[i];
+        if (z[i] < min) min = z[i];
+      }
+      sum += max - min;
+    }
+    rz = sum / segments;
+  }
+  return { ra: m.a, rq: m.q, rsk: m.sk, rku: m.ku, rp: m.p, rv: m.v, rz };
+};
+
+/**
+ * ISO 25178-2 areal height parameters.
+ */
+export const calculateArealRoughness = (heights: number[][]): ArealRoughness => {
+  const m = heightMoments(heights.flat());
+  return { sa: m.a, sq: m.q, ssk: m.sk, sku: m.ku, sp: m.p, sv: m.v, sz: m.p + m.v };
+};
+
+/**
+ * Applies leveling, form removal and Gaussian filtering to a measured profile
+ * and evaluates its roughness parameters.
+ */
+export const processProfile = (profile: MeasuredProfile, options: SurfaceProcessingOptions) => {
+  const { x } = profile;
+  let z = [...profile.z];
+  if (options.level) z = removeProfilePolynomial(x, z, 1);
+  if (options.formOrder >= 2) z = removeProfilePolynomial(x, z, options.formOrder);
+  if (options.cutoff > 0) {
+    const dx = (x[x.length - 1] - x[0]) / Math.max(1, x.length - 1);
+    const mean = gaussianMeanLine(z, dx, options.cutoff);
+    z = z.map((v, i) => v - mean[i]);
+  }
+  return { x, z, roughness: calculateProfileRoughness(z) };
+};
+
+/**
+ * Applies plane leveling, polynomial form removal and the areal Gaussian filter
+ * to a measured height map and evaluates its areal and mid-row profile parameters.
+ */
+export const processSurface = (surface: MeasuredSurface, options: SurfaceProcessingOptions) => {
+  let heights = surface.heights.map(row => [...row]);
+  if (options.level) heights = removeSurfacePolynomial(heights, 1);
+  if (options.formOrder >= 2) heights = removeSurfacePolynomial(heights, options.formOrder);
+  if (options.cutoff > 0) {
+    const mean = gaussianMeanSurface(heights, surface.dx, surface.dy, options.cutoff);
+    heights = heights.map((row, r) => row.map((v, c) => v - mean[r][c]));
+  }
+  const midRow = heights[Math.floor(heights.length / 2)];
+  return {
+    heights,
+    x: midRow.map((_, i) => i * surface.dx),
+    z: midRow,
+    roughness: calculateArealRoughness(heights),
+    profileRoughness: calculateProfileRoughness(midRow),
+  };
+};
+
+/**
+ * Bilinearly resamples a height map onto a square grid for the 3D view.
+ */
+export const resampleHeightMap = (heights: number[][], size: number) => {
+  const rows = heights.length;
+  const cols = heights[0].length;
+  const grid: number[][] = [];
+  for (let i = 0; i < size; i++) {
+    grid[i] = [];
+    const fr = (i / Math.max(1, size - 1)) * (rows - 1);
+    const r0 = Math.floor(fr);
+    const r1 = Math.min(rows - 1, r0 + 1);
+    const tr = fr - r0;
+    for (let j = 0; j < size; j++) {
+      const fc = (j / Math.max(1, size - 1)) * (cols - 1);
+      const c0 = Math.floor(fc);
+      const c1 = Math.min(cols - 1, c0 + 1);
+      const tc = fc - c0;
+      const top = heights[r0][c0] * (1 - tc) + heights[r0][c1] * tc;
+      const bottom = heights[r1][c0] * (1 - tc) + heights[r1][c1] * tc;
+      grid[i][j] = top * (1 - tr) + bottom * tr;
+    }
+  }
+  return grid;
+};
@@ -0,0 +1,194 @@
+import {
+  MaterialData,
+  Scenario,
+  ScenarioComparisonMode,
+  ScenarioSetFile,
+  ScatteringData,
+  ScatteringRequest,
+  SurfaceParameters,
+} from '../types';
+import { calculateEnergyConcentration, calculatePhaseFactor, resolveActiveModel } from './physics';
+import { MANUAL_MATERIAL_ID, findMaterial, migrateMaterials } from './materials';
+import { incidentStokes } from './polarization';
+import { resolveCoating, surfaceOpticsAt } from './thinFilm';
+import { MODEL_TYPES, migrateParameters } from './parameters';
+
+export const SCENARIO_COLORS = ['#38bdf8', '#f472b6', '#a3e635', '#fb923c', '#c084fc', '#facc15', '#2dd4bf', '#f87171'];
+
+/** Angular grid of the difference and ratio plots, in degrees. */
+const COMPARISON_STEP = 0.25;
+
+const SCENARIO_FILE_VERSION = 1;
+
+/**
+ * Scattering request for a parameter set: reflectance of the material and its coating at the
+ * incidence angle (or the manual reflectivity) and the matching scatter options.
+ */
+export const scatteringRequestFor = (
+  params: SurfaceParameters,
+  userMaterials: MaterialData[] = [],
+  realizations?: number
+): ScatteringRequest => {
+  const material = params.material === MANUAL_MATERIAL_ID ? undefined : findMaterial(params.material, userMaterials);
+  const coating = resolveCoating(params.coating, userMaterials);
+  const { reflectance, refractiveIndex, film } = surfaceOpticsAt(material, coating, params.wavelength, params.incidentAngle, params.reflectivity);
+  return {
+    ra: params.ra,
+    wavelength: params.wavelength,
+    incidentAngle: params.incidentAngle,
+    modelType: params.modelType,
+    reflectivity: reflectance,
+    slopeFactor: params.slopeFactor,
+    options: {
+      psdModel: params.psdModel,
+      correlationLength: params.correlationLength,
+      psdExponent: params.psdExponent,
+      anisotropy: params.anisotropy,
+      refractiveIndex,
+      coating: film,
+      stokes: incidentStokes(params.polarization, params.stokes),
+      seed: params.seed,
+      microfacetGamma: params.microfacetGamma,
+      multipleScattering: params.multipleScattering,
+      machining: params.machining,
+      ...(realizations ? { realizations } : {}),
+    },
+  };
+};
+
+/**
+ * Pins a parameter set, evaluating its energy statistics once.
+ */
+export const createScenario = (name: string, params: SurfaceParameters, userMaterials: MaterialData[], color: string): Scenario => {
+  const request = scatteringRequestFor(params, userMaterials);
+  const phaseFactor = calculatePhaseFactor(params.ra, params.wavelength, params.incidentAngle);
+  return {
+    id: `scenario-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`,
+    name,
+    color,
+    visible: true,
+    params: { ...params },
+    summary: {
+      activeModel: resolveActiveModel(params.modelType, phaseFactor),
+      phaseFactor,
+      reflectance: request.reflectivity,
+      energy: calculateEnergyConcentration(
+        request.ra, request.wavelength, request.incidentAngle, request.modelType,
+        request.reflectivity, request.slopeFactor, request.options
+      ),
+    },
+  };
+};
+
+/**
+ * Log-linear interpolation of a curve sorted by angle; undefined outside its range.
+ */
+export const interpolateCurve = (curve: ScatteringData[], angle: number) => {
+  if (!curve.length || angle < curve[0].angle || angle > curve[curve.length - 1].angle) return undefined;
+  let lo = 0;
+  let hi = curve.length - 1;
+  while (hi - lo > 1) {
+    const mid = (lo + hi) >> 1;
+    if (curve[mid].angle <= angle) lo = mid;
+    else hi = mid;
+  }
+  const a = curve[lo];
+  const b = curve[hi];
+  const t = b.angle > a.angle ? (angle - a.angle) / (b.angle - a.angle) : 0;
+  if (a.intensity > 0 && b.intensity > 0) return a.intensity * Math.pow(b.intensity / a.intensity, t);
+  return a.intensity + (b.intensity - a.intensity) * t;
+};
+
+/**
+ * Difference (sr⁻¹) or ratio of a curve against a baseline on a common angle grid. Ratios
+ * where the baseline vanishes are left out.
+ */
+export const compareToBaseline = (
+  curve: ScatteringData[],
+  baseline: ScatteringData[],
+  mode: ScenarioComparisonMode
+): ScatteringData[] => {
+  const result: ScatteringData[] = [];
+  for (let a = -90; a <= 90 + 1e-9; a += COMPARISON_STEP) {
+    const angle = Number(a.toFixed(4));
+    const value = interpolateCurve(curve, angle);
+    const base = interpolateCurve(baseline, angle);
+    if (value === undefined || base === undefined) continue;
+    if (mode === 'difference') result.push({ angle, intensity: value - base });
+    else if (base > 0) result.push({ angle, intensity: value / base });
+  }
+  return result;
+};
+
+/** Scenario file with the user materials its scenarios use, as substrate or in a coating layer. */
+export const createScenarioSetFile = (scenarios: Scenario[], baseline: string, userMaterials: MaterialData[]): ScenarioSetFile => {
+  const used = new Set(scenarios.flatMap(s => [s.params.material, ...s.params.coating.layers.map(l => l.material)]));
+  return {
+    format: 'alurough-scenarios',
+    version: SCENARIO_FILE_VERSION,
+    baseline,
+    scenarios,
+    materials: userMaterials.filter(m => used.has(m.id)),
+  };
+};
+
+const isNumber = (value: unknown) => typeof value === 'number' && Number.isFinite(value);
+
+/** The summary columns of the comparison table: model, g, R and the energy statistics. */
+const isSummary = (raw: unknown) => {
+  const summary = raw as Scenario['summary'] | null;
+  return typeof summary === 'object' && summary !== null
+    && MODEL_TYPES.includes(summary.activeModel)
+    && [summary.phaseFactor, summary.reflectance].every(isNumber)
+    && typeof summary.energy === 'object' && summary.energy !== null
+    && [summary.energy.e50, summary.energy.e90, summary.energy.e99].every(isNumber)
+    && typeof summary.energy.budget === 'object' && summary.energy.budget !== null
+    && (['fresnel', 'specular', 'diffuse', 'hemispherical', 'tis'] as const).every(k => isNumber(summary.energy.budget[k]));
+};
+
+/**
+ * Scenarios stored in a project or scenario file. A scenario without an id, a name, a colour
+ * or a readable summary is left out; invalid parameters take their defaults. Problems are
+ * added to `warnings` under `path`, and materials are checked against `materials`.
+ */
+export const migrateScenarios = (raw: unknown, warnings: string[], materials: MaterialData[], path: string): Scenario[] => {
+  if (raw === undefined) return [];
+  if (!Array.isArray(raw)) {
+    warnings.push(`${path}: expected a list, ignored`);
+    return [];
+  }
+  return raw.flatMap((s, i) => {
+    const at = `${path}[${i}]`;
+    if (typeof s?.id !== 'string' || typeof s.name !== 'string' || typeof s.color !== 'string' || typeof s.params !== 'object' || s.params === null || !isSummary(s.summary)) {
+      warnings.push(`${at}: not a scenario with id, name, colour, parameters and summary, ignored`);
+      return [];
+    }
+    return [{
+      id: s.id,
+      name: s.name,
+      color: s.color,
+      visible: typeof s.visible === 'boolean' ? s.visible : true,
+      params: migrateParameters(s.params, warnings, materials, `${at}.params`),
+      summary: s.summary,
+    }];
+  });
+};
+
+/**
+ * Reads a scenario file. Invalid entries are dropped or take their defaults, each with a
+ * message in `warnings`.
+ */
+export const parseScenarioSetFile = (text: string, warnings: string[] = []): ScenarioSetFile => {
+  const file = JSON.parse(text) as Record<string, unknown>;
+  if (file?.format !== 'alurough-scenarios') throw new Error('Not an AluRough scenario file');
+  if (Number(file.version) > SCENARIO_FILE_VERSION) throw new Error(`Unsupported scenario file version ${file.version}`);
+  if (!Array.isArray(file.scenarios)) throw new Error('Scenario file has no scenarios');
+  const materials = migrateMaterials(file.materials, warnings, 'materials');
+  const scenarios = migrateScenarios(file.scenarios, warnings, materials, 'scenarios');
+  let baseline = typeof file.baseline === 'string' ? file.baseline : 'current';
+  if (baseline !== 'current' && !scenarios.some(s => s.id === baseline)) {
+    warnings.push(`baseline: unknown scenario "${baseline}", using the current parameters`);
+    baseline = 'current';
+  }
+  return { format: 'alurough-scenarios', version: SCENARIO_FILE_VERSION, baseline, scenarios, materials };
+};
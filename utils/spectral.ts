@@ -0,0 +1,171 @@
+import {
+  BandAverage,
+  EnergyBudget,
+  MaterialData,
+  ResolvedCoating,
+  ScatteringOptions,
+  SourceSpectrum,
+  SpectralSweepResult,
+  SpectralSweepSettings,
+  SpectrumPoint,
+} from '../types';
+import { calculateScatteringWithBudget } from './physics';
+import { surfaceOpticsAt } from './thinFilm';
+
+/** Second radiation constant hc/k in µm·K. */
+const C2 = 14387.77;
+
+/**
+ * CIE standard illuminant D65, relative spectral power from 300 nm to 780 nm in 10 nm steps.
+ */
+const D65 = [
+  0.0341, 3.2945, 20.236, 37.0535, 39.9488, 44.9117, 46.6383, 52.0891, 49.9755, 54.6482,
+  82.7549, 91.486, 93.4318, 86.6823, 104.865, 117.008, 117.812, 114.861, 115.923, 108.811,
+  109.354, 107.802, 104.79, 107.689, 104.405, 104.046, 100, 96.3342, 95.788, 88.6856,
+  90.0062, 89.5991, 87.6987, 83.2886, 83.6992, 80.0268, 80.2146, 82.2778, 78.2842, 69.7213,
+  71.6091, 74.349, 61.604, 69.8856, 75.087, 63.5927, 46.4182, 66.8054, 63.3828,
+];
+
+export const DEFAULT_SOURCE_SPECTRUM: SourceSpectrum = { type: 'blackbody', temperature: 5778 };
+
+export const DEFAULT_SWEEP_SETTINGS: SpectralSweepSettings = {
+  minWavelength: 0.3,
+  maxWavelength: 12,
+  samples: 40,
+  angleStep: 0.5,
+};
+
+/**
+ * Linear interpolation in a sorted spectrum table; zero outside it.
+ */
+const interpolateSpectrum = (points: SpectrumPoint[], wavelength: number) => {
+  if (!points.length || wavelength < points[0].wavelength || wavelength > points[points.length - 1].wavelength) return 0;
+  let i = 1;
+  while (i < points.length - 1 && points[i].wavelength < wavelength) i++;
+  const a = points[i - 1];
+  const b = points[i];
+  const t = b.wavelength > a.wavelength ? (wavelength - a.wavelength) / (b.wavelength - a.wavelength) : 0;
+  return a.value + (b.value - a.value) * t;
+};
+
+/**
+ * Relative spectral power of the source at the given wavelength (µm), per unit wavelength.
+ */
+export const sourceSpectralPower = (source: SourceSpectrum, wavelength: number) => {
+  switch (source.type) {
+    case 'blackbody': {
+      // Planck's law up to a constant factor.
+      const x = C2 / (wavelength * Math.max(1, source.temperature));
+      return x > 700 ? 0 : 1 / (Math.pow(wavelength, 5) * Math.expm1(x));
+    }
+    case 'D65': {
+      const f = (wavelength * 1000 - 300) / 10;
+      if (f < 0 || f > D65.length - 1) return 0;
+      const i = Math.min(D65.length - 2, Math.floor(f));
+      return D65[i] + (D65[i + 1] - D65[i]) * (f - i);
+    }
+    case 'custom':
+      return interpolateSpectrum(source.custom?.points ?? [], wavelength);
+    case 'flat':
+    default:
+      return 1;
+  }
+};
+
+/**
+ * Parses an imported source spectrum: columns wavelength, relative power.
+ * Wavelengths above 50 are taken to be in nm and converted to µm.
+ */
+export const parseSpectrumCSV = (text: string, name: string): NonNullable<SourceSpectrum['custom']> => {
+  const rows: SpectrumPoint[] = [];
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (!line || line.startsWith('#')) continue;
+    const fields = line.split(/[\s,;]+/).map(Number);
+    if (fields.length < 2 || fields.slice(0, 2).some(v => !Number.isFinite(v))) continue;
+    rows.push({ wavelength: fields[0], value: Math.max(0, fields[1]) });
+  }
+  if (rows.length < 2) throw new Error('Spectrum needs at least two wavelength,value rows');
+
+  const inNm = rows.every(r => r.wavelength > 50);
+  const points = rows
+    .map(r => ({ ...r, wavelength: inNm ? r.wavelength / 1000 : r.wavelength }))
+    .sort((a, b) => a.wavelength - b.wavelength);
+  return { name, points };
+};
+
+/**
+ * Runs the in-plane model over a log-spaced wavelength band. With a material the refractive
+ * index (and hence the Fresnel or coating reflectance) follows the wavelength; otherwise the
+ * manual reflectivity scales a perfect conductor at every wavelength.
+ */
+export const calculateSpectralSweep = (
+  ra: number,
+  thetaInc: number,
+  modelType: string,
+  slopeFactor: number,
+  options: ScatteringOptions,
+  settings: SpectralSweepSettings,
+  material?: MaterialData,
+  reflectivity: number = 1.0,
+  coating?: ResolvedCoating
+): SpectralSweepResult => {
+  const min = Math.max(0.01, Math.min(settings.minWavelength, settings.maxWavelength));
+  const max = Math.max(settings.minWavelength, settings.maxWavelength);
+  const count = Math.max(2, Math.round(settings.samples));
+  const wavelengths = Array.from({ length: count }, (_, i) => min * Math.pow(max / min, i / (count - 1)));
+
+  let angles: number[] = [];
+  const rows: number[][] = [];
+  const budgets: EnergyBudget[] = [];
+  for (const lambda of wavelengths) {
+    const { reflectance, refractiveIndex, film } = surfaceOpticsAt(material, coating, lambda, thetaInc, reflectivity);
+    const { data, budget } = calculateScatteringWithBudget(
+      ra, lambda, thetaInc, modelType, settings.angleStep, reflectance, slopeFactor, { ...options, refractiveIndex, coating: film }
+    );
+    angles = data.map(d => d.angle);
+    rows.push(data.map(d => d.intensity));
+    budgets.push(budget);
+  }
+
+  const values = new Float32Array(count * angles.length);
+  rows.forEach((row, i) => values.set(row, i * angles.length));
+  return { wavelengths, angles, values, budgets };
+};
+
+/**
+ * Source-weighted band averages of a sweep (trapezoidal in wavelength). Reflectances are
+ * weighted by the incident spectral power; TIS and the specular fraction are ratios of the
+ * band-integrated powers, not averages of the per-wavelength ratios.
+ */
+export const calculateBandAverage = (sweep: SpectralSweepResult, source: SourceSpectrum): BandAverage => {
+  const { wavelengths, angles, values, budgets } = sweep;
+  const weights = wavelengths.map((lambda, i) => {
+    const lo = wavelengths[Math.max(0, i - 1)];
+    const hi = wavelengths[Math.min(wavelengths.length - 1, i + 1)];
+    return sourceSpectralPower(source, lambda) * (hi - lo) / 2;
+  });
+  const totalWeight = weights.reduce((acc, w) => acc + w, 0);
+  if (totalWeight <= 0) {
+    return { hemispherical: 0, specular: 0, tis: 0, specularFraction: 0, brdf: angles.map(angle => ({ angle, intensity: 0 })) };
+  }
+
+  const weighted = (pick: (b: EnergyBudget) => number) =>
+    budgets.reduce((acc, b, i) => acc + pick(b) * weights[i], 0) / totalWeight;
+  const hemispherical = weighted(b => b.hemispherical);
+  const specular = weighted(b => b.specular);
+  const diffuse = weighted(b => b.diffuse);
+
+  const brdf = angles.map((angle, j) => ({
+    angle,
+    intensity: weights.reduce((acc, w, i) => acc + w * values[i * angles.length + j], 0) / totalWeight,
+  }));
+
+  return {
+    hemispherical,
+    specular,
+    tis: hemispherical > 0 ? diffuse / hemispherical : 0,
+    specularFraction: hemispherical > 0 ? specular / hemispherical : 0,
+    brdf,
+  };
+};
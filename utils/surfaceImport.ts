@@ -0,0 +1,207 @@
+import { MeasuredData, MeasuredProfile, MeasuredSurface } from '../types';
+
+const splitLines = (text: string) => text.split(/\r?\n/).map(l => l.trim());
+
+const splitFields = (line: string) => line.split(/[\s,;]+/).filter(f => f.length > 0);
+
+const isNumericRow = (fields: string[]) => fields.length > 0 && fields.every(f => !isNaN(Number(f)));
+
+/**
+ * Replaces invalid (NaN) heights with the mean of the valid ones so the
+ * downstream filters and parameters never see holes.
+ */
+const fillInvalid = (heights: number[][]) => {
+  let sum = 0;
+  let count = 0;
+  for (const row of heights) {
+    for (const h of row) {
+      if (Number.isFinite(h)) {
+        sum += h;
+        count++;
+      }
+    }
+  }
+  if (count === 0) throw new Error('Measurement contains no valid height data');
+  const mean = sum / count;
+  return heights.map(row => row.map(h => (Number.isFinite(h) ? h : mean)));
+};
+
+/**
+ * Parses a 1D stylus profile: two numeric columns x, z (both in µm),
+ * separated by commas, semicolons, tabs or spaces. Non-numeric header lines are skipped.
+ */
+export const parseProfileCSV = (text: string, name: string = 'profile'): MeasuredProfile => {
+  const x: number[] = [];
+  const z: number[] = [];
+  for (const line of splitLines(text)) {
+    if (!line || line.startsWith('#')) continue;
+    const fields = splitFields(line);
+    if (fields.length < 2 || !isNumericRow(fields.slice(0, 2))) continue;
+    x.push(Number(fields[0]));
+    z.push(Number(fields[1]));
+  }
+  if (x.length < 3) throw new Error('Profile must contain at least 3 x,z points');
+  return { kind: 'profile', format: 'profile-csv', name, x, z };
+};
+
+/**
+ * Parses an ASCII XYZ point list on a regular grid (x, y, z in µm).
+ * Missing grid nodes are filled with the mean height.
+ */
+export const parseXYZGrid = (text: string, name: string = 'surface'): MeasuredSurface => {
+  const points: [number, number, number][] = [];
+  for (const line of splitLines(text)) {
+    if (!line || line.startsWith('#')) continue;
+    const fields = splitFields(line);
+    if (fields.length < 3 || !isNumericRow(fields.slice(0, 3))) continue;
+    points.push([Number(fields[0]), Number(fields[1]), Number(fields[2])]);
+  }
+  if (points.length < 9) throw new Error('XYZ grid must contain at least 3x3 points');
+
+  const xs = Array.from(new Set(points.map(p => p[0]))).sort((a, b) => a - b);
+  const ys = Array.from(new Set(points.map(p => p[1]))).sort((a, b) => a - b);
+  const xIndex = new Map(xs.map((v, i) => [v, i]));
+  const yIndex = new Map(ys.map((v, i) => [v, i]));
+
+  const heights: number[][] = ys.map(() => new Array(xs.length).fill(NaN));
+  for (const [px, py, pz] of points) {
+    heights[yIndex.get(py)!][xIndex.get(px)!] = pz;
+  }
+
+  return {
+    kind: 'areal',
+    format: 'xyz-grid',
+    name,
+    heights: fillInvalid(heights),
+    dx: (xs[xs.length - 1] - xs[0]) / Math.max(1, xs.length - 1),
+    dy: (ys[ys.length - 1] - ys[0]) / Math.max(1, ys.length - 1),
+  };
+};
+
+/**
+ * Parses an ISO 25178-7 / ISO 25178-71 SDF file in ASCII form ("aBCR-1.0").
+ * Scales in the header are in metres and are converted to µm.
+ */
+export const parseSDF = (text: string, name: string = 'surface'): MeasuredSurface => {
+  const lines = splitLines(text);
+  if (!lines[0]?.startsWith('aBCR')) throw new Error('Not an SDF file (missing aBCR header)');
+
+  const header: Record<string, string> = {};
+  let i = 1;
+  for (; i < lines.length && lines[i] !== '*'; i++) {
+    const [key, value] = lines[i].split('=').map(s => s.trim());
+    if (key && value !== undefined) header[key.toLowerCase()] = value;
+  }
+
+  const numPoints = parseInt(header['numpoints'], 10);
+  const numProfiles = parseInt(header['numprofiles'], 10);
+  if (!numPoints || !numProfiles) throw new Error('SDF header is missing NumPoints/NumProfiles');
+
+  const toMicrons = (key: string) => (parseFloat(header[key]) || 1e-6) * 1e6;
+  const xScale = toMicrons('xscale');
+  const yScale = toMicrons('yscale');
+  const zScale = toMicrons('zscale');
+
+  const values: number[] = [];
+  for (i = i + 1; i < lines.length && lines[i] !== '*'; i++) {
+    for (const f of splitFields(lines[i])) {
+      const v = Number(f);
+      values.push(Number.isFinite(v) ? v * zScale : NaN);
+    }
+  }
+  if (values.length < numPoints * numProfiles) {
+    throw new Error(`SDF data block holds ${values.length} values, expected ${numPoints * numProfiles}`);
+  }
+
+  const heights: number[][] = [];
+  for (let r = 0; r < numProfiles; r++) {
+    heights.push(values.slice(r * numPoints, (r + 1) * numPoints));
+  }
+
+  return { kind: 'areal', format: 'sdf', name, heights: fillInvalid(heights), dx: xScale, dy: yScale };
+};
+
+const LENGTH_UNITS: Record<string, number> = { nm: 1e-3, um: 1, 'µm': 1, mm: 1e3, m: 1e6 };
+
+/**
+ * Lateral resolution (µm per pixel) from the header of a Zygo XYZ export: a
+ * "CameraRes"/"lateral resolution" entry with its unit, or else the MetroPro layout, where
+ * line 8 reads "Source IntfScaleFactor WavelengthIn NumericAperture ObliquityFactor
+ * Magnification CameraRes TimeStamp" with CameraRes in metres. Undefined when neither is present.
+ */
+export const zygoLateralResolution = (text: string): number | undefined => {
+  const lines = splitLines(text);
+  const header = lines.slice(0, Math.max(0, lines.indexOf('#')));
+  for (const line of header) {
+    const match = line.match(/(?:camera\s*res|lateral\s*resolution)[^0-9+\-.]*([-+]?[0-9.]+(?:e[-+]?\d+)?)\s*(nm|um|µm|mm|m)\b/i);
+    if (match) return Number(match[1]) * LENGTH_UNITS[match[2].toLowerCase()];
+  }
+  const fields = splitFields(header[7] ?? '');
+  const cameraRes = Number(fields[6]);
+  return fields.length >= 7 && isNumericRow(fields.slice(0, 7)) && cameraRes > 0 ? cameraRes * 1e6 : undefined;
+};
+
+/**
+ * Parses a Zygo-style XYZ export: a header block terminated by '#' lines, then
+ * "column row height" records with heights in µm and "No Data" for invalid pixels.
+ * Pixel indices are converted to µm with the lateral resolution, read from the header
+ * unless given.
+ */
+export const parseZygoXYZ = (text: string, name: string = 'surface', lateralResolution: number | undefined = zygoLateralResolution(text)): MeasuredSurface => {
+  if (!lateralResolution || !(lateralResolution > 0)) {
+    throw new Error('Zygo XYZ header has no lateral resolution (CameraRes); cannot convert pixels to µm');
+  }
+  const lines = splitLines(text);
+  let dataStart = 0;
+  for (let i = 0; i < lines.length; i++) {
+    if (lines[i] === '#') dataStart = i + 1;
+    else if (dataStart && isNumericRow(splitFields(lines[i]).slice(0, 2))) break;
+  }
+
+  const records: [number, number, number][] = [];
+  for (let i = dataStart; i < lines.length; i++) {
+    const line = lines[i];
+    if (!line || line === '#') continue;
+    const fields = splitFields(line);
+    if (fields.length < 3 || !isNumericRow(fields.slice(0, 2))) continue;
+    const z = /no\s*data/i.test(line) ? NaN : Number(fields[2]);
+    records.push([Number(fields[0]), Number(fields[1]), z]);
+  }
+  if (records.length < 9) throw new Error('Zygo XYZ file contains too few data records');
+
+  let minCol = Infinity, maxCol = -Infinity, minRow = Infinity, maxRow = -Infinity;
+  for (const [c, r] of records) {
+    minCol = Math.min(minCol, c);
+    maxCol = Math.max(maxCol, c);
+    minRow = Math.min(minRow, r);
+    maxRow = Math.max(maxRow, r);
+  }
+
+  const heights: number[][] = [];
+  for (let r = minRow; r <= maxRow; r++) heights.push(new Array(maxCol - minCol + 1).fill(NaN));
+  for (const [c, r, z] of records) heights[r - minRow][c - minCol] = z;
+
+  return {
+    kind: 'areal',
+    format: 'zygo-xyz',
+    name,
+    heights: fillInvalid(heights),
+    dx: lateralResolution,
+    dy: lateralResolution,
+  };
+};
+
+/**
+ * Detects the file format from its content and dispatches to the matching parser.
+ */
+export const parseMeasurementFile = (text: string, name: string): MeasuredData => {
+  const lines = splitLines(text).filter(l => l.length > 0);
+  if (lines[0]?.startsWith('aBCR')) return parseSDF(text, name);
+  if (/zygo/i.test(lines[0] ?? '') || (lines.includes('#') && /no\s*data/i.test(text))) {
+    return parseZygoXYZ(text, name, zygoLateralResolution(text));
+  }
+
+  const firstData = lines.find(l => !l.startsWith('#') && isNumericRow(splitFields(l)));
+  if (!firstData) throw new Error('No numeric data found in file');
+  return splitFields(firstData).length >= 3 ? parseXYZGrid(text, name) : parseProfileCSV(text, name);
+};
@@ -0,0 +1,123 @@
+import { GeneratedSurface, SurfaceStatistics, SynthesisOptions } from '../types';
+import { DEFAULT_PSD_SETTINGS, evaluatePSD2D } from './psd';
+import { createGaussianRandom } from './random';
+import { fft2D, fftFrequency } from './fft';
+
+export const DEFAULT_SEED = 20240601;
+
+/**
+ * FFT-filtered Gaussian random surface on a periodic size × size grid (size must be a power of two).
+ * White noise from the seeded generator is shaped by the square root of the anisotropic
+ * 2D PSD, so the autocorrelation is the Fourier pair of the selected PSD model
+ * (Gaussian, exponential, or the power-law ABC / fractal spectra). Heights are
+ * finally rescaled to exactly the requested Rq.
+ */
+export const generateRandomSurface = (rq: number, size: number = 128, options: SynthesisOptions = {}): GeneratedSurface => {
+  const settings = { ...DEFAULT_PSD_SETTINGS };
+  if (options.psdModel) settings.psdModel = options.psdModel;
+  if (options.correlationLength) settings.correlationLength = options.correlationLength;
+  if (options.psdExponent) settings.psdExponent = options.psdExponent;
+  if (options.anisotropy) settings.anisotropy = options.anisotropy;
+  const seed = options.seed ?? DEFAULT_SEED;
+
+  const lx = settings.correlationLength;
+  const ly = settings.correlationLength * settings.anisotropy;
+  const dx = options.spacing ?? Math.min(lx, ly) / 4;
+  const dy = dx;
+
+  const n = size * size;
+  const re = new Float64Array(n);
+  const im = new Float64Array(n);
+  const gauss = createGaussianRandom(seed);
+  for (let i = 0; i < n; i++) re[i] = gauss();
+
+  fft2D(re, im, size, size);
+  for (let r = 0; r < size; r++) {
+    const fy = fftFrequency(r, size, dy);
+    for (let c = 0; c < size; c++) {
+      const fx = fftFrequency(c, size, dx);
+      const amp = Math.sqrt(evaluatePSD2D(fx, fy, 1, settings));
+      re[r * size + c] *= amp;
+      im[r * size + c] *= amp;
+    }
+  }
+  fft2D(re, im, size, size, true);
+
+  let mean = 0;
+  for (let i = 0; i < n; i++) mean += re[i];
+  mean /= n;
+  let variance = 0;
+  for (let i = 0; i < n; i++) variance += (re[i] - mean) * (re[i] - mean);
+  const scale = rq / (Math.sqrt(variance / n) || 1);
+
+  const heights: number[][] = [];
+  for (let r = 0; r < size; r++) {
+    heights.push(Array.from(re.subarray(r * size, (r + 1) * size), v => (v - mean) * scale));
+  }
+  return { heights, dx, dy, seed };
+};
+
+/**
+ * Profile along x through the given row of a generated surface.
+ */
+export const surfaceCrossSection = (surface: GeneratedSurface, row: number = Math.floor(surface.heights.length / 2)) =>
+  surface.heights[row].map((y, i) => ({ x: i * surface.dx, y }));
+
+/**
+ * Lag (in samples) at which a normalised autocorrelation first drops below 1/e,
+ * linearly interpolated between samples.
+ */
+const decayLag = (acf: number[]) => {
+  const threshold = Math.exp(-1);
+  for (let k = 1; k < acf.length; k++) {
+    if (acf[k] < threshold) {
+      return k - 1 + (acf[k - 1] - threshold) / (acf[k - 1] - acf[k]);
+    }
+  }
+  return acf.length;
+};
+
+/**
+ * Measures Ra, Rq and the 1/e autocorrelation lengths along x and y, so a generated
+ * surface can be checked against the requested statistics. Periodic lags are used,
+ * matching the periodic FFT synthesis.
+ */
+export const measureSurfaceStatistics = (heights: number[][], dx: number, dy: number): SurfaceStatistics => {
+  const rows = heights.length;
+  const cols = heights[0].length;
+  let mean = 0;
+  for (const row of heights) for (const h of row) mean += h;
+  mean /= rows * cols;
+
+  let absSum = 0;
+  let sq = 0;
+  for (const row of heights) {
+    for (const h of row) {
+      absSum += Math.abs(h - mean);
+      sq += (h - mean) * (h - mean);
+    }
+  }
+  const variance = sq / (rows * cols) || 1;
+
+  const acfX = Array.from({ length: Math.floor(cols / 2) }, (_, k) => {
+    let sum = 0;
+    for (let r = 0; r < rows; r++) {
+      for (let c = 0; c < cols; c++) sum += (heights[r][c] - mean) * (heights[r][(c + k) % cols] - mean);
+    }
+    return sum / (rows * cols) / variance;
+  });
+  const acfY = Array.from({ length: Math.floor(rows / 2) }, (_, k) => {
+    let sum = 0;
+    for (let r = 0; r < rows; r++) {
+      for (let c = 0; c < cols; c++) sum += (heights[r][c] - mean) * (heights[(r + k) % rows][c] - mean);
+    }
+    return sum / (rows * cols) / variance;
+  });
+
+  return {
+    ra: absSum / (rows * cols),
+    rq: Math.sqrt(sq / (rows * cols)),
+    correlationLengthX: decayLag(acfX) * dx,
+    correlationLengthY: decayLag(acfY) * dy,
+  };
+};
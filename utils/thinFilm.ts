@@ -0,0 +1,253 @@
+import { CoatingStack, FilmStack, MaterialData, MuellerMatrix, RefractiveIndex, ResolvedCoating } from '../types';
+import { Complex, cAbs2, cAdd, cDiv, cExp, cMul, cScale, cSqrt, cSub, complex } from './complex';
+import { fresnelReflectance } from './fresnel';
+import { findMaterial, interpolateNK } from './materials';
+import { JonesMatrix, addMueller, jonesToMueller } from './polarization';
+
+const DEG = Math.PI / 180;
+
+export const EMPTY_COATING: CoatingStack = { layers: [], correlation: 'correlated' };
+
+/** Common coatings on aluminium, thicknesses in micrometers. */
+export const COATING_PRESETS: { id: string; name: string; stack: CoatingStack }[] = [
+  {
+    id: 'native-oxide',
+    name: '自然氧化层 (Al₂O₃ 4 nm)',
+    stack: { layers: [{ material: 'al2o3-anodized', thickness: 0.004, ra: 0 }], correlation: 'correlated' },
+  },
+  {
+    id: 'protected-sio2',
+    name: '保护铝 (SiO₂ λ/2 @ 550 nm)',
+    stack: { layers: [{ material: 'sio2', thickness: 0.188, ra: 0 }], correlation: 'correlated' },
+  },
+  {
+    id: 'uv-mgf2',
+    name: '紫外增强 (MgF₂ 25 nm)',
+    stack: { layers: [{ material: 'mgf2', thickness: 0.025, ra: 0 }], correlation: 'correlated' },
+  },
+  {
+    id: 'enhanced-visible',
+    name: '可见光增强 (SiO₂/TiO₂ λ/4 ×2)',
+    stack: {
+      layers: [
+        { material: 'tio2', thickness: 0.0519, ra: 0 },
+        { material: 'sio2', thickness: 0.0942, ra: 0 },
+        { material: 'tio2', thickness: 0.0519, ra: 0 },
+        { material: 'sio2', thickness: 0.0942, ra: 0 },
+      ],
+      correlation: 'correlated',
+    },
+  },
+];
+
+/**
+ * Looks up the layer materials; undefined for an empty stack. A layer roughness of 0 means
+ * the interface replicates the substrate roughness.
+ */
+export const resolveCoating = (stack: CoatingStack, userMaterials: MaterialData[] = []): ResolvedCoating | undefined => {
+  if (stack.layers.length === 0) return undefined;
+  return {
+    correlation: stack.correlation,
+    layers: stack.layers.map(layer => {
+      const material = findMaterial(layer.material, userMaterials);
+      if (!material) throw new Error(`Unknown coating material "${layer.material}"`);
+      return { material, thickness: layer.thickness, ra: layer.ra };
+    }),
+  };
+};
+
+export const filmStackAt = (coating: ResolvedCoating, wavelength: number): FilmStack => ({
+  correlation: coating.correlation,
+  layers: coating.layers.map(l => ({ index: interpolateNK(l.material, wavelength), thickness: l.thickness, ra: l.ra })),
+});
+
+/**
+ * Reflectance, substrate index and film stack at one wavelength and incidence (degrees), shared
+ * by every caller that turns a material selection into scattering inputs. Without a material
+ * the manual reflectivity applies and the coating is ignored.
+ */
+export const surfaceOpticsAt = (
+  material: MaterialData | undefined,
+  coating: ResolvedCoating | undefined,
+  wavelength: number,
+  thetaInc: number,
+  reflectivity: number
+): { reflectance: number; refractiveIndex?: RefractiveIndex; film?: FilmStack } => {
+  if (!material) return { reflectance: reflectivity };
+  const refractiveIndex = interpolateNK(material, wavelength);
+  const film = coating ? filmStackAt(coating, wavelength) : undefined;
+  return { reflectance: stackReflectance(refractiveIndex, film, wavelength, thetaInc * DEG).R, refractiveIndex, film };
+};
+
+interface Admittance {
+  xi: Complex; // N·cosθ in the medium
+  eps: Complex; // N²
+  s: Complex; // Tilted admittance for s: N·cosθ
+  p: Complex; // Tilted admittance for p: N²/(N·cosθ)
+}
+
+const admittance = (index: RefractiveIndex, sinTheta: number): Admittance => {
+  const N = complex(index.n, index.k);
+  const eps = cMul(N, N);
+  const xi = cSqrt(cSub(eps, complex(sinTheta * sinTheta)));
+  return { xi, eps, s: xi, p: cDiv(eps, xi) };
+};
+
+/** Tangential E and H (admittance units) at each interface, top first, per unit transmitted field. */
+type InterfaceFields = { e: Complex; h: Complex }[];
+
+/**
+ * Transfer-matrix walk from the substrate up to the ambient. Every layer has the characteristic
+ * matrix [[cos δ, −i sin δ/η], [−iη sin δ, cos δ]] (N = n + ik convention), δ = 2π·N·cosθ·d/λ.
+ */
+const transfer = (layers: Admittance[], thicknesses: number[], substrate: Admittance, lambda: number, pol: 's' | 'p') => {
+  let e = complex(1);
+  let h = substrate[pol];
+  const fields: InterfaceFields = [{ e, h }];
+  for (let j = layers.length - 1; j >= 0; j--) {
+    const eta = layers[j][pol];
+    const delta = cScale(layers[j].xi, (2 * Math.PI * thicknesses[j]) / lambda);
+    const plus = cExp(cMul(complex(0, 1), delta));
+    const minus = cExp(cMul(complex(0, -1), delta));
+    const cos = cScale(cAdd(plus, minus), 0.5);
+    // −i·sin δ = (e^{−iδ} − e^{iδ})/2
+    const minusISin = cScale(cSub(minus, plus), 0.5);
+    const nextE = cAdd(cMul(cos, e), cDiv(cMul(minusISin, h), eta));
+    const nextH = cAdd(cMul(cMul(minusISin, eta), e), cMul(cos, h));
+    e = nextE;
+    h = nextH;
+    fields.unshift({ e, h });
+  }
+  return fields;
+};
+
+/**
+ * Amplitude reflection coefficients of the stack and the tangential fields at every interface
+ * for a unit incident amplitude. Signs follow `fresnelCoefficients`; with no layers the result
+ * is the bare Fresnel reflection.
+ */
+const stackResponse = (substrate: RefractiveIndex, film: FilmStack | undefined, lambda: number, theta: number) => {
+  const sin = Math.sin(theta);
+  const cos = Math.max(1e-9, Math.cos(theta));
+  const layers = (film?.layers ?? []).map(l => admittance(l.index, sin));
+  const thicknesses = (film?.layers ?? []).map(l => l.thickness);
+  const sub = admittance(substrate, sin);
+  const ambient = { s: complex(cos), p: complex(1 / cos) };
+
+  const solve = (pol: 's' | 'p', incident: number) => {
+    const fields = transfer(layers, thicknesses, sub, lambda, pol);
+    const { e: B, h: C } = fields[0];
+    const eta0B = cMul(ambient[pol], B);
+    const r = cDiv(cSub(eta0B, C), cAdd(eta0B, C));
+    // Incident tangential amplitude (η0·B + C)/(2η0) per unit transmitted field.
+    const scale = cDiv(cScale(ambient[pol], 2 * incident), cAdd(eta0B, C));
+    return { r, fields: fields.map(f => ({ e: cMul(f.e, scale), h: cMul(f.h, scale) })) };
+  };
+  const s = solve('s', 1);
+  // The p tangential field of a unit-amplitude wave is cosθ; the admittance form has the opposite rp sign.
+  const p = solve('p', cos);
+  return {
+    rs: s.r,
+    rp: cScale(p.r, -1),
+    es: s.fields.map(f => f.e),
+    ex: p.fields.map(f => f.e),
+    dz: p.fields.map(f => cScale(f.h, sin)), // Normal D = sinθ·H_tangential
+    eps: [complex(1), ...layers.map(l => l.eps), sub.eps],
+  };
+};
+
+/**
+ * Specular reflectances of the coated substrate at theta (radians), as `fresnelReflectance`.
+ */
+export const stackReflectance = (substrate: RefractiveIndex, film: FilmStack | undefined, lambda: number, theta: number) => {
+  if (!film || film.layers.length === 0) return fresnelReflectance(substrate, theta);
+  const { rs, rp } = stackResponse(substrate, film, lambda, theta);
+  const Rs = cAbs2(rs);
+  const Rp = cAbs2(rp);
+  return { Rs, Rp, R: (Rs + Rp) / 2 };
+};
+
+/**
+ * Specular Jones matrix of the stack in the convention of `scatteringJones` (q_ss = −rs, q_pp = rp).
+ */
+export const stackSpecularJones = (substrate: RefractiveIndex, film: FilmStack | undefined, lambda: number, theta: number): JonesMatrix => {
+  const { rs, rp } = stackResponse(substrate, film, lambda, theta);
+  return [[cScale(rs, -1), complex(0)], [complex(0), rp]];
+};
+
+/**
+ * First-order (Elson) polarization factors of a rough multilayer. Interface j between media
+ * a and b contributes q = (ε_b − ε_a)/(4 cosθi cosθs) times the products of the local fields
+ * for the incident and (by reciprocity) the scattered direction: tangential E for s and p,
+ * minus D_z·D_z'/(ε_a ε_b) for p–p. Fields include the interference in the stack, so a bare
+ * substrate reproduces `scatteringJones`. Correlated interfaces (replicas of the substrate
+ * profile scaled by their roughness) add in amplitude, uncorrelated ones in intensity.
+ * Returns the Mueller matrix to be multiplied by the substrate PSD term.
+ */
+export const stackScatteringMueller = (
+  substrate: RefractiveIndex,
+  film: FilmStack,
+  substrateRa: number,
+  lambda: number,
+  thetaI: number,
+  thetaS: number,
+  phiS: number
+): MuellerMatrix => {
+  const inc = stackResponse(substrate, film, lambda, thetaI);
+  const sca = stackResponse(substrate, film, lambda, thetaS);
+  const cosPhi = Math.cos(phiS);
+  const sinPhi = Math.sin(phiS);
+  const obliquity = 4 * Math.cos(thetaI) * Math.max(1e-9, Math.cos(thetaS));
+  // Interface j is the top of layer j (ambient side first); the last one is the substrate's.
+  const weights = [...film.layers.map(l => (l.ra > 0 && substrateRa > 0 ? l.ra / substrateRa : 1)), 1];
+
+  const interfaces: JonesMatrix[] = weights.map((w, j) => {
+    const epsA = inc.eps[j];
+    const epsB = inc.eps[j + 1];
+    const k = cScale(cSub(epsB, epsA), w / obliquity);
+    const ss = cMul(k, cScale(cMul(inc.es[j], sca.es[j]), cosPhi));
+    const sp = cMul(k, cScale(cMul(inc.es[j], sca.ex[j]), sinPhi));
+    const ps = cMul(k, cScale(cMul(inc.ex[j], sca.es[j]), sinPhi));
+    const pp = cMul(k, cSub(
+      cScale(cMul(inc.ex[j], sca.ex[j]), cosPhi),
+      cDiv(cMul(inc.dz[j], sca.dz[j]), cMul(epsA, epsB))
+    ));
+    return [[ss, ps], [sp, pp]];
+  });
+
+  if (film.correlation === 'uncorrelated') {
+    return interfaces.map(jonesToMueller).reduce((acc, m) => addMueller(acc, m));
+  }
+  const sum = interfaces.reduce((acc, J) => [
+    [cAdd(acc[0][0], J[0][0]), cAdd(acc[0][1], J[0][1])],
+    [cAdd(acc[1][0], J[1][0]), cAdd(acc[1][1], J[1][1])],
+  ] as JonesMatrix);
+  return jonesToMueller(sum);
+};
+
+/**
+ * Stack reflectance against wavelength (µm) at a fixed incidence (degrees), and against
+ * incidence at a fixed wavelength, for the coating editor.
+ */
+export const stackReflectanceCurves = (
+  substrate: MaterialData,
+  coating: ResolvedCoating | undefined,
+  wavelength: number,
+  thetaInc: number,
+  band: [number, number] = [0.2, 2.5]
+) => {
+  const spectral = Array.from({ length: 161 }, (_, i) => {
+    const lambda = band[0] * Math.pow(band[1] / band[0], i / 160);
+    const film = coating ? filmStackAt(coating, lambda) : undefined;
+    const { Rs, Rp, R } = stackReflectance(interpolateNK(substrate, lambda), film, lambda, thetaInc * DEG);
+    const bare = fresnelReflectance(interpolateNK(substrate, lambda), thetaInc * DEG).R;
+    return { wavelength: Number((lambda * 1000).toFixed(1)), Rs, Rp, R, bare };
+  });
+  const index = interpolateNK(substrate, wavelength);
+  const film = coating ? filmStackAt(coating, wavelength) : undefined;
+  const angular = Array.from({ length: 90 }, (_, angle) => {
+    const { Rs, Rp, R } = stackReflectance(index, film, wavelength, angle * DEG);
+    return { angle, Rs, Rp, R, bare: fresnelReflectance(index, angle * DEG).R };
+  });
+  return { spectral, angular };
+};
@@ -0,0 +1,26 @@
+import path from 'path';
+import { builtinModules } from 'module';
+import { defineConfig } from 'vite';
+
+// Headless library and CLI for Node (no React, no DOM): `npm run build:lib` → dist-lib/.
+export default defineConfig({
+  build: {
+    outDir: 'dist-lib',
+    target: 'node20',
+    ssr: true,
+    emptyOutDir: true,
+    rollupOptions: {
+      input: {
+        index: path.resolve(__dirname, 'lib/index.ts'),
+        cli: path.resolve(__dirname, 'lib/cli.ts'),
+      },
+      external: [...builtinModules, ...builtinModules.map(m => `node:${m}`)],
+      output: {
+        format: 'es',
+        entryFileNames: '[name].js',
+        chunkFileNames: 'shared-[hash].js',
+        banner: chunk => (chunk.name === 'cli' ? '#!/usr/bin/env node' : ''),
+      },
+    },
+  },
+});
@@ -0,0 +1,13 @@
+import { tabulateRenderBRDF } from '../utils/bsdfFormats';
+import type { RenderTableRequest, RenderTableResponse } from '../services/renderTableService';
+
+self.onmessage = (e: MessageEvent<RenderTableRequest>) => {
+  const { id, setup } = e.data;
+  let response: RenderTableResponse;
+  try {
+    response = { id, table: tabulateRenderBRDF(setup) };
+  } catch (err) {
+    response = { id, error: err instanceof Error ? err.message : String(err) };
+  }
+  self.postMessage(response);
+};
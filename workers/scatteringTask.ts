@@ -0,0 +1,59 @@
+import { ScatteringData, ScatteringQuality, ScatteringRequest, ScatteringTask, ScatteringTaskResults } from '../types';
+import {
+  calculateAdaptiveScattering,
+  calculateEnergyConcentration,
+  calculateHemisphericalBRDF,
+  calculatePolarizedScattering,
+  calculateScattering,
+} from '../utils/physics';
+import { calculateAppearanceMetrics } from '../utils/appearance';
+import { calculateSpectralSweep } from '../utils/spectral';
+
+/** Finest in-plane resolution in degrees; also the width scale of the sampled specular beam. */
+export const SIMULATION_STEP = 0.001;
+
+/** Coarse first pass shown while the adaptive curve is computed. */
+const PREVIEW_SAMPLING = { coarseStep: 2, tolerance: 0.1 };
+
+/**
+ * Evaluates a request at the given quality. Shared by the worker and the main-thread
+ * fallback used where workers are unavailable.
+ */
+export const runScatteringTask = (request: ScatteringRequest, quality: ScatteringQuality): ScatteringData[] => {
+  const { ra, wavelength, incidentAngle, modelType, reflectivity, slopeFactor, options } = request;
+  if (quality === 'uniform') {
+    return calculateScattering(ra, wavelength, incidentAngle, modelType, SIMULATION_STEP, reflectivity, slopeFactor, options);
+  }
+  return calculateAdaptiveScattering(
+    ra, wavelength, incidentAngle, modelType, SIMULATION_STEP, reflectivity, slopeFactor, options,
+    quality === 'preview' ? PREVIEW_SAMPLING : {}
+  );
+};
+
+export type ScatteringTaskResult = ScatteringTaskResults[keyof ScatteringTaskResults];
+
+/**
+ * Evaluates any worker task: the in-plane curve, or one of the derived views of the same request.
+ */
+export const evaluateScatteringTask = (task: ScatteringTask): ScatteringTaskResult => {
+  if (task.kind === 'curve') return runScatteringTask(task.request, task.quality);
+  if (task.kind === 'appearance') {
+    const { ra, modelType, slopeFactor, options, material, reflectivity, coating } = task.request;
+    return calculateAppearanceMetrics(ra, modelType, slopeFactor, options, material, reflectivity, coating);
+  }
+  if (task.kind === 'sweep') {
+    const { ra, modelType, slopeFactor, options, material, reflectivity, coating } = task.request;
+    return calculateSpectralSweep(ra, task.incidentAngle, modelType, slopeFactor, options, task.settings, material, reflectivity, coating);
+  }
+  const { ra, wavelength, incidentAngle, modelType, reflectivity, slopeFactor, options } = task.request;
+  if (task.kind === 'sampled') {
+    return calculateScattering(ra, wavelength, incidentAngle, modelType, task.step, reflectivity, slopeFactor, options);
+  }
+  if (task.kind === 'polarized') {
+    return calculatePolarizedScattering(ra, wavelength, incidentAngle, modelType, task.step, reflectivity, slopeFactor, options);
+  }
+  if (task.kind === 'hemisphere') {
+    return calculateHemisphericalBRDF(ra, wavelength, incidentAngle, modelType, task.thetaStep, task.phiStep, reflectivity, slopeFactor, options);
+  }
+  return calculateEnergyConcentration(ra, wavelength, incidentAngle, modelType, reflectivity, slopeFactor, options);
+};
@@ -0,0 +1,13 @@
+import { evaluateScatteringTask } from './scatteringTask';
+import type { WorkerRequest, WorkerResponse } from '../services/scatteringPool';
+
+self.onmessage = (e: MessageEvent<WorkerRequest>) => {
+  const { id, task } = e.data;
+  let response: WorkerResponse;
+  try {
+    response = { id, result: evaluateScatteringTask(task) };
+  } catch (err) {
+    response = { id, error: err instanceof Error ? err.message : String(err) };
+  }
+  self.postMessage(response);
+};